@@ -0,0 +1,263 @@
+import {
+  Agent,
+  AgentCallOptions,
+  AgentResponse,
+  Message,
+  StreamCallback,
+  ToolCall,
+  ToolCallRecord,
+  ToolResult,
+} from './types/index.js';
+import { ToolApprovalDecision } from './tool-approval.js';
+import { LoopDetectionConfig, ToolLoopDetector, createToolLoopError, resolveLoopDetection } from './loop-detection.js';
+
+/**
+ * Executes a single tool call requested by an agent and returns its raw result
+ */
+export type ToolDispatcher = (toolCall: ToolCall) => Promise<any>;
+
+/**
+ * Oversized tool result saved outside the conversation
+ */
+export interface StoredToolResult {
+  artifactId: string;
+  output: string; // Sent to the model instead of the full result (preview and how to read the rest)
+}
+
+export interface AgentLoopOptions {
+  dispatchTool: ToolDispatcher;
+  isAborted?: () => boolean;
+  callOptions?: AgentCallOptions; // Passed to every agent call (abort signal, model override)
+  callAgent?: (messages: Message[], onDelta?: StreamCallback) => Promise<AgentResponse>; // Override for agent calls (e.g. rate limit retry)
+  onToolCallStart?: (toolCall: ToolCall) => void; // Called before each tool call is executed (after approval)
+  onToolCall?: (record: ToolCallRecord) => void; // Called after each tool call (UI tracking)
+  trackAgentCall?: (messages: Message[], call: () => Promise<AgentResponse>) => Promise<AgentResponse>; // Wraps every agent call (events, timing, tracing)
+  approveToolCall?: (toolCall: ToolCall) => Promise<ToolApprovalDecision | null>; // null - no approval needed
+  onDelta?: StreamCallback; // Stream response text (agents without executeStream respond in one piece)
+  maxIterations?: number;
+  maxToolResultLength?: number;
+  storeToolResult?: (toolCall: ToolCall, result: any) => Promise<StoredToolResult | null>; // Longer results are stored instead of truncated (null - truncate)
+  includeToolHistory?: boolean; // Prepend executed tool calls to the final response
+  loopDetection?: Partial<LoopDetectionConfig>; // Repeated calls, repeated errors and iterations without progress
+}
+
+/**
+ * Final answer of the loop together with the messages of this turn
+ */
+export interface AgentLoopResult {
+  content: string;
+  messages: Message[]; // Tool calls, tool results and the final answer (in the agent's format) after the initial messages
+}
+
+export const DEFAULT_MAX_TOOL_ITERATIONS = 20;
+export const DEFAULT_MAX_TOOL_RESULT_LENGTH = 10000;
+export const FINAL_ANSWER_MARKER = '=== Finalna odpowiedź LLM ==='; // Separates the tool history from the answer
+
+/**
+ * Provider-agnostic agent loop
+ * Calls the agent, dispatches its tool calls and feeds results back until
+ * the agent returns a final answer
+ */
+export class AgentLoop {
+  private maxIterations: number;
+  private maxToolResultLength: number;
+  private loopDetection: LoopDetectionConfig;
+
+  constructor(private agent: Agent, private options: AgentLoopOptions) {
+    this.maxIterations = options.maxIterations ?? DEFAULT_MAX_TOOL_ITERATIONS;
+    this.maxToolResultLength = options.maxToolResultLength ?? DEFAULT_MAX_TOOL_RESULT_LENGTH;
+    this.loopDetection = resolveLoopDetection(options.loopDetection);
+  }
+
+  /**
+   * Run the loop starting from the given conversation
+   */
+  async run(initialMessages: Message[]): Promise<string> {
+    return (await this.runTurn(initialMessages)).content;
+  }
+
+  /**
+   * Run the loop and also return the messages it added to the conversation (chat turns)
+   */
+  async runTurn(initialMessages: Message[]): Promise<AgentLoopResult> {
+    const messages: Message[] = [...initialMessages];
+    const history: Array<{ iteration: number; calls: ToolCallRecord[] }> = [];
+    const loopDetector = this.loopDetection.enabled ? new ToolLoopDetector(this.loopDetection) : null;
+    let corrections = 0;
+    let toolCallIterations = 0;
+
+    while (true) {
+      this.checkAborted();
+
+      // Prevent infinite loops
+      if (toolCallIterations >= this.maxIterations) {
+        throw new Error(`Maximum tool call iterations (${this.maxIterations}) exceeded. Task may be too complex or model is stuck in a loop. Try breaking the task into smaller steps.`);
+      }
+
+      console.log(`[AgentLoop] ${this.agent.name} iteration ${toolCallIterations + 1}: Calling with ${messages.length} messages: [${messages.map(m => m.role).join(', ')}]`);
+
+      const response = await this.callAgent(messages);
+
+      // If no tool calls, we're done
+      if (!response.toolCalls || response.toolCalls.length === 0) {
+        const turnMessages: Message[] = [
+          ...messages.slice(initialMessages.length),
+          { role: 'assistant', content: response.content },
+        ];
+        if (this.options.includeToolHistory && history.length > 0) {
+          return { content: this.formatWithHistory(history, response.content), messages: turnMessages };
+        }
+        return { content: response.content, messages: turnMessages };
+      }
+
+      toolCallIterations++;
+      console.log(`[AgentLoop] Processing ${response.toolCalls.length} tool call(s) from ${this.agent.name} (iteration ${toolCallIterations})`);
+
+      const toolResults: ToolResult[] = [];
+      const iterationCalls: ToolCallRecord[] = [];
+
+      for (const requestedCall of response.toolCalls) {
+        this.checkAborted();
+        console.log(`[${this.agent.name}] Tool call: ${requestedCall.name}`);
+
+        // Sensitive tools wait for a human decision
+        const decision = this.options.approveToolCall ? await this.options.approveToolCall(requestedCall) : null;
+        this.checkAborted();
+
+        const toolCall = decision?.action === 'edit' ? { ...requestedCall, input: decision.input } : requestedCall;
+        const rejected = decision?.action === 'reject';
+        this.options.onToolCallStart?.(toolCall);
+        const result = rejected
+          ? `Wywołanie narzędzia ${toolCall.name} zostało odrzucone przez użytkownika${decision.reason ? `: ${decision.reason}` : ''}. Nie ponawiaj tego wywołania - kontynuuj zadanie bez niego lub wyjaśnij, czego brakuje.`
+          : await this.options.dispatchTool(toolCall);
+
+        const stored = rejected ? null : await this.storeToolResult(toolCall, result);
+
+        const record: ToolCallRecord = {
+          id: toolCall.id,
+          name: toolCall.name,
+          input: toolCall.input,
+          result: stored ? stored.output : result,
+          approval: decision?.action,
+          artifactId: stored?.artifactId,
+        };
+        iterationCalls.push(record);
+        this.options.onToolCall?.(record);
+
+        toolResults.push({
+          toolCallId: toolCall.id,
+          output: stored ? stored.output : this.truncateToolResult(result),
+          isError: rejected || undefined,
+        });
+      }
+
+      // A looping model gets a corrective message with the results; if it keeps looping, the run ends early
+      const loop = loopDetector?.observe(iterationCalls);
+      if (loop) {
+        if (corrections >= this.loopDetection.maxCorrections) {
+          throw createToolLoopError(this.agent.name, toolCallIterations, loop, corrections);
+        }
+        corrections++;
+        console.log(`[AgentLoop] ${this.agent.name} loop detected (${loop.kind}): ${loop.description}. Sending corrective message ${corrections}/${this.loopDetection.maxCorrections}`);
+        const lastResult = toolResults[toolResults.length - 1];
+        lastResult.output = `${lastResult.output}\n\n[UWAGA] ${loop.correction}`;
+      }
+
+      history.push({ iteration: toolCallIterations, calls: iterationCalls });
+      messages.push(...this.buildToolResultMessages(response, toolResults));
+
+      console.log(`[AgentLoop] Messages array now has ${messages.length} messages`);
+    }
+  }
+
+  private callAgent(messages: Message[]): Promise<AgentResponse> {
+    const { trackAgentCall } = this.options;
+    return trackAgentCall ? trackAgentCall(messages, () => this.invokeAgent(messages)) : this.invokeAgent(messages);
+  }
+
+  private invokeAgent(messages: Message[]): Promise<AgentResponse> {
+    const { onDelta, callOptions } = this.options;
+    if (this.options.callAgent) {
+      return this.options.callAgent(messages, onDelta);
+    }
+    if (onDelta && this.agent.executeStream) {
+      return this.agent.executeStream(messages, onDelta, callOptions);
+    }
+    return this.agent.execute(messages, callOptions);
+  }
+
+  private checkAborted(): void {
+    if (this.options.isAborted?.() || this.options.callOptions?.signal?.aborted) {
+      throw new Error('Execution aborted by user');
+    }
+  }
+
+  /**
+   * Continue the conversation with tool results, in the agent's native format if it has one
+   */
+  private buildToolResultMessages(response: AgentResponse, toolResults: ToolResult[]): Message[] {
+    if (this.agent.buildToolResultMessages) {
+      return this.agent.buildToolResultMessages(response, toolResults);
+    }
+
+    const toolResultsText = toolResults
+      .map((tr) => `Tool ${tr.toolCallId} (${response.toolCalls?.find(tc => tc.id === tr.toolCallId)?.name}) result:\n${tr.output}`)
+      .join('\n\n');
+
+    return [
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: `Tool results:\n\n${toolResultsText}\n\nAnalyze the results and continue the task.` },
+    ];
+  }
+
+  /**
+   * Save a tool result that does not fit maxToolResultLength (when the loop has a store)
+   */
+  private async storeToolResult(toolCall: ToolCall, result: any): Promise<StoredToolResult | null> {
+    if (!this.options.storeToolResult) {
+      return null;
+    }
+    const resultStr = typeof result === 'string' ? result : JSON.stringify(result);
+    if ((resultStr?.length ?? 0) <= this.maxToolResultLength) {
+      return null;
+    }
+    return this.options.storeToolResult(toolCall, result);
+  }
+
+  /**
+   * Truncate long tool results to prevent context overflow
+   */
+  private truncateToolResult(result: any): string {
+    const maxLength = this.maxToolResultLength;
+    const resultStr = typeof result === 'string' ? result : JSON.stringify(result);
+
+    if (resultStr.length <= maxLength) {
+      return resultStr;
+    }
+
+    const truncated = resultStr.substring(0, maxLength);
+    const suffix = `\n\n[... skrócono ${resultStr.length - maxLength} znaków. Pełny wynik był za długi (${resultStr.length} znaków). Zadaj bardziej precyzyjne zapytanie aby uzyskać szczegóły.]`;
+
+    return truncated + suffix;
+  }
+
+  /**
+   * Format final response together with the executed tool calls
+   */
+  private formatWithHistory(
+    history: Array<{ iteration: number; calls: ToolCallRecord[] }>,
+    finalContent: string
+  ): string {
+    let formattedResponse = '';
+    for (const iter of history) {
+      formattedResponse += `\n=== Iteracja ${iter.iteration} - Wykonane narzędzia ===\n`;
+      for (const call of iter.calls) {
+        formattedResponse += `\n🛠️ ${call.name}\n`;
+        formattedResponse += `Input: ${JSON.stringify(call.input, null, 2)}\n`;
+        formattedResponse += `Result: ${JSON.stringify(call.result, null, 2)}\n`;
+      }
+    }
+    formattedResponse += `\n${FINAL_ANSWER_MARKER}\n${finalContent}`;
+    return formattedResponse;
+  }
+}
@@ -1,6 +1,7 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ZodType } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { readFileSync } from 'fs';
 import {
@@ -13,7 +14,11 @@ import {
   ToolResult,
   MCPServerConfig,
   FileAttachment,
+  StreamCallback,
+  AgentCallOptions,
+  TokenUsage,
 } from '../types/index.js';
+import { ProviderRecorder } from '../recording.js';
 
 export class ClaudeAgent implements Agent {
   name: string;
@@ -26,6 +31,8 @@ export class ClaudeAgent implements Agent {
   private tools: Tool[];
   private mcpClients: Map<string, Client> = new Map();
   private mcpTools: Tool[] = [];
+  private recorder = new ProviderRecorder();
+  private backend: Agent | null = null;
 
   constructor(
     apiKey: string,
@@ -82,6 +89,20 @@ export class ClaudeAgent implements Agent {
     return this.model;
   }
 
+  /**
+   * Record or replay the API and MCP calls of this agent
+   */
+  setRecorder(recorder: ProviderRecorder): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Answer with another agent instead of the provider API (dry run, tests) - MCP tools stay real
+   */
+  setBackend(backend: Agent | null): void {
+    this.backend = backend;
+  }
+
   /**
    * Initialize MCP servers and load their tools
    */
@@ -101,14 +122,17 @@ export class ClaudeAgent implements Agent {
 
         console.log(`[ClaudeAgent] Transport created for ${serverConfig.name}`);
 
-        const client = new Client(
-          {
-            name: `claude-agent-mcp-client-${serverConfig.name}`,
-            version: '1.0.0',
-          },
-          {
-            capabilities: {},
-          }
+        const client = this.recorder.wrapMCPClient(
+          new Client(
+            {
+              name: `claude-agent-mcp-client-${serverConfig.name}`,
+              version: '1.0.0',
+            },
+            {
+              capabilities: {},
+            }
+          ),
+          serverConfig.name
         );
 
         await client.connect(transport);
@@ -158,10 +182,33 @@ export class ClaudeAgent implements Agent {
 
   async executeWithTools(
     messages: Message[],
-    toolResults: ToolResult[]
+    toolResults: ToolResult[],
+    options: AgentCallOptions = {}
   ): Promise<AgentResponse> {
     // executeWithTools is now just a wrapper - orchestrator builds complete message history
-    return this.execute(messages);
+    return this.execute(messages, options);
+  }
+
+  /**
+   * Build assistant (tool_use) + user (tool_result) messages for the Claude API
+   * The pattern must be: user -> assistant (with tool_use) -> user (with tool_result)
+   */
+  buildToolResultMessages(response: AgentResponse, toolResults: ToolResult[]): Message[] {
+    return [
+      {
+        role: 'assistant',
+        content: response.rawContent || response.content,
+      },
+      {
+        role: 'user',
+        content: toolResults.map((tr) => ({
+          type: 'tool_result',
+          tool_use_id: tr.toolCallId,
+          content: tr.output,
+          is_error: tr.isError || undefined,
+        })),
+      },
+    ];
   }
 
   /**
@@ -184,7 +231,29 @@ export class ClaudeAgent implements Agent {
     };
   }
 
-  async execute(messages: Message[]): Promise<AgentResponse> {
+  async execute(messages: Message[], options: AgentCallOptions = {}): Promise<AgentResponse> {
+    return this.sendMessages(messages, undefined, options);
+  }
+
+  async executeStream(messages: Message[], onDelta: StreamCallback, options: AgentCallOptions = {}): Promise<AgentResponse> {
+    return this.sendMessages(messages, onDelta, options);
+  }
+
+  /**
+   * Send messages to the Claude API (streamed when onDelta is given)
+   */
+  private async sendMessages(
+    messages: Message[],
+    onDelta?: StreamCallback,
+    options: AgentCallOptions = {}
+  ): Promise<AgentResponse> {
+    // Dry run - the scripted agent answers instead of the API
+    if (this.backend) {
+      return onDelta && this.backend.executeStream
+        ? this.backend.executeStream(messages, onDelta, options)
+        : this.backend.execute(messages, options);
+    }
+
     const allTools = this.getTools();
 
     // Convert our message format to Anthropic format, handling file attachments
@@ -244,7 +313,7 @@ export class ClaudeAgent implements Agent {
       let inputSchema: any;
       if (typeof tool.inputSchema === 'object' && tool.inputSchema !== null) {
         // If it's already a plain object (from MCP), use it directly
-        if (!('_def' in tool.inputSchema)) {
+        if (!(tool.inputSchema instanceof ZodType)) {
           inputSchema = tool.inputSchema;
         } else {
           // For Zod schemas, convert to JSON schema
@@ -265,14 +334,35 @@ export class ClaudeAgent implements Agent {
     });
 
     try {
-      const response = await this.client.messages.create({
-        model: this.model,
+      const params: Anthropic.MessageCreateParamsNonStreaming = {
+        model: options.model || this.model,
         max_tokens: this.maxTokens,
         temperature: this.temperature,
         system: this.systemPrompt,
         messages: anthropicMessages,
         tools: anthropicTools.length > 0 ? anthropicTools : undefined,
-      });
+      };
+
+      const response: Anthropic.Message = await this.recorder.call(
+        'anthropic.messages',
+        params,
+        () => {
+          if (onDelta) {
+            // Stream text deltas; tool_use blocks are assembled by the SDK into the final message
+            const stream = this.client.messages.stream(params, { signal: options.signal });
+            stream.on('text', (textDelta) => onDelta(textDelta));
+            return stream.finalMessage();
+          }
+          return this.client.messages.create(params, { signal: options.signal });
+        },
+        (replayed) =>
+          onDelta?.(
+            replayed.content
+              .filter((block) => block.type === 'text')
+              .map((block) => (block as Anthropic.TextBlock).text)
+              .join('\n')
+          )
+      );
 
       // Extract text content
       const textContent = response.content
@@ -292,11 +382,20 @@ export class ClaudeAgent implements Agent {
           };
         });
 
+      const usage: TokenUsage = {
+        provider: 'anthropic',
+        model: params.model,
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      };
+      options.onUsage?.(usage);
+
       return {
         content: textContent,
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         stopReason: response.stop_reason as any,
         rawContent: response.content, // Store raw content for proper message history
+        usage,
       };
     } catch (error: any) {
       // Check if it's a rate limit error
@@ -336,7 +435,7 @@ export class ClaudeAgent implements Agent {
   /**
    * Execute MCP tool call
    */
-  async executeMCPTool(toolName: string, input: Record<string, any>): Promise<any> {
+  async executeMCPTool(toolName: string, input: Record<string, any>, options: AgentCallOptions = {}): Promise<any> {
     // Parse MCP tool name: mcp_{serverName}_{toolName}
     const match = toolName.match(/^mcp_([^_]+)_(.+)$/);
     if (!match) {
@@ -354,7 +453,7 @@ export class ClaudeAgent implements Agent {
       const result = await client.callTool({
         name: actualToolName,
         arguments: input,
-      });
+      }, undefined, { signal: options.signal });
 
       return result;
     } catch (error) {
@@ -0,0 +1,145 @@
+import {
+  Agent,
+  AgentCallOptions,
+  AgentResponse,
+  Message,
+  StreamCallback,
+  TokenUsage,
+  Tool,
+  ToolCall,
+  ToolResult,
+} from '../types/index.js';
+
+/**
+ * Canned response of a fake agent
+ */
+export interface FakeResponse {
+  match?: string; // Regular expression - the response is used only for a request whose newest message matches it
+  content?: string;
+  toolCalls?: Array<{ id?: string; name: string; input?: Record<string, any> }>;
+  error?: string; // Fail the request with this message instead of responding
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+/**
+ * Settings of a fake agent
+ */
+export interface FakeAgentConfig {
+  name: string;
+  responses?: FakeResponse[]; // Used in order (responses with match are skipped until a request matches them)
+  fallback?: string | ((messages: Message[]) => string); // Response once the script is used up
+  provider?: TokenUsage['provider']; // Provider reported in usage (budgets per provider)
+  model?: string;
+}
+
+/**
+ * Text of the newest message of a request
+ */
+function newestMessageText(messages: Message[]): string {
+  const content = messages[messages.length - 1]?.content;
+  return typeof content === 'string' ? content : JSON.stringify(content ?? '');
+}
+
+/**
+ * Agent answering from a script of canned responses and tool calls - for tests and dry runs
+ * (no network, API keys or models)
+ */
+export class FakeAgent implements Agent {
+  name: string;
+  capabilities: string[] = ['dry_run'];
+  /** Messages of every request, in order */
+  readonly requests: Message[][] = [];
+  private responses: FakeResponse[];
+  private used = new Set<number>();
+  private toolCallCount = 0;
+
+  constructor(private config: FakeAgentConfig) {
+    this.name = config.name;
+    this.responses = config.responses || [];
+  }
+
+  /**
+   * Responses of the script not used yet
+   */
+  getRemainingResponses(): FakeResponse[] {
+    return this.responses.filter((_, index) => !this.used.has(index));
+  }
+
+  async execute(messages: Message[], options: AgentCallOptions = {}): Promise<AgentResponse> {
+    return this.respond(messages, options);
+  }
+
+  async executeStream(messages: Message[], onDelta: StreamCallback, options: AgentCallOptions = {}): Promise<AgentResponse> {
+    const response = await this.respond(messages, options);
+    // Stream word by word, as a real model would
+    for (const delta of response.content.match(/\S+\s*|\s+/g) || []) {
+      onDelta(delta);
+    }
+    return response;
+  }
+
+  async executeWithTools(messages: Message[], toolResults: ToolResult[], options: AgentCallOptions = {}): Promise<AgentResponse> {
+    const withResults: Message[] = toolResults.length > 0
+      ? [
+          ...messages,
+          {
+            role: 'user',
+            content: `Tool results:\n${toolResults.map((tr) => `Tool ${tr.toolCallId} result: ${JSON.stringify(tr.output)}`).join('\n')}`,
+          },
+        ]
+      : messages;
+    return this.respond(withResults, options);
+  }
+
+  getTools(): Tool[] {
+    return [];
+  }
+
+  private async respond(messages: Message[], options: AgentCallOptions): Promise<AgentResponse> {
+    if (options.signal?.aborted) {
+      throw new Error('Execution aborted by user');
+    }
+    this.requests.push(messages);
+
+    const request = newestMessageText(messages);
+    const index = this.responses.findIndex(
+      (response, i) => !this.used.has(i) && (!response.match || new RegExp(response.match, 'i').test(request))
+    );
+
+    const scripted = index === -1 ? null : this.responses[index];
+    if (index !== -1) {
+      this.used.add(index);
+    }
+    if (scripted?.error) {
+      throw new Error(scripted.error);
+    }
+
+    const { fallback } = this.config;
+    const content = scripted
+      ? scripted.content || ''
+      : typeof fallback === 'function'
+        ? fallback(messages)
+        : fallback ?? `[${this.name}] ${request.substring(0, 200)}`;
+
+    const toolCalls: ToolCall[] = (scripted?.toolCalls || []).map((toolCall) => ({
+      id: toolCall.id || `fake_call_${++this.toolCallCount}`,
+      name: toolCall.name,
+      input: toolCall.input || {},
+    }));
+
+    const usage: TokenUsage = {
+      provider: this.config.provider || 'anthropic',
+      model: options.model || this.config.model || 'fake',
+      inputTokens: scripted?.usage?.inputTokens ?? Math.ceil(JSON.stringify(messages).length / 4),
+      outputTokens: scripted?.usage?.outputTokens ?? Math.ceil(content.length / 4),
+    };
+    options.onUsage?.(usage);
+
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      stopReason: toolCalls.length > 0 ? 'tool_use' : 'end_turn',
+      usage,
+    };
+  }
+}
@@ -1,4 +1,8 @@
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { FunctionCall, FunctionDeclaration, GoogleGenerativeAI, Part } from '@google/generative-ai';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ZodType } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
 import { readFileSync } from 'fs';
 import {
   Agent,
@@ -8,22 +12,46 @@ import {
   Tool,
   ToolCall,
   ToolResult,
+  MCPServerConfig,
   FileAttachment,
+  StreamCallback,
+  AgentCallOptions,
+  TokenUsage,
 } from '../types/index.js';
+import { ProviderRecorder } from '../recording.js';
+
+/**
+ * Part of the Gemini SDK used by the agent (a fake one can be passed in tests)
+ */
+export type GeminiClient = Pick<GoogleGenerativeAI, 'getGenerativeModel'>;
 
 export class GeminiAgent implements Agent {
   name: string;
   capabilities: string[];
-  private client: GoogleGenerativeAI;
-  private model: GenerativeModel;
   private modelName: string;
   private systemPrompt: string;
   private temperature: number;
   private maxTokens: number;
   private tools: Tool[];
+  private mcpClients: Map<string, Client> = new Map();
+  private mcpTools: Tool[] = [];
+  private recorder = new ProviderRecorder();
+  private backend: Agent | null = null;
+  private toolCallCount = 0;
+  // Argument paths declared to Gemini as JSON strings (free-form objects), by tool name
+  private jsonArguments = new Map<string, string[][]>();
+
+  constructor(
+    apiKey: string,
+    config: AgentConfig,
+    private mcpServers: MCPServerConfig[] = [],
+    private client: GeminiClient = new GoogleGenerativeAI(apiKey)
+  ) {
+    console.log(`[GeminiAgent] Constructor called with ${mcpServers.length} MCP server(s)`);
+    if (mcpServers.length > 0) {
+      console.log('[GeminiAgent] MCP servers:', mcpServers.map(s => s.name).join(', '));
+    }
 
-  constructor(apiKey: string, config: AgentConfig) {
-    this.client = new GoogleGenerativeAI(apiKey);
     this.name = config.name;
     this.modelName = config.model || 'gemini-2.0-flash-exp';
 
@@ -44,20 +72,104 @@ export class GeminiAgent implements Agent {
       'data_synthesis',
       'quick_analysis',
     ];
+  }
 
-    // Initialize model with configuration
-    this.model = this.client.getGenerativeModel({
-      model: this.modelName,
-      systemInstruction: this.systemPrompt,
-      generationConfig: {
-        temperature: this.temperature,
-        maxOutputTokens: this.maxTokens,
-      },
-    });
+  /**
+   * Get the configured model (steps can override it per call)
+   */
+  getModel(): string {
+    return this.modelName;
+  }
+
+  /**
+   * Initialize MCP servers and load their tools
+   */
+  async initializeMCP(): Promise<void> {
+    console.log(`[GeminiAgent] Starting MCP initialization with ${this.mcpServers.length} server(s)`);
+
+    for (const serverConfig of this.mcpServers) {
+      try {
+        console.log(`[GeminiAgent] Initializing MCP server: ${serverConfig.name}`);
+
+        const transport = new StdioClientTransport({
+          command: serverConfig.command,
+          args: serverConfig.args,
+          env: serverConfig.env,
+        });
+
+        const client = this.recorder.wrapMCPClient(
+          new Client(
+            {
+              name: `gemini-agent-mcp-client-${serverConfig.name}`,
+              version: '1.0.0',
+            },
+            {
+              capabilities: {},
+            }
+          ),
+          serverConfig.name
+        );
+
+        await client.connect(transport);
+        this.mcpClients.set(serverConfig.name, client);
+
+        // List available tools from MCP server
+        const toolsResponse = await client.listTools();
+
+        // Convert MCP tools to our Tool format
+        const mcpTools: Tool[] = toolsResponse.tools.map((tool) => ({
+          name: `mcp_${serverConfig.name}_${tool.name}`,
+          description: tool.description || '',
+          inputSchema: tool.inputSchema as any,
+        }));
+
+        this.mcpTools.push(...mcpTools);
+        console.log(`[GeminiAgent] Loaded ${mcpTools.length} tools from MCP server: ${serverConfig.name}`);
+      } catch (error) {
+        console.error(`[GeminiAgent] Failed to initialize MCP server ${serverConfig.name}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Close all MCP connections
+   */
+  async closeMCP(): Promise<void> {
+    for (const [name, client] of this.mcpClients.entries()) {
+      try {
+        await client.close();
+        console.log(`[GeminiAgent] Closed MCP server: ${name}`);
+      } catch (error) {
+        console.error(`[GeminiAgent] Error closing MCP server ${name}:`, error);
+      }
+    }
+    this.mcpClients.clear();
+    this.mcpTools = [];
   }
 
   getTools(): Tool[] {
-    return this.tools;
+    return [...this.tools, ...this.mcpTools];
+  }
+
+  /**
+   * Build model (functionCall) + function (functionResponse) messages for the Gemini API
+   */
+  buildToolResultMessages(response: AgentResponse, toolResults: ToolResult[]): Message[] {
+    return [
+      {
+        role: 'assistant',
+        content: response.rawContent || response.content,
+      },
+      {
+        role: 'user',
+        content: toolResults.map((tr): Part => ({
+          functionResponse: {
+            name: response.toolCalls?.find((tc) => tc.id === tr.toolCallId)?.name || tr.toolCallId,
+            response: tr.isError ? { error: tr.output } : { result: tr.output },
+          },
+        })),
+      },
+    ];
   }
 
   /**
@@ -75,24 +187,63 @@ export class GeminiAgent implements Agent {
     };
   }
 
-  async execute(messages: Message[]): Promise<AgentResponse> {
-    return this.executeWithTools(messages, []);
+  async execute(messages: Message[], options: AgentCallOptions = {}): Promise<AgentResponse> {
+    return this.executeWithTools(messages, [], options);
   }
 
   async executeWithTools(
     messages: Message[],
-    toolResults: ToolResult[]
+    toolResults: ToolResult[],
+    options: AgentCallOptions = {}
+  ): Promise<AgentResponse> {
+    return this.sendMessages(messages, undefined, options);
+  }
+
+  async executeStream(messages: Message[], onDelta: StreamCallback, options: AgentCallOptions = {}): Promise<AgentResponse> {
+    return this.sendMessages(messages, onDelta, options);
+  }
+
+  /**
+   * Record or replay the API calls of this agent
+   */
+  setRecorder(recorder: ProviderRecorder): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Answer with another agent instead of the provider API (dry run, tests)
+   */
+  setBackend(backend: Agent | null): void {
+    this.backend = backend;
+  }
+
+  /**
+   * Send messages to the Gemini API (streamed when onDelta is given)
+   */
+  private async sendMessages(
+    messages: Message[],
+    onDelta?: StreamCallback,
+    options: AgentCallOptions = {}
   ): Promise<AgentResponse> {
+    // Dry run - the scripted agent answers instead of the API
+    if (this.backend) {
+      return onDelta && this.backend.executeStream
+        ? this.backend.executeStream(messages, onDelta, options)
+        : this.backend.execute(messages, options);
+    }
+
     try {
       // Convert our message format to Gemini format, handling file attachments
       const geminiMessages = messages
         .filter((msg) => msg.role !== 'system')
         .map((msg) => {
-          const parts: any[] = [];
+          const parts: Part[] = [];
 
-          // Add text content if exists
+          // Add text content if exists (function calls and responses are already Gemini parts)
           if (typeof msg.content === 'string' && msg.content.trim()) {
             parts.push({ text: msg.content });
+          } else if (isGeminiParts(msg.content)) {
+            parts.push(...msg.content);
           } else if (typeof msg.content !== 'string') {
             parts.push({ text: JSON.stringify(msg.content) });
           }
@@ -106,32 +257,76 @@ export class GeminiAgent implements Agent {
           }
 
           return {
-            role: msg.role === 'assistant' ? 'model' : 'user',
+            role: msg.role === 'assistant' ? 'model' : parts.some((part) => part.functionResponse) ? 'function' : 'user',
             parts,
           };
         });
 
       // Start chat session
-      const chat = this.model.startChat({
+      const functionDeclarations = this.getFunctionDeclarations();
+      const chatParams = {
         history: geminiMessages.slice(0, -1),
         generationConfig: {
           temperature: this.temperature,
           maxOutputTokens: this.maxTokens,
         },
-      });
+        tools: functionDeclarations.length > 0 ? [{ functionDeclarations }] : undefined,
+      };
 
       // Send message with parts (text + files)
       // Gemini API supports multiple parts including inlineData for files
+      const modelName = options.model || this.modelName;
       const lastMessage = geminiMessages[geminiMessages.length - 1];
-      const result = await chat.sendMessage(lastMessage.parts);
+      const response = await this.recorder.call(
+        'gemini.chat',
+        { model: modelName, ...chatParams, message: lastMessage.parts },
+        async () => {
+          const model = this.client.getGenerativeModel({ model: modelName, systemInstruction: this.systemPrompt });
+          const chat = model.startChat(chatParams);
+          let result;
+          if (onDelta) {
+            const streamResult = await chat.sendMessageStream(lastMessage.parts, { signal: options.signal });
+            for await (const chunk of streamResult.stream) {
+              const delta = chunk.text();
+              if (delta) {
+                onDelta(delta);
+              }
+            }
+            result = await streamResult.response;
+          } else {
+            result = (await chat.sendMessage(lastMessage.parts, { signal: options.signal })).response;
+          }
+          // Plain data - the SDK response has methods (text(), functionCalls()) that do not survive a cassette
+          return { text: result.text(), functionCalls: result.functionCalls(), usageMetadata: result.usageMetadata };
+        },
+        (replayed) => onDelta?.(replayed.text)
+      );
+
+      const usage: TokenUsage = {
+        provider: 'google',
+        model: modelName,
+        inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+      };
+      options.onUsage?.(usage);
 
-      const response = result.response;
+      // Gemini function calls have no ids - the results are matched back by name
+      const functionCalls: FunctionCall[] = response.functionCalls || [];
+      const toolCalls: ToolCall[] = functionCalls.map((functionCall) => ({
+        id: `gemini_call_${++this.toolCallCount}`,
+        name: functionCall.name,
+        input: this.parseJsonArguments(functionCall.name, (functionCall.args as Record<string, any>) || {}),
+      }));
 
-      // Note: Function calling support would be added here when available
-      // For now, Gemini works without explicit tool definitions
       return {
-        content: response.text(),
-        stopReason: 'end_turn',
+        content: response.text,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        stopReason: toolCalls.length > 0 ? 'tool_use' : 'end_turn',
+        rawContent: [
+          ...(response.text ? [{ text: response.text }] : []),
+          ...functionCalls.map((functionCall) => ({ functionCall })),
+        ], // Model turn of the message history (text + functionCall parts)
+        usage,
       };
     } catch (error) {
       console.error('[GeminiAgent] Error executing:', error);
@@ -140,47 +335,148 @@ export class GeminiAgent implements Agent {
   }
 
   /**
-   * Convert Zod schema to Gemini parameter schema
-   * Note: This is a simplified conversion. You may need to enhance it for complex schemas.
+   * Execute MCP tool call
    */
-  private zodToGeminiSchema(zodSchema: any): any {
-    // If the schema has a _def property, try to extract the shape
-    if (zodSchema._def) {
-      const typeName = zodSchema._def.typeName;
-
-      if (typeName === 'ZodObject') {
-        const shape = zodSchema._def.shape();
-        const properties: any = {};
-        const required: string[] = [];
-
-        for (const [key, value] of Object.entries(shape)) {
-          properties[key] = this.zodToGeminiSchema(value);
-          // Check if field is required (not optional)
-          if (!(value as any).isOptional?.()) {
-            required.push(key);
-          }
-        }
+  async executeMCPTool(toolName: string, input: Record<string, any>, options: AgentCallOptions = {}): Promise<any> {
+    // Parse MCP tool name: mcp_{serverName}_{toolName}
+    const match = toolName.match(/^mcp_([^_]+)_(.+)$/);
+    if (!match) {
+      throw new Error(`Invalid MCP tool name format: ${toolName}`);
+    }
+
+    const [, serverName, actualToolName] = match;
+    const client = this.mcpClients.get(serverName);
+
+    if (!client) {
+      throw new Error(`MCP server not found: ${serverName}`);
+    }
+
+    try {
+      return await client.callTool({
+        name: actualToolName,
+        arguments: input,
+      }, undefined, { signal: options.signal });
+    } catch (error) {
+      console.error(`[GeminiAgent] Error calling MCP tool ${toolName}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Function declarations of the agent's tools (own tools from Zod schemas, MCP tools from JSON schemas)
+   */
+  private getFunctionDeclarations(): FunctionDeclaration[] {
+    return this.getTools().map((tool) => {
+      const jsonSchema = tool.inputSchema instanceof ZodType
+        ? zodToJsonSchema(tool.inputSchema, { target: 'openApi3', $refStrategy: 'none' })
+        : tool.inputSchema;
+      const jsonPaths: string[][] = [];
+      const parameters = this.toGeminiSchema(jsonSchema, [], jsonPaths);
+      this.jsonArguments.set(tool.name, jsonPaths.filter((path) => path.length > 0));
+
+      return {
+        name: tool.name,
+        description: tool.description,
+        // Gemini rejects objects without properties - tools without arguments have no parameters
+        ...(parameters.type === 'object' ? { parameters } : {}),
+      };
+    });
+  }
+
+  /**
+   * Convert a JSON schema to the OpenAPI subset accepted by Gemini
+   * (no additionalProperties, $schema, defaults, unions; enums only for strings)
+   * Paths of free-form objects (declared as JSON strings) are added to jsonPaths ('[]' - array items)
+   */
+  private toGeminiSchema(schema: any, path: string[] = [], jsonPaths: string[][] = []): any {
+    if (!schema || typeof schema !== 'object') {
+      return { type: 'string' };
+    }
+
+    // Unions (anyOf/oneOf, type lists) become their first non-null type
+    const variants: any[] = schema.anyOf || schema.oneOf || [];
+    const variant = variants.find((v) => v?.type !== 'null');
+    if (!schema.type && variant) {
+      return this.toGeminiSchema({ ...variant, description: schema.description ?? variant.description }, path, jsonPaths);
+    }
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const type = types.find((t) => t && t !== 'null') || (schema.properties ? 'object' : 'string');
 
-        return {
-          type: 'object',
-          properties,
-          required: required.length > 0 ? required : undefined,
-        };
-      } else if (typeName === 'ZodString') {
-        return { type: 'string' };
-      } else if (typeName === 'ZodNumber') {
-        return { type: 'number' };
-      } else if (typeName === 'ZodBoolean') {
-        return { type: 'boolean' };
-      } else if (typeName === 'ZodArray') {
-        return {
-          type: 'array',
-          items: this.zodToGeminiSchema(zodSchema._def.type),
-        };
+    const result: any = { type };
+    if (schema.description) {
+      result.description = schema.description;
+    }
+    if (schema.nullable || types.includes('null')) {
+      result.nullable = true;
+    }
+
+    switch (type) {
+      case 'string':
+        if (Array.isArray(schema.enum)) {
+          result.enum = schema.enum.map(String);
+        }
+        break;
+      case 'array':
+        result.items = this.toGeminiSchema(schema.items, [...path, '[]'], jsonPaths);
+        break;
+      case 'object': {
+        const properties = Object.entries(schema.properties || {});
+        if (properties.length === 0) {
+          // Free-form object - passed as a JSON string, parsed back in parseJsonArguments
+          jsonPaths.push(path);
+          return { type: 'string', description: [schema.description, '(JSON)'].filter(Boolean).join(' ') };
+        }
+        result.properties = Object.fromEntries(
+          properties.map(([key, value]) => [key, this.toGeminiSchema(value, [...path, key], jsonPaths)])
+        );
+        const required = (schema.required || []).filter((key: string) => key in result.properties);
+        if (required.length > 0) {
+          result.required = required;
+        }
+        break;
       }
     }
+    return result;
+  }
 
-    // Fallback to a generic object type
-    return { type: 'string' };
+  /**
+   * Arguments of a function call with the free-form objects (sent by Gemini as JSON strings) parsed back
+   */
+  private parseJsonArguments(toolName: string, args: Record<string, any>): Record<string, any> {
+    return (this.jsonArguments.get(toolName) || []).reduce((input, path) => parseJsonAt(input, path), args);
   }
 }
+
+/**
+ * Value with the JSON string at the path parsed (left as is when it is not valid JSON)
+ */
+function parseJsonAt(value: any, path: string[]): any {
+  if (path.length === 0) {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+
+  const [key, ...rest] = path;
+  if (key === '[]') {
+    return Array.isArray(value) ? value.map((item) => parseJsonAt(item, rest)) : value;
+  }
+  return value && typeof value === 'object' && key in value ? { ...value, [key]: parseJsonAt(value[key], rest) } : value;
+}
+
+/**
+ * Message content already in Gemini parts (function calls and responses of the tool loop)
+ */
+function isGeminiParts(content: Message['content']): content is Part[] {
+  return (
+    Array.isArray(content) &&
+    content.length > 0 &&
+    content.every((part) => part && typeof part === 'object' && !('type' in part) &&
+      ('text' in part || 'functionCall' in part || 'functionResponse' in part || 'inlineData' in part))
+  );
+}
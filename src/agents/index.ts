@@ -3,3 +3,4 @@ export * from './gemini-agent.js';
 export * from './manager-agent.js';
 export * from './ollama-agent.js';
 export * from './mlx-agent.js';
+export * from './fake-agent.js';
@@ -10,7 +10,14 @@ import {
   Tool,
   ToolResult,
   MCPServerConfig,
+  AgentCallOptions,
+  TokenUsage,
+  TaskLedger,
+  ProgressLedger,
+  LedgerTurn,
 } from '../types/index.js';
+import { validateOutputSchema } from '../structured-output.js';
+import { ProviderRecorder } from '../recording.js';
 
 interface ClaudeModel {
   id: string;
@@ -31,6 +38,8 @@ export class ManagerAgent implements Agent {
   private readonly MODELS_CACHE_TTL = 3600000; // 1 hour in ms
   private mcpClients: Map<string, Client> = new Map();
   private mcpTools: Tool[] = [];
+  private recorder = new ProviderRecorder();
+  private backend: Agent | null = null;
 
   constructor(
     apiKey: string,
@@ -50,7 +59,21 @@ export class ManagerAgent implements Agent {
     }
 
     // Use custom prompt from config file, or minimal fallback if config not found
-    this.systemPrompt = customPrompt || 'Jesteś Agentem Menedżera. Zwróć plan w formacie JSON z polami: goal, steps (z polami: step, description, agent, model, reasoning, requiredFiles), estimatedComplexity.';
+    this.systemPrompt = customPrompt || 'Jesteś Agentem Menedżera. Zwróć plan w formacie JSON z polami: goal, steps (z polami: step, description, agent, model, reasoning, requiredFiles, dependsOn), estimatedComplexity.';
+  }
+
+  /**
+   * Record or replay the API and MCP calls of this agent
+   */
+  setRecorder(recorder: ProviderRecorder): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Answer with another agent instead of the Anthropic API (dry run, tests) - prompts and plan parsing stay real
+   */
+  setBackend(backend: Agent | null): void {
+    this.backend = backend;
   }
 
   /**
@@ -72,14 +95,17 @@ export class ManagerAgent implements Agent {
 
         console.log(`[ManagerAgent] Transport created for ${serverConfig.name}`);
 
-        const client = new Client(
-          {
-            name: `manager-agent-mcp-client-${serverConfig.name}`,
-            version: '1.0.0',
-          },
-          {
-            capabilities: {},
-          }
+        const client = this.recorder.wrapMCPClient(
+          new Client(
+            {
+              name: `manager-agent-mcp-client-${serverConfig.name}`,
+              version: '1.0.0',
+            },
+            {
+              capabilities: {},
+            }
+          ),
+          serverConfig.name
         );
 
         await client.connect(transport);
@@ -289,19 +315,21 @@ export class ManagerAgent implements Agent {
         throw new Error('API key is not available');
       }
 
-      const response = await fetch('https://api.anthropic.com/v1/models', {
-        method: 'GET',
-        headers: {
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-      });
+      const data = await this.recorder.call('anthropic.models', {}, async () => {
+        const response = await fetch('https://api.anthropic.com/v1/models', {
+          method: 'GET',
+          headers: {
+            'x-api-key': apiKey,
+            'anthropic-version': '2023-06-01',
+          },
+        });
 
-      if (!response.ok) {
-        throw new Error(`API returned ${response.status}: ${response.statusText}`);
-      }
+        if (!response.ok) {
+          throw new Error(`API returned ${response.status}: ${response.statusText}`);
+        }
 
-      const data = await response.json() as { data: ClaudeModel[] };
+        return await response.json() as { data: ClaudeModel[] };
+      });
       this.availableModels = data.data;
       this.modelsLastFetched = now;
 
@@ -374,7 +402,7 @@ Dostępni agenci:
 
 ${claudeModelsSection}
 
-2. Agent Gemini - Specjalizuje się w wyszukiwaniu w internecie, syntezie informacji TEKSTOWYCH, szybkiej analizie i podsumowywaniu tekstu. NIE MOŻE czytać plików PDF bezpośrednio. PŁATNY ($). Używaj do: podsumowywania TEKSTU (nie plików!), syntezy informacji z poprzednich kroków, wyszukiwania informacji.
+2. Agent Gemini - Specjalizuje się w wyszukiwaniu w internecie, syntezie informacji TEKSTOWYCH, szybkiej analizie i podsumowywaniu tekstu. NIE MOŻE czytać plików PDF bezpośrednio. Ma dostęp do narzędzi MCP (natywne wywoływanie funkcji). PŁATNY ($). Używaj do: podsumowywania TEKSTU (nie plików!), syntezy informacji z poprzednich kroków, wyszukiwania informacji, prostych operacji z bazą danych przez MCP.
 
 3. Agent Ollama - Lokalny model open-source działający OFFLINE. DARMOWY, ale słabszy od Claude/Gemini. Ma dostęp do narzędzi MCP (jak Claude). RÓŻNE MODELE mają różne możliwości - wybieraj według zadania.
 
@@ -392,7 +420,7 @@ WAŻNE ZASADY WYBORU AGENTA I MODELU:
   * Prosta ekstrakcja tekstu z PDF → ${newestHaiku?.id || 'Haiku'} (najtańszy)
   * Analiza zawartości PDF, wyciąganie wniosków → ${newestSonnet?.id || 'Sonnet'} (średnio drogi)
   * Głęboka analiza wielu PDF, skomplikowana synteza → ${newestOpus?.id || 'Opus'} (najdroższy, tylko gdy konieczne)
-- Jeśli zadanie wymaga OPERACJI Z BAZĄ DANYCH przez MCP → wybierz Claude, MLX LUB Ollama (wszystkie mają MCP)
+- Jeśli zadanie wymaga OPERACJI Z BAZĄ DANYCH przez MCP → wybierz Claude, Gemini, MLX LUB Ollama (wszystkie mają MCP)
   * Bardzo proste zapytania (pojedyncze rekordy, podstawowy odczyt) → MLX lub Ollama (DARMOWE, lokalne!)
   * Średnio złożone (podstawowe filtry, proste agregacje) → MLX (najszybszy na Apple Silicon) lub ${newestHaiku?.id || 'Haiku'} (tani)
   * Złożone zapytania (wieloetapowe, agregacje, analiza) → ${newestSonnet?.id || 'Sonnet'} (drogi)
@@ -420,9 +448,13 @@ Podczas tworzenia planu:
 - Przypisz każdy krok do najbardziej odpowiedniego agenta (claude, gemini, ollama, mlx lub manager)
 - Podaj uzasadnienie dla każdego przypisania (reasoning musi być PO POLSKU)
 - Oszacuj złożoność (low, medium, high)
+- Dla każdego kroku podaj "dependsOn" - numery kroków, których WYNIKÓW ten krok potrzebuje. Kroki niezależne (np. zapytanie do bazy i wyszukiwanie w internecie) mają "dependsOn": [] i wykonują się RÓWNOLEGLE. Krok otrzymuje tylko wyniki kroków z "dependsOn".
+- OPCJONALNIE podaj "outputSchema", gdy wynik kroku to DANE potrzebne w kolejnych krokach lub w eksporcie (np. lista rekordów z bazy, fakty klucz/wartość). Typy: string (opcjonalnie "enum"), number, integer, boolean, array ("items"), object ("properties", "required"), record ("values" - obiekt z dowolnymi kluczami). Agent odpowie wtedy JSON-em zgodnym ze schematem. Nie podawaj "outputSchema" dla kroków, których wynikiem jest tekst (podsumowania, raporty).
+- Claude, Gemini, Ollama i MLX mogą zapisywać pliki (CSV, markdown, JSON, kod) jako artefakty wykonania narzędziem write_artifact; kolejne kroki odczytują je narzędziem read_artifact, a użytkownik może je pobrać. Gdy wynikiem kroku jest plik dla użytkownika lub duże dane dla dalszych kroków, w opisie kroku poproś o zapisanie artefaktu o konkretnej nazwie (np. "Zapisz listę jako artefakt firmy.csv").
+- OPCJONALNIE podaj "fallback" - listę agentów zapasowych (np. dla kroku Ollama: [{"agent": "mlx"}, {"agent": "claude", "model": "${newestHaiku?.id || 'claude-haiku'}"}]), którzy wykonają krok, gdy główny agent będzie niedostępny.
 
 WAŻNE - LIMITY WYNIKÓW NARZĘDZI MCP:
-- Gdy Claude/Ollama/MLX używa narzędzi MCP (bazy danych), wyniki są automatycznie skracane do 10,000 znaków aby nie przekroczyć limitu kontekstu
+- Gdy Claude/Gemini/Ollama/MLX używa narzędzi MCP (bazy danych), wyniki dłuższe niż 10,000 znaków są zapisywane jako artefakty - agent widzi tylko ich początek i musi doczytywać kolejne strony, co zużywa kontekst
 - W opisie zadania dla Claude/Ollama/MLX ZAWSZE dodaj instrukcję: "Używaj precyzyjnych zapytań z filtrami (WHERE, LIMIT). Pobieraj tylko niezbędne dane, nie całą bazę."
 - Jeśli zadanie wymaga analizy dużej ilości danych, podziel je na mniejsze kroki z konkretnymi filtrami/limitami
 - Przykład DOBRY: "Znajdź top 10 rekordów spełniających warunek X (użyj WHERE, ORDER BY, LIMIT 10)"
@@ -440,7 +472,10 @@ Zwróć plan w formacie JSON:
       "agent": "claude|gemini|ollama|mlx|manager",
       "model": "${claudeModelIds || 'claude'}|${ollamaModelIds || 'ollama'}|mlx-community/Llama-3.2-3B-Instruct-4bit|mlx-community/Qwen2.5-7B-Instruct-4bit|mlx-community/Mistral-7B-Instruct-v0.3-4bit", // OPCJONALNE - dla Claude/Ollama/MLX, wybierz najbardziej odpowiedni model!
       "reasoning": "Dlaczego ten agent i model są najlepiej dopasowane - PO POLSKU (wyjaśnij wybór agenta i modelu, np: Ollama ${recommendedOllama?.id || 'qwen2.5:7b'} dla prostego zapytania do bazy, ${newestSonnet?.id || 'Sonnet'} dla złożonej analizy)",
-      "requiredFiles": ["nazwa_pliku.pdf"] // OPCJONALNE - tylko jeśli krok wymaga konkretnych plików (tylko Claude!)
+      "requiredFiles": ["nazwa_pliku.pdf"], // OPCJONALNE - tylko jeśli krok wymaga konkretnych plików (tylko Claude!)
+      "dependsOn": [], // Numery kroków, których wyniki są potrzebne w tym kroku (np. [1, 2] dla kroku syntezy)
+      "outputSchema": {"type": "array", "items": {"type": "object", "properties": {"nazwa": {"type": "string"}, "liczba": {"type": "integer"}}}}, // OPCJONALNE - kształt wyniku JSON
+      "fallback": [] // OPCJONALNE - agenci zapasowi [{"agent": "...", "model": "..."}]
     }
   ],
   "estimatedComplexity": "low|medium|high"
@@ -451,39 +486,58 @@ Zwróć plan w formacie JSON:
     return [];
   }
 
-  async execute(messages: Message[]): Promise<AgentResponse> {
-    return this.executeWithTools(messages, []);
+  async execute(messages: Message[], options: AgentCallOptions = {}): Promise<AgentResponse> {
+    return this.executeWithTools(messages, [], options);
   }
 
   async executeWithTools(
     messages: Message[],
-    toolResults: ToolResult[]
+    toolResults: ToolResult[],
+    options: AgentCallOptions = {}
   ): Promise<AgentResponse> {
     const anthropicMessages: Anthropic.MessageParam[] = messages.map((msg) => ({
       role: msg.role === 'system' ? 'user' : msg.role,
       content: msg.content,
     }));
 
+    // Dry run - the scripted agent answers instead of the API
+    if (this.backend) {
+      return this.backend.executeWithTools(messages, toolResults, options);
+    }
+
     try {
       // Get dynamic system prompt with latest available models
       const dynamicPrompt = await this.getDynamicSystemPrompt();
 
-      const response = await this.client.messages.create({
-        model: this.model,
+      const model = options.model || this.model;
+      const params: Anthropic.MessageCreateParamsNonStreaming = {
+        model,
         max_tokens: 4096,
         temperature: 0.7,
         system: dynamicPrompt,
         messages: anthropicMessages,
-      });
+      };
+      const response = await this.recorder.call('anthropic.messages', params, () =>
+        this.client.messages.create(params, { signal: options.signal })
+      );
 
       const textContent = response.content
         .filter((block) => block.type === 'text')
         .map((block) => (block as Anthropic.TextBlock).text)
         .join('\n');
 
+      const usage: TokenUsage = {
+        provider: 'anthropic',
+        model,
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      };
+      options.onUsage?.(usage);
+
       return {
         content: textContent,
         stopReason: response.stop_reason as any,
+        usage,
       };
     } catch (error) {
       console.error('[ManagerAgent] Error executing:', error);
@@ -492,21 +546,31 @@ Zwróć plan w formacie JSON:
   }
 
   /**
-   * Create a plan for a given task
+   * Fetch Neo4j schema if available and the task involves Neo4j/database
    */
-  async createPlan(task: string): Promise<Plan> {
-    // Fetch Neo4j schema if available and task involves Neo4j/database
-    let schemaContext = '';
-    let compactSchema = '';
-    if (task.toLowerCase().includes('neo4j') || task.toLowerCase().includes('graf') || task.toLowerCase().includes('baz') || task.toLowerCase().includes('cypher')) {
-      console.log('[ManagerAgent] Task involves Neo4j - fetching schema...');
-      const schema = await this.fetchNeo4jSchema();
-      if (schema) {
-        compactSchema = schema; // Save for later use in step descriptions
-        schemaContext = `\n\n🗄️ RZECZYWISTY SCHEMAT NEO4J:\n${schema}\n\n⚠️ WAŻNE: Używaj TYLKO tych etykiet, właściwości i relacji które są w powyższym schemacie! NIE WYMYŚLAJ własnych etykiet jak "Person", "Politician" itp.`;
-      }
+  private async getSchemaContext(task: string): Promise<{ compactSchema: string; schemaContext: string }> {
+    const lowerTask = task.toLowerCase();
+    if (!(lowerTask.includes('neo4j') || lowerTask.includes('graf') || lowerTask.includes('baz') || lowerTask.includes('cypher'))) {
+      return { compactSchema: '', schemaContext: '' };
     }
 
+    console.log('[ManagerAgent] Task involves Neo4j - fetching schema...');
+    const schema = await this.fetchNeo4jSchema();
+    if (!schema) {
+      return { compactSchema: '', schemaContext: '' };
+    }
+    return {
+      compactSchema: schema, // Used later in step descriptions
+      schemaContext: `\n\n🗄️ RZECZYWISTY SCHEMAT NEO4J:\n${schema}\n\n⚠️ WAŻNE: Używaj TYLKO tych etykiet, właściwości i relacji które są w powyższym schemacie! NIE WYMYŚLAJ własnych etykiet jak "Person", "Politician" itp.`,
+    };
+  }
+
+  /**
+   * Create a plan for a given task
+   */
+  async createPlan(task: string, options: AgentCallOptions = {}): Promise<Plan> {
+    const { compactSchema, schemaContext } = await this.getSchemaContext(task);
+
     const messages: Message[] = [
       {
         role: 'user',
@@ -514,7 +578,7 @@ Zwróć plan w formacie JSON:
       },
     ];
 
-    const response = await this.execute(messages);
+    const response = await this.execute(messages, options);
 
     try {
       // Extract JSON from the response
@@ -524,6 +588,7 @@ Zwróć plan w formacie JSON:
       }
 
       const plan: Plan = JSON.parse(jsonMatch[0]);
+      this.normalizeSteps(plan.steps);
 
       // Add compact schema to Ollama/Bielik step descriptions (not to Claude - it has MCP access)
       if (compactSchema) {
@@ -555,6 +620,366 @@ Zwróć plan w formacie JSON:
     }
   }
 
+  /**
+   * Revise the unfinished part of a plan after a step failed
+   * Returns new steps numbered after the last step of the current plan
+   */
+  async revisePlan(
+    plan: Plan,
+    failedStep: PlanStep,
+    error: string,
+    completed: Array<{ step: PlanStep; result: string }>,
+    remaining: PlanStep[],
+    options: AgentCallOptions = {}
+  ): Promise<{ reasoning: string; steps: PlanStep[] }> {
+    const nextStepNumber = Math.max(...plan.steps.map((s) => s.step)) + 1;
+    const MAX_RESULT_LENGTH = 2000;
+
+    let completedContext = completed.length > 0 ? '' : '(brak)\n';
+    for (const { step, result } of completed) {
+      const shortResult = result.length > MAX_RESULT_LENGTH
+        ? `${result.substring(0, MAX_RESULT_LENGTH)}... [skrócono]`
+        : result;
+      completedContext += `\nKrok ${step.step} (${step.agent}): ${step.description}\nWynik: ${shortResult}\n`;
+    }
+
+    const messages: Message[] = [
+      {
+        role: 'user',
+        content: `Wykonujesz plan dla celu: ${plan.goal}
+
+Krok ${failedStep.step} nie powiódł się.
+Agent: ${failedStep.agent}${failedStep.model ? ` (model: ${failedStep.model})` : ''}
+Opis kroku: ${failedStep.description}
+Błąd: ${error}
+
+ZAKOŃCZONE KROKI (ich wyniki są dostępne dla nowych kroków przez "dependsOn"):
+${completedContext}
+POZOSTAŁE NIEWYKONANE KROKI:
+${JSON.stringify(remaining, null, 2)}
+
+Zaproponuj poprawioną POZOSTAŁĄ część planu, która zastąpi nieudany krok i pozostałe niewykonane kroki. Możesz np. wybrać innego agenta lub model, uprościć/zawęzić zapytanie albo podzielić krok na mniejsze.
+- NIE powtarzaj zakończonych kroków.
+- Numeruj nowe kroki od ${nextStepNumber}.
+- W "dependsOn" możesz wskazywać zakończone kroki oraz nowe kroki.
+- Jeśli zadania nie da się dokończyć, zwróć pustą listę "steps".
+
+Odpowiedz TYLKO obiektem JSON: {"reasoning": "uzasadnienie zmian PO POLSKU", "steps": [...]}`,
+      },
+    ];
+
+    const response = await this.execute(messages, options);
+
+    try {
+      const jsonMatch = response.content.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('No JSON found in response');
+      }
+
+      const revision = JSON.parse(jsonMatch[0]);
+      const proposedSteps: PlanStep[] = Array.isArray(revision.steps) ? revision.steps : [];
+
+      // Renumber new steps to avoid collisions with completed steps
+      const completedNumbers = new Set(completed.map((c) => c.step.step));
+      const numberMap = new Map<number, number>();
+      proposedSteps.forEach((step, idx) => numberMap.set(step.step, nextStepNumber + idx));
+
+      const steps = proposedSteps.map((step, idx) => ({
+        ...step,
+        step: nextStepNumber + idx,
+        dependsOn: Array.isArray(step.dependsOn)
+          ? step.dependsOn
+              .map(Number)
+              .map((dep) => (completedNumbers.has(dep) ? dep : numberMap.get(dep)))
+              .filter((dep): dep is number => dep !== undefined && dep < nextStepNumber + idx)
+          : [...completedNumbers, ...proposedSteps.slice(0, idx).map((_, i) => nextStepNumber + i)],
+      }));
+
+      // Dependencies were remapped above - the rest of the cleanup is the same as for new plans
+      this.normalizeSteps(steps, new Set([...completedNumbers, ...steps.map((s) => s.step)]));
+
+      return {
+        reasoning: revision.reasoning || '',
+        steps,
+      };
+    } catch (parseError) {
+      console.error('[ManagerAgent] Error parsing plan revision:', parseError);
+      console.error('Response:', response.content);
+      return { reasoning: 'Nie udało się sparsować poprawionego planu', steps: [] };
+    }
+  }
+
+  /**
+   * Create the task ledger of the Magentic-One loop (facts, guesses and a plan)
+   */
+  async createTaskLedger(task: string, options: AgentCallOptions = {}): Promise<TaskLedger> {
+    const { schemaContext } = await this.getSchemaContext(task);
+
+    const messages: Message[] = [
+      {
+        role: 'user',
+        content: `Rozwiązujesz zadanie, przydzielając kolejne tury agentom (claude, gemini, ollama, mlx). Po każdej turze ocenisz postęp i wybierzesz następnego agenta.
+
+ZADANIE:
+${task}${schemaContext}
+
+Zanim zaczniesz, przygotuj rejestr zadania:
+- "facts": fakty podane w zadaniu lub pewne
+- "factsToLookUp": fakty, które trzeba sprawdzić (baza danych, internet, pliki)
+- "guesses": przypuszczenia, które mogą pomóc (do potwierdzenia)
+- "plan": krótki plan w punktach - który agent (i ewentualnie model) co zrobi
+
+Odpowiedz TYLKO obiektem JSON: {"facts": [...], "factsToLookUp": [...], "guesses": [...], "plan": [...]} (PO POLSKU).`,
+      },
+    ];
+
+    const response = await this.execute(messages, options);
+    try {
+      return this.parseTaskLedger(response.content);
+    } catch (error) {
+      console.error('[ManagerAgent] Error parsing task ledger:', error);
+      console.error('Response:', response.content);
+      return { facts: [], factsToLookUp: [], guesses: [], plan: [task] };
+    }
+  }
+
+  /**
+   * Update the task ledger when the loop stopped making progress (re-planning)
+   */
+  async updateTaskLedger(
+    task: string,
+    ledger: TaskLedger,
+    turns: LedgerTurn[],
+    options: AgentCallOptions = {}
+  ): Promise<TaskLedger> {
+    const messages: Message[] = [
+      {
+        role: 'user',
+        content: `Rozwiązujesz zadanie, przydzielając kolejne tury agentom, ale od kilku tur nie ma postępu (agenci powtarzają działania albo kończą się błędami).
+
+ZADANIE:
+${task}
+
+DOTYCHCZASOWY REJESTR ZADANIA:
+${this.formatTaskLedger(ledger)}
+
+DOTYCHCZASOWE TURY:
+${this.formatLedgerTurns(turns)}
+
+Zaktualizuj rejestr: dopisz fakty ustalone w turach, popraw lub usuń błędne przypuszczenia i przygotuj NOWY plan, który omija przyczynę braku postępu (np. inny agent lub model, inne zapytanie, mniejsze kroki).
+
+Odpowiedz TYLKO obiektem JSON: {"facts": [...], "factsToLookUp": [...], "guesses": [...], "plan": [...]} (PO POLSKU).`,
+      },
+    ];
+
+    const response = await this.execute(messages, options);
+    try {
+      return this.parseTaskLedger(response.content);
+    } catch (error) {
+      console.error('[ManagerAgent] Error parsing updated task ledger:', error);
+      console.error('Response:', response.content);
+      return ledger;
+    }
+  }
+
+  /**
+   * Fill in the progress ledger - is the task done, is the loop stuck, who acts next and how
+   * An answer that cannot be parsed is asked for again once
+   */
+  async evaluateProgress(
+    task: string,
+    ledger: TaskLedger,
+    turns: LedgerTurn[],
+    options: AgentCallOptions = {}
+  ): Promise<ProgressLedger> {
+    const messages: Message[] = [
+      {
+        role: 'user',
+        content: `Rozwiązujesz zadanie, przydzielając kolejne tury agentom (claude, gemini, ollama, mlx).
+
+ZADANIE:
+${task}
+
+REJESTR ZADANIA:
+${this.formatTaskLedger(ledger)}
+
+DOTYCHCZASOWE TURY:
+${turns.length > 0 ? this.formatLedgerTurns(turns) : '(brak - to pierwsza tura)'}
+
+Oceń postęp i zdecyduj o następnej turze. Odpowiedz TYLKO obiektem JSON (uzasadnienia PO POLSKU):
+{
+  "isRequestSatisfied": {"reason": "...", "answer": true|false}, // Czy zadanie zostało W PEŁNI wykonane?
+  "isInLoop": {"reason": "...", "answer": true|false}, // Czy agenci powtarzają te same działania lub błędy?
+  "isProgressBeingMade": {"reason": "...", "answer": true|false}, // Czy ostatnie tury przybliżyły rozwiązanie?
+  "nextSpeaker": {"reason": "...", "answer": "claude|gemini|ollama|mlx"}, // Który agent działa teraz?
+  "nextModel": "...", // OPCJONALNE - model dla tego agenta
+  "instructionOrQuestion": {"reason": "...", "answer": "..."} // Polecenie dla agenta - samodzielne, z potrzebnymi danymi
+}`,
+      },
+    ];
+
+    let lastError: any;
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      const response = await this.execute(messages, options);
+      try {
+        return this.parseProgressLedger(response.content);
+      } catch (error) {
+        lastError = error;
+        console.error(`[ManagerAgent] Error parsing progress ledger (attempt ${attempt}):`, error);
+        console.error('Response:', response.content);
+      }
+    }
+    throw new Error(`Manager returned an invalid progress ledger: ${lastError?.message || lastError}`);
+  }
+
+  /**
+   * Answer the task from the turns of the Magentic-One loop
+   */
+  async writeFinalAnswer(
+    task: string,
+    ledger: TaskLedger,
+    turns: LedgerTurn[],
+    complete: boolean,
+    options: AgentCallOptions = {}
+  ): Promise<string> {
+    const messages: Message[] = [
+      {
+        role: 'user',
+        content: `ZADANIE:
+${task}
+
+REJESTR ZADANIA:
+${this.formatTaskLedger(ledger)}
+
+TURY AGENTÓW:
+${turns.length > 0 ? this.formatLedgerTurns(turns) : '(brak)'}
+
+${complete
+  ? 'Zadanie zostało wykonane. Napisz ostateczną odpowiedź dla użytkownika na podstawie wyników tur.'
+  : 'Zadania nie udało się w pełni wykonać (limit tur lub brak postępu). Napisz odpowiedź dla użytkownika z tym, co udało się ustalić, i wyraźnie wskaż, czego brakuje.'}
+Odpowiedz PO POLSKU, bez JSON.`,
+      },
+    ];
+
+    const response = await this.execute(messages, options);
+    return response.content;
+  }
+
+  private parseTaskLedger(content: string): TaskLedger {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No JSON found in response');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    const toList = (value: any): string[] => (Array.isArray(value) ? value.map(String) : []);
+    return {
+      facts: toList(parsed.facts),
+      factsToLookUp: toList(parsed.factsToLookUp),
+      guesses: toList(parsed.guesses),
+      plan: toList(parsed.plan),
+    };
+  }
+
+  private parseProgressLedger(content: string): ProgressLedger {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No JSON found in response');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    const answer = <T>(key: string, isValid: (value: any) => boolean): { reason: string; answer: T } => {
+      const entry = parsed[key];
+      if (!entry || typeof entry !== 'object' || !isValid(entry.answer)) {
+        throw new Error(`Invalid "${key}" in progress ledger`);
+      }
+      return { reason: String(entry.reason || ''), answer: entry.answer };
+    };
+    const isBoolean = (value: any) => typeof value === 'boolean';
+
+    const isRequestSatisfied = answer<boolean>('isRequestSatisfied', isBoolean);
+    return {
+      isRequestSatisfied,
+      isInLoop: answer<boolean>('isInLoop', isBoolean),
+      isProgressBeingMade: answer<boolean>('isProgressBeingMade', isBoolean),
+      // Speaker and instruction are not needed once the task is done
+      nextSpeaker: isRequestSatisfied.answer
+        ? { reason: '', answer: 'claude' }
+        : answer<PlanStep['agent']>('nextSpeaker', (value) => ['claude', 'gemini', 'ollama', 'mlx'].includes(value)),
+      nextModel: typeof parsed.nextModel === 'string' && parsed.nextModel.trim() ? parsed.nextModel.trim() : undefined,
+      instructionOrQuestion: isRequestSatisfied.answer
+        ? { reason: '', answer: '' }
+        : answer<string>('instructionOrQuestion', (value) => typeof value === 'string' && value.trim().length > 0),
+    };
+  }
+
+  private formatTaskLedger(ledger: TaskLedger): string {
+    const list = (items: string[]) => (items.length > 0 ? items.map((item) => `- ${item}`).join('\n') : '(brak)');
+    return `Fakty:\n${list(ledger.facts)}\n\nDo sprawdzenia:\n${list(ledger.factsToLookUp)}\n\nPrzypuszczenia:\n${list(ledger.guesses)}\n\nPlan:\n${list(ledger.plan)}`;
+  }
+
+  private formatLedgerTurns(turns: LedgerTurn[]): string {
+    const MAX_RESULT_LENGTH = 2000;
+
+    return turns.map((turn) => {
+      const text = turn.error !== undefined ? `❌ Błąd: ${turn.error}` : turn.result || '';
+      const shortText = text.length > MAX_RESULT_LENGTH ? `${text.substring(0, MAX_RESULT_LENGTH)}... [skrócono]` : text;
+      return `Tura ${turn.turn} (${turn.agent}${turn.model ? `, ${turn.model}` : ''})\nPolecenie: ${turn.instruction}\nWynik: ${shortText}`;
+    }).join('\n\n');
+  }
+
+  /**
+   * Clean up steps written by the manager: unknown agents run on Claude, invalid "dependsOn"
+   * entries (unknown steps, self references, non-numbers), invalid "fallback" agents and
+   * unusable "outputSchema" declarations are dropped
+   * stepNumbers - steps that can be depended on (default: the given steps)
+   */
+  private normalizeSteps(steps: PlanStep[], stepNumbers = new Set(steps.map((s) => s.step))): void {
+    const agents = ['claude', 'gemini', 'ollama', 'mlx', 'manager'];
+
+    for (const step of steps) {
+      if (!agents.includes(step.agent)) {
+        console.warn(`[ManagerAgent] Step ${step.step}: unknown agent "${step.agent}", using claude`);
+        step.agent = 'claude';
+        delete step.model; // Model of the unknown agent does not apply
+      }
+    }
+
+    for (const step of steps) {
+      if (step.dependsOn === undefined) continue;
+
+      if (!Array.isArray(step.dependsOn)) {
+        console.warn(`[ManagerAgent] Step ${step.step}: invalid dependsOn, falling back to sequential execution`);
+        delete step.dependsOn;
+        continue;
+      }
+
+      step.dependsOn = [...new Set(step.dependsOn.map(Number))].filter(
+        (dep) => stepNumbers.has(dep) && dep !== step.step
+      );
+    }
+
+    // Drop invalid fallback agents as well
+    for (const step of steps) {
+      if (step.fallback === undefined) continue;
+
+      step.fallback = Array.isArray(step.fallback)
+        ? step.fallback.filter((f) => f && agents.includes(f.agent) && !(f.agent === step.agent && f.model === step.model))
+        : [];
+      if (step.fallback.length === 0) {
+        delete step.fallback;
+      }
+    }
+
+    for (const step of steps) {
+      const schemaError = step.outputSchema !== undefined ? validateOutputSchema(step.outputSchema) : null;
+      if (schemaError) {
+        console.warn(`[ManagerAgent] Step ${step.step}: ${schemaError}, expecting a text result`);
+        delete step.outputSchema;
+      }
+    }
+  }
+
   /**
    * Evaluate which agent should handle a specific task
    */
@@ -9,8 +9,38 @@ import {
   ToolCall,
   ToolResult,
   MCPServerConfig,
+  StreamCallback,
+  AgentCallOptions,
+  TokenUsage,
 } from '../types/index.js';
 import { getMLXDefaultPrompt } from './prompts.js';
+import { readStreamLines } from './stream-utils.js';
+import { ProviderRecorder } from '../recording.js';
+
+/**
+ * Response of the OpenAI-compatible /v1/chat/completions endpoint
+ */
+interface MLXChatResponse {
+  id?: string,
+  choices?: Array<{
+    message?: {
+      content?: string,
+      tool_calls?: Array<{
+        id?: string,
+        type?: string,
+        function?: {
+          name: string,
+          arguments: string | Record<string, any>
+        }
+      }>
+    },
+    finish_reason?: string
+  }>,
+  usage?: {
+    prompt_tokens?: number,
+    completion_tokens?: number
+  }
+}
 
 export class MLXAgent implements Agent {
   name: string;
@@ -23,6 +53,8 @@ export class MLXAgent implements Agent {
   private tools: Tool[];
   private mcpClients: Map<string, Client> = new Map();
   private mcpTools: Tool[] = [];
+  private recorder = new ProviderRecorder();
+  private backend: Agent | null = null;
 
   constructor(
     config: AgentConfig,
@@ -55,6 +87,20 @@ export class MLXAgent implements Agent {
     ];
   }
 
+  /**
+   * Record or replay the API and MCP calls of this agent
+   */
+  setRecorder(recorder: ProviderRecorder): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Answer with another agent instead of the provider API (dry run, tests) - MCP tools stay real
+   */
+  setBackend(backend: Agent | null): void {
+    this.backend = backend;
+  }
+
   /**
    * Initialize MCP servers and load their tools
    */
@@ -74,14 +120,17 @@ export class MLXAgent implements Agent {
 
         console.log(`[MLXAgent] Transport created for ${serverConfig.name}`);
 
-        const client = new Client(
-          {
-            name: `mlx-agent-mcp-client-${serverConfig.name}`,
-            version: '1.0.0',
-          },
-          {
-            capabilities: {},
-          }
+        const client = this.recorder.wrapMCPClient(
+          new Client(
+            {
+              name: `mlx-agent-mcp-client-${serverConfig.name}`,
+              version: '1.0.0',
+            },
+            {
+              capabilities: {},
+            }
+          ),
+          serverConfig.name
         );
 
         await client.connect(transport);
@@ -226,14 +275,41 @@ export class MLXAgent implements Agent {
     return toolCalls;
   }
 
-  async execute(messages: Message[]): Promise<AgentResponse> {
-    return this.executeWithTools(messages, []);
+  async execute(messages: Message[], options: AgentCallOptions = {}): Promise<AgentResponse> {
+    return this.executeWithTools(messages, [], options);
   }
 
   async executeWithTools(
     messages: Message[],
-    toolResults: ToolResult[]
+    toolResults: ToolResult[],
+    options: AgentCallOptions = {}
   ): Promise<AgentResponse> {
+    return this.sendMessages(messages, toolResults, undefined, options);
+  }
+
+  async executeStream(messages: Message[], onDelta: StreamCallback, options: AgentCallOptions = {}): Promise<AgentResponse> {
+    return this.sendMessages(messages, [], onDelta, options);
+  }
+
+  /**
+   * Send messages to the MLX server (streamed when onDelta is given)
+   */
+  private async sendMessages(
+    messages: Message[],
+    toolResults: ToolResult[],
+    onDelta?: StreamCallback,
+    options: AgentCallOptions = {}
+  ): Promise<AgentResponse> {
+    // Dry run - the scripted agent answers instead of the API
+    if (this.backend) {
+      if (toolResults.length > 0) {
+        return this.backend.executeWithTools(messages, toolResults, options);
+      }
+      return onDelta && this.backend.executeStream
+        ? this.backend.executeStream(messages, onDelta, options)
+        : this.backend.execute(messages, options);
+    }
+
     try {
       // Build MLX-compatible messages (OpenAI format)
       const mlxMessages = messages.map((msg) => {
@@ -317,55 +393,54 @@ export class MLXAgent implements Agent {
 
       // Call MLX API with OpenAI-compatible format
       const requestBody: any = {
-        model: this.model,
+        model: options.model || this.model,
         messages: messagesWithSystem,
-        stream: false,
+        stream: !!onDelta,
         temperature: this.temperature,
         max_tokens: this.maxTokens,
       };
+      if (onDelta) {
+        // Ask for token usage in the final streamed chunk
+        requestBody.stream_options = { include_usage: true };
+      }
 
       // NOTE: Do NOT add tools parameter - MLX doesn't support native tool calling
       // Tools are already described in the system prompt (line 272-284)
       // Model will generate tool calls in text format which we parse later
 
       // Create abort controller with 5 minute timeout
+      // User abort (options.signal) cancels the request immediately and frees the model
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 300000); // 5 minutes
+      const onAbort = () => controller.abort();
+      options.signal?.addEventListener('abort', onAbort, { once: true });
 
       try {
-        const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody),
-          signal: controller.signal,
-        });
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`MLX API error (${response.status}): ${errorText}`);
-        }
+        const data = await this.recorder.call(
+          'mlx.chat',
+          requestBody,
+          async () => {
+            const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify(requestBody),
+              signal: controller.signal,
+            });
+
+            if (!response.ok) {
+              const errorText = await response.text();
+              // The status (not the message) tells the retry policy whether the error is retryable
+              throw Object.assign(new Error(`MLX API error (${response.status}): ${errorText}`), { status: response.status });
+            }
 
-        const data = await response.json() as {
-          id?: string,
-          choices?: Array<{
-            message?: {
-              content?: string,
-              tool_calls?: Array<{
-                id?: string,
-                type?: string,
-                function?: {
-                  name: string,
-                  arguments: string | Record<string, any>
-                }
-              }>
-            },
-            finish_reason?: string
-          }>,
-          usage?: any
-        };
+            return onDelta
+              ? await this.readChatStream(response, onDelta)
+              : await response.json() as MLXChatResponse;
+          },
+          (replayed) => onDelta?.(replayed.choices?.[0]?.message?.content || '')
+        );
 
         const choice = data.choices?.[0];
         const content = choice?.message?.content || '';
@@ -404,17 +479,32 @@ export class MLXAgent implements Agent {
           toolCalls.push(...parsedToolCalls);
         }
 
+        const usage: TokenUsage = {
+          provider: 'mlx',
+          model: requestBody.model,
+          inputTokens: data.usage?.prompt_tokens ?? 0,
+          outputTokens: data.usage?.completion_tokens ?? 0,
+        };
+        options.onUsage?.(usage);
+
         return {
           content,
           toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
           stopReason: choice?.finish_reason === 'stop' ? 'end_turn' : 'max_tokens',
+          usage,
         };
       } catch (fetchError: any) {
-        clearTimeout(timeoutId);
+        if (options.signal?.aborted) {
+          throw new Error('Execution aborted by user');
+        }
         if (fetchError.name === 'AbortError') {
           throw new Error('MLX request timeout after 5 minutes. Try simpler query or smaller max_tokens.');
         }
         throw fetchError;
+      } finally {
+        // The timeout covers the whole response - a stream that stalls after the headers is aborted too
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', onAbort);
       }
     } catch (error) {
       console.error('[MLXAgent] Error executing:', error);
@@ -431,10 +521,45 @@ export class MLXAgent implements Agent {
     }
   }
 
+  /**
+   * Assemble a streamed (SSE) chat completion, passing content deltas through
+   * Tool calls are parsed from the assembled content, same as without streaming
+   */
+  private async readChatStream(response: Response, onDelta: StreamCallback): Promise<MLXChatResponse> {
+    let id: string | undefined;
+    let content = '';
+    let finishReason: string | undefined;
+    let usage: MLXChatResponse['usage'];
+
+    await readStreamLines(response, (line) => {
+      if (!line.startsWith('data:')) return;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return;
+
+      const chunk = JSON.parse(payload);
+      id = id || chunk.id;
+      usage = chunk.usage || usage;
+      const choice = chunk.choices?.[0];
+      if (choice?.delta?.content) {
+        content += choice.delta.content;
+        onDelta(choice.delta.content);
+      }
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+    });
+
+    return {
+      id,
+      choices: [{ message: { content }, finish_reason: finishReason }],
+      usage,
+    };
+  }
+
   /**
    * Execute MCP tool call
    */
-  async executeMCPTool(toolName: string, input: Record<string, any>): Promise<any> {
+  async executeMCPTool(toolName: string, input: Record<string, any>, options: AgentCallOptions = {}): Promise<any> {
     // Parse MCP tool name: mcp_{serverName}_{toolName}
     const match = toolName.match(/^mcp_([^_]+)_(.+)$/);
     if (!match) {
@@ -452,7 +577,7 @@ export class MLXAgent implements Agent {
       const result = await client.callTool({
         name: actualToolName,
         arguments: input,
-      });
+      }, undefined, { signal: options.signal });
 
       return result;
     } catch (error) {
@@ -10,7 +10,32 @@ import {
   ToolResult,
   FileAttachment,
   MCPServerConfig,
+  StreamCallback,
+  AgentCallOptions,
+  TokenUsage,
 } from '../types/index.js';
+import { readStreamLines } from './stream-utils.js';
+import { ProviderRecorder } from '../recording.js';
+
+/**
+ * Response of the Ollama /api/chat endpoint (also a single chunk when streaming)
+ */
+interface OllamaChatResponse {
+  message?: {
+    content?: string,
+    tool_calls?: Array<{
+      id?: string,
+      type?: string,
+      function?: {
+        name: string,
+        arguments: string | Record<string, any>
+      }
+    }>
+  },
+  done?: boolean,
+  prompt_eval_count?: number, // Input tokens (missing when the prompt was cached)
+  eval_count?: number // Output tokens
+}
 
 export class OllamaAgent implements Agent {
   name: string;
@@ -23,6 +48,8 @@ export class OllamaAgent implements Agent {
   private tools: Tool[];
   private mcpClients: Map<string, Client> = new Map();
   private mcpTools: Tool[] = [];
+  private recorder = new ProviderRecorder();
+  private backend: Agent | null = null;
 
   constructor(
     config: AgentConfig,
@@ -65,6 +92,20 @@ export class OllamaAgent implements Agent {
     ];
   }
 
+  /**
+   * Record or replay the API and MCP calls of this agent
+   */
+  setRecorder(recorder: ProviderRecorder): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Answer with another agent instead of the provider API (dry run, tests) - MCP tools stay real
+   */
+  setBackend(backend: Agent | null): void {
+    this.backend = backend;
+  }
+
   /**
    * Initialize MCP servers and load their tools
    */
@@ -84,14 +125,17 @@ export class OllamaAgent implements Agent {
 
         console.log(`[OllamaAgent] Transport created for ${serverConfig.name}`);
 
-        const client = new Client(
-          {
-            name: `ollama-agent-mcp-client-${serverConfig.name}`,
-            version: '1.0.0',
-          },
-          {
-            capabilities: {},
-          }
+        const client = this.recorder.wrapMCPClient(
+          new Client(
+            {
+              name: `ollama-agent-mcp-client-${serverConfig.name}`,
+              version: '1.0.0',
+            },
+            {
+              capabilities: {},
+            }
+          ),
+          serverConfig.name
         );
 
         await client.connect(transport);
@@ -236,14 +280,41 @@ export class OllamaAgent implements Agent {
     return toolCalls;
   }
 
-  async execute(messages: Message[]): Promise<AgentResponse> {
-    return this.executeWithTools(messages, []);
+  async execute(messages: Message[], options: AgentCallOptions = {}): Promise<AgentResponse> {
+    return this.executeWithTools(messages, [], options);
   }
 
   async executeWithTools(
     messages: Message[],
-    toolResults: ToolResult[]
+    toolResults: ToolResult[],
+    options: AgentCallOptions = {}
+  ): Promise<AgentResponse> {
+    return this.sendMessages(messages, toolResults, undefined, options);
+  }
+
+  async executeStream(messages: Message[], onDelta: StreamCallback, options: AgentCallOptions = {}): Promise<AgentResponse> {
+    return this.sendMessages(messages, [], onDelta, options);
+  }
+
+  /**
+   * Send messages to the Ollama chat API (streamed when onDelta is given)
+   */
+  private async sendMessages(
+    messages: Message[],
+    toolResults: ToolResult[],
+    onDelta?: StreamCallback,
+    options: AgentCallOptions = {}
   ): Promise<AgentResponse> {
+    // Dry run - the scripted agent answers instead of the API
+    if (this.backend) {
+      if (toolResults.length > 0) {
+        return this.backend.executeWithTools(messages, toolResults, options);
+      }
+      return onDelta && this.backend.executeStream
+        ? this.backend.executeStream(messages, onDelta, options)
+        : this.backend.execute(messages, options);
+    }
+
     try {
       // Build Ollama-compatible messages
       const ollamaMessages = messages.map((msg) => {
@@ -327,9 +398,9 @@ export class OllamaAgent implements Agent {
 
       // Call Ollama API with native tool support
       const requestBody: any = {
-        model: this.model,
+        model: options.model || this.model,
         messages: messagesWithSystem,
-        stream: false,
+        stream: !!onDelta,
         options: {
           temperature: this.temperature,
           num_predict: this.maxTokens,
@@ -342,39 +413,38 @@ export class OllamaAgent implements Agent {
       }
 
       // Create abort controller with 5 minute timeout
+      // User abort (options.signal) cancels the request immediately and frees the model
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 300000); // 5 minutes
+      const onAbort = () => controller.abort();
+      options.signal?.addEventListener('abort', onAbort, { once: true });
 
       try {
-        const response = await fetch(`${this.baseUrl}/api/chat`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody),
-          signal: controller.signal,
-        });
-        clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Ollama API error (${response.status}): ${errorText}`);
-      }
+        const data = await this.recorder.call(
+          'ollama.chat',
+          requestBody,
+          async () => {
+            const response = await fetch(`${this.baseUrl}/api/chat`, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify(requestBody),
+              signal: controller.signal,
+            });
 
-      const data = await response.json() as {
-        message?: {
-          content?: string,
-          tool_calls?: Array<{
-            id?: string,
-            type?: string,
-            function?: {
-              name: string,
-              arguments: string | Record<string, any>
+            if (!response.ok) {
+              const errorText = await response.text();
+              // The status (not the message) tells the retry policy whether the error is retryable
+              throw Object.assign(new Error(`Ollama API error (${response.status}): ${errorText}`), { status: response.status });
             }
-          }>
-        },
-        done?: boolean
-      };
+
+            return onDelta
+              ? await this.readChatStream(response, onDelta)
+              : await response.json() as OllamaChatResponse;
+          },
+          (replayed) => onDelta?.(replayed.message?.content || '')
+        );
 
       const content = data.message?.content || '';
 
@@ -412,17 +482,32 @@ export class OllamaAgent implements Agent {
         toolCalls.push(...parsedToolCalls);
       }
 
+        const usage: TokenUsage = {
+          provider: 'ollama',
+          model: requestBody.model,
+          inputTokens: data.prompt_eval_count ?? 0,
+          outputTokens: data.eval_count ?? 0,
+        };
+        options.onUsage?.(usage);
+
         return {
           content,
           toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
           stopReason: data.done ? 'end_turn' : 'max_tokens',
+          usage,
         };
       } catch (fetchError: any) {
-        clearTimeout(timeoutId);
+        if (options.signal?.aborted) {
+          throw new Error('Execution aborted by user');
+        }
         if (fetchError.name === 'AbortError') {
           throw new Error('Ollama request timeout after 5 minutes. Try simpler query or smaller max_tokens.');
         }
         throw fetchError;
+      } finally {
+        // The timeout covers the whole response - a stream that stalls after the headers is aborted too
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', onAbort);
       }
     } catch (error) {
       console.error('[OllamaAgent] Error executing:', error);
@@ -439,10 +524,63 @@ export class OllamaAgent implements Agent {
     }
   }
 
+  /**
+   * Assemble a streamed (NDJSON) chat response, passing content deltas through
+   * Tool calls are detected on the assembled response, same as without streaming
+   */
+  private async readChatStream(response: Response, onDelta: StreamCallback): Promise<OllamaChatResponse> {
+    let content = '';
+    const toolCalls: NonNullable<OllamaChatResponse['message']>['tool_calls'] = [];
+    let done = false;
+    let promptEvalCount: number | undefined;
+    let evalCount: number | undefined;
+
+    await readStreamLines(response, (line) => {
+      const chunk = JSON.parse(line) as OllamaChatResponse & { error?: string };
+      if (chunk.error) {
+        throw new Error(`Ollama API error: ${chunk.error}`);
+      }
+      if (chunk.message?.content) {
+        content += chunk.message.content;
+        onDelta(chunk.message.content);
+      }
+      if (chunk.message?.tool_calls) {
+        toolCalls.push(...chunk.message.tool_calls);
+      }
+      if (chunk.done) {
+        // Token counts come with the final chunk
+        done = true;
+        promptEvalCount = chunk.prompt_eval_count;
+        evalCount = chunk.eval_count;
+      }
+    });
+
+    return {
+      message: { content, tool_calls: toolCalls.length > 0 ? toolCalls : undefined },
+      done,
+      prompt_eval_count: promptEvalCount,
+      eval_count: evalCount,
+    };
+  }
+
+  /**
+   * Build messages with tool results (text format - Ollama models get results as a user message)
+   */
+  buildToolResultMessages(response: AgentResponse, toolResults: ToolResult[]): Message[] {
+    const toolResultsText = toolResults
+      .map((tr) => `Tool ${tr.toolCallId} (${response.toolCalls?.find(tc => tc.id === tr.toolCallId)?.name}) result:\n${tr.output}`)
+      .join('\n\n');
+
+    return [
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: `Otrzymano wyniki narzędzi:\n\n${toolResultsText}\n\nPrzeanalizuj wyniki i kontynuuj zadanie.` },
+    ];
+  }
+
   /**
    * Execute MCP tool call
    */
-  async executeMCPTool(toolName: string, input: Record<string, any>): Promise<any> {
+  async executeMCPTool(toolName: string, input: Record<string, any>, options: AgentCallOptions = {}): Promise<any> {
     // Parse MCP tool name: mcp_{serverName}_{toolName}
     const match = toolName.match(/^mcp_([^_]+)_(.+)$/);
     if (!match) {
@@ -460,7 +598,7 @@ export class OllamaAgent implements Agent {
       const result = await client.callTool({
         name: actualToolName,
         arguments: input,
-      });
+      }, undefined, { signal: options.signal });
 
       return result;
     } catch (error) {
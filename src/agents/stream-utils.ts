@@ -0,0 +1,32 @@
+/**
+ * Read a streamed HTTP response line by line (NDJSON from Ollama, SSE from OpenAI-compatible servers)
+ */
+export async function readStreamLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.trim()) {
+        onLine(line.trim());
+      }
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    onLine(buffer.trim());
+  }
+}
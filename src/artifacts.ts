@@ -0,0 +1,257 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * Settings of execution artifacts
+ */
+export interface ArtifactConfig {
+  dir: string; // Artifacts of every execution are kept in <dir>/<executionId>/
+  storeToolResults: boolean; // Oversized tool results become artifacts (false - they are truncated)
+  maxToolResultLength: number; // Longer tool results are not sent to the model in full
+  previewLength: number; // Beginning of a stored tool result sent with its handle
+  pageSize: number; // Characters per page read with read_tool_result
+}
+
+export const DEFAULT_ARTIFACTS: ArtifactConfig = {
+  dir: 'artifacts',
+  storeToolResults: true,
+  maxToolResultLength: 10000,
+  previewLength: 2000,
+  pageSize: 8000,
+};
+
+/**
+ * Merge artifact settings from magentic-config.json with defaults
+ */
+export function resolveArtifacts(config?: Partial<ArtifactConfig>): ArtifactConfig {
+  return { ...DEFAULT_ARTIFACTS, ...config };
+}
+
+/**
+ * File saved during an execution
+ * 'file' - written by an agent with write_artifact (id = name), 'tool_result' - oversized tool result
+ */
+export interface Artifact {
+  id: string; // Handle used by the artifact tools
+  name: string; // File name inside the execution's artifact directory
+  kind: 'file' | 'tool_result';
+  path: string;
+  mimeType: string;
+  size: number; // Characters
+  createdAt: string;
+  step?: number; // Step (or ledger turn) that created the artifact
+  description?: string; // What a 'file' artifact contains, given by the agent
+  toolName?: string; // Tool that produced a 'tool_result' artifact
+}
+
+// File name with an extension, without directories (e.g. "raport.md", "firmy.csv")
+const ARTIFACT_NAME_PATTERN = /^[\w-][\w.-]*\.[A-Za-z0-9]+$/;
+
+// Stored tool results are named "result-<n>-<tool>.txt" - named artifacts cannot use the prefix
+const TOOL_RESULT_PREFIX = 'result-';
+
+const MIME_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  md: 'text/markdown',
+  json: 'application/json',
+  html: 'text/html',
+  xml: 'application/xml',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+};
+
+export function artifactMimeType(name: string): string {
+  return MIME_TYPES[path.extname(name).slice(1).toLowerCase()] || 'text/plain';
+}
+
+/**
+ * Text of a tool result - text blocks of MCP results are joined, so that
+ * rows of a Neo4j result are lines of the artifact (not one escaped JSON string)
+ */
+export function toolResultText(result: any): string {
+  if (typeof result === 'string') {
+    return result;
+  }
+  if (Array.isArray(result?.content) && result.content.every((block: any) => block?.type === 'text')) {
+    return result.content.map((block: any) => block.text).join('\n');
+  }
+  return JSON.stringify(result, null, 2) ?? String(result);
+}
+
+/**
+ * Split a text into pages of at most pageSize characters (on line breaks where possible)
+ */
+export function splitPages(text: string, pageSize: number): string[] {
+  const pages: string[] = [];
+  let rest = text;
+  while (rest.length > pageSize) {
+    const lineBreak = rest.lastIndexOf('\n', pageSize);
+    const end = lineBreak > pageSize / 2 ? lineBreak + 1 : pageSize;
+    pages.push(rest.substring(0, end));
+    rest = rest.substring(end);
+  }
+  return rest.length > 0 || pages.length === 0 ? [...pages, rest] : pages;
+}
+
+/**
+ * Artifacts of a single execution, kept on disk
+ */
+export class ArtifactStore {
+  private artifacts = new Map<string, Artifact>();
+  private toolResultHashes = new Map<string, string>(); // Content hash -> artifact id
+  private toolResultCount = 0;
+
+  constructor(private dir: string, private config: ArtifactConfig) {}
+
+  list(): Artifact[] {
+    return [...this.artifacts.values()];
+  }
+
+  /**
+   * Add artifacts of an earlier run of the execution (resume) - their files are already on disk
+   */
+  restore(artifacts: Artifact[]): void {
+    for (const artifact of artifacts) {
+      this.artifacts.set(artifact.id, artifact);
+    }
+  }
+
+  /**
+   * Write a named artifact (an artifact with the same name is replaced)
+   */
+  async write(name: string, content: string, options: { description?: string; step?: number } = {}): Promise<Artifact> {
+    if (!ARTIFACT_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid artifact name "${name}" - use a file name with an extension, e.g. "report.md" or "companies.csv"`);
+    }
+    if (name.toLowerCase().startsWith(TOOL_RESULT_PREFIX)) {
+      throw new Error(`Invalid artifact name "${name}" - names starting with "${TOOL_RESULT_PREFIX}" are reserved for stored tool results`);
+    }
+
+    const filePath = path.join(this.dir, name);
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(filePath, content, 'utf-8');
+
+    const artifact: Artifact = {
+      id: name,
+      name,
+      kind: 'file',
+      path: filePath,
+      mimeType: artifactMimeType(name),
+      size: content.length,
+      createdAt: new Date().toISOString(),
+      step: options.step,
+      description: options.description,
+    };
+    this.artifacts.set(name, artifact);
+    return artifact;
+  }
+
+  get(id: string): Artifact | undefined {
+    return this.artifacts.get(id);
+  }
+
+  /**
+   * Save an oversized tool result
+   * A repeated call returning the same result gets the same artifact (and the same handle)
+   */
+  async saveToolResult(toolName: string, text: string, step?: number): Promise<Artifact> {
+    const hash = createHash('sha1').update(toolName).update('\0').update(text).digest('hex');
+    const existing = this.artifacts.get(this.toolResultHashes.get(hash) || '');
+    if (existing) {
+      return existing;
+    }
+
+    // Ids are never reused, also next to the tool results of an earlier run (resume)
+    let id: string;
+    do {
+      id = `${TOOL_RESULT_PREFIX}${++this.toolResultCount}`;
+    } while (this.artifacts.has(id));
+    const name = `${id}-${toolName.replace(/[^\w.-]/g, '_')}.txt`;
+    const filePath = path.join(this.dir, name);
+
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(filePath, text, 'utf-8');
+
+    const artifact: Artifact = {
+      id,
+      name,
+      kind: 'tool_result',
+      path: filePath,
+      mimeType: 'text/plain',
+      size: text.length,
+      createdAt: new Date().toISOString(),
+      step,
+      toolName,
+    };
+    this.artifacts.set(id, artifact);
+    this.toolResultHashes.set(hash, id);
+    return artifact;
+  }
+
+  async read(id: string): Promise<string> {
+    const artifact = this.artifacts.get(id);
+    if (!artifact) {
+      throw new Error(`Unknown artifact: ${id}`);
+    }
+    return fs.readFile(artifact.path, 'utf-8');
+  }
+
+  /**
+   * Page of an artifact (pages are numbered from 1)
+   */
+  async readPage(id: string, page: number): Promise<{ page: number; pages: number; content: string }> {
+    const pages = splitPages(await this.read(id), this.config.pageSize);
+    if (!Number.isInteger(page) || page < 1 || page > pages.length) {
+      throw new Error(`Page ${page} out of range - artifact ${id} has ${pages.length} page(s)`);
+    }
+    return { page, pages: pages.length, content: pages[page - 1] };
+  }
+
+  /**
+   * Lines of an artifact matching a pattern (regular expression, case-insensitive)
+   */
+  async grep(id: string, pattern: string, maxMatches: number): Promise<{ matches: string[]; total: number }> {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, 'i');
+    } catch {
+      regex = new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i'); // Not a valid expression - match literally
+    }
+
+    const matches = (await this.read(id))
+      .split('\n')
+      .map((line, index) => ({ line, number: index + 1 }))
+      .filter(({ line }) => regex.test(line));
+
+    return {
+      matches: matches.slice(0, maxMatches).map(({ line, number }) => `${number}: ${line}`),
+      total: matches.length,
+    };
+  }
+
+  /**
+   * What the model receives instead of an oversized tool result
+   */
+  describeToolResult(artifact: Artifact, text: string): string {
+    const pages = splitPages(text, this.config.pageSize).length;
+    return `[Wynik narzędzia ${artifact.toolName} jest za długi (${artifact.size} znaków) i został zapisany jako artefakt "${artifact.id}" (liczba stron: ${pages}). Poniżej jego początek. Kolejne strony odczytasz narzędziem read_tool_result (artifact_id: "${artifact.id}", page: 1-${pages}), a potrzebne fragmenty znajdziesz narzędziem grep_tool_result (artifact_id, pattern). Nie powtarzaj wywołania ${artifact.toolName} tylko po to, by zobaczyć resztę wyniku.]
+
+${text.substring(0, this.config.previewLength)}
+[... ${Math.max(0, artifact.size - this.config.previewLength)} znaków więcej w artefakcie "${artifact.id}"]`;
+  }
+}
+
+/**
+ * Artifacts written by earlier steps, listed in the task of a step
+ */
+export function describeArtifacts(artifacts: Artifact[]): string {
+  const files = artifacts.filter((artifact) => artifact.kind === 'file');
+  if (files.length === 0) {
+    return '';
+  }
+  const list = files
+    .map((artifact) => `- ${artifact.name} (${artifact.size} znaków${artifact.step !== undefined ? `, krok ${artifact.step}` : ''})${artifact.description ? `: ${artifact.description}` : ''}`)
+    .join('\n');
+  return `\n\n--- ARTEFAKTY WYKONANIA ---\n${list}\nTreść artefaktu odczytasz narzędziem read_artifact (name), nowy zapiszesz narzędziem write_artifact.\n--- KONIEC ARTEFAKTÓW ---\n`;
+}
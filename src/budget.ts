@@ -0,0 +1,157 @@
+import { TokenUsage } from './types/index.js';
+import { UsageRecord, UsageSummary, UsageTotals, mergeUsageSummaries, summarizeUsage } from './usage.js';
+
+export type Provider = TokenUsage['provider'];
+
+/**
+ * Spend limits - cost in USD, tokens are input + output
+ */
+export interface BudgetLimits {
+  maxCost?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Budget of an execution (limits at the top level apply to the whole execution)
+ */
+export interface ExecutionBudget extends BudgetLimits {
+  perProvider?: Partial<Record<Provider, BudgetLimits>>; // Limits per provider within the execution
+  daily?: BudgetLimits; // Limits for all executions of the current day
+  onExceeded?: 'abort' | 'downgrade'; // 'downgrade' keeps going with Claude steps switched to downgradeModel (other work and the daily limit still stop)
+  downgradeModel?: string;
+}
+
+/**
+ * Limit that was reached
+ */
+export interface BudgetViolation {
+  scope: 'execution' | 'provider' | 'daily';
+  provider?: Provider;
+  limit: 'cost' | 'tokens';
+  max: number;
+  used: number;
+}
+
+/**
+ * Reported when a budget limit is reached
+ * 'abort' - execution stopped mid-step, 'refused' - a step was not started,
+ * 'downgrade' - remaining Claude steps run on the cheaper model
+ */
+export interface BudgetExceededEvent {
+  violation: BudgetViolation;
+  action: 'abort' | 'refused' | 'downgrade';
+  step?: number;
+  message: string;
+}
+
+export const DEFAULT_DOWNGRADE_MODEL = 'claude-haiku-4-5-20251001';
+
+/**
+ * Merge a per-execution budget (e.g. from the task request) over the config default
+ */
+export function resolveBudget(defaults?: ExecutionBudget, overrides?: ExecutionBudget): ExecutionBudget {
+  return {
+    ...defaults,
+    ...overrides,
+    perProvider: { ...defaults?.perProvider, ...overrides?.perProvider },
+    daily: { ...defaults?.daily, ...overrides?.daily },
+  };
+}
+
+function checkLimits(
+  limits: BudgetLimits | undefined,
+  totals: UsageTotals,
+  scope: BudgetViolation['scope'],
+  provider?: Provider
+): BudgetViolation | null {
+  if (limits?.maxCost !== undefined && totals.cost >= limits.maxCost) {
+    return { scope, provider, limit: 'cost', max: limits.maxCost, used: totals.cost };
+  }
+  const tokens = totals.inputTokens + totals.outputTokens;
+  if (limits?.maxTokens !== undefined && tokens >= limits.maxTokens) {
+    return { scope, provider, limit: 'tokens', max: limits.maxTokens, used: tokens };
+  }
+  return null;
+}
+
+/**
+ * Find the first reached limit - of the whole budget, or only the limits that
+ * apply to the given provider (before starting a step)
+ * usageBefore - usage of earlier runs of a resumed execution, counted toward its limits
+ */
+export function checkBudget(
+  budget: ExecutionBudget,
+  usage: UsageRecord[],
+  daily: UsageTotals,
+  provider?: Provider,
+  usageBefore?: UsageSummary
+): BudgetViolation | null {
+  const summary = mergeUsageSummaries(usageBefore, summarizeUsage(usage));
+  const providers = provider ? [provider] : (Object.keys(budget.perProvider || {}) as Provider[]);
+
+  let violation = checkLimits(budget, summary, 'execution') || checkLimits(budget.daily, daily, 'daily');
+  for (const p of providers) {
+    violation = violation || checkLimits(budget.perProvider?.[p], summary.byProvider[p] || emptyTotals(), 'provider', p);
+  }
+  return violation;
+}
+
+/**
+ * Reached daily limit (a hard stop even in downgrade mode)
+ */
+export function checkDailyBudget(budget: ExecutionBudget, daily: UsageTotals): BudgetViolation | null {
+  return checkLimits(budget.daily, daily, 'daily');
+}
+
+export function describeViolation(violation: BudgetViolation): string {
+  const scope = violation.scope === 'provider' ? `${violation.provider} budget` : `${violation.scope} budget`;
+  const format = (value: number) => (violation.limit === 'cost' ? `$${value.toFixed(4)}` : `${value} tokens`);
+  return `Budget exceeded: ${scope} limit ${format(violation.max)} reached (used ${format(violation.used)})`;
+}
+
+/**
+ * Error stopping an execution over budget (not retryable, no re-planning)
+ */
+export function createBudgetError(violation: BudgetViolation): Error {
+  const error = new Error(describeViolation(violation)) as any;
+  error.isBudgetExceeded = true;
+  error.violation = violation;
+  return error;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+/**
+ * Usage totals of the current day (all executions), reset at midnight UTC
+ */
+export class DailyUsage {
+  private date = DailyUsage.today();
+  private totals = emptyTotals();
+
+  private static today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  add(usage: UsageTotals): void {
+    this.rollOver();
+    this.totals.calls += usage.calls;
+    this.totals.inputTokens += usage.inputTokens;
+    this.totals.outputTokens += usage.outputTokens;
+    this.totals.cost += usage.cost;
+  }
+
+  get(): UsageTotals {
+    this.rollOver();
+    return { ...this.totals };
+  }
+
+  private rollOver(): void {
+    const today = DailyUsage.today();
+    if (today !== this.date) {
+      this.date = today;
+      this.totals = emptyTotals();
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { Message } from './types/index.js';
+import { estimateTokens } from './context-compaction.js';
+
+/**
+ * One exchange of a chat - the user message followed by the agent's reply
+ * (with tool calls and results when they were kept in the agent's native format)
+ */
+export type ChatTurn = Message[];
+
+export function estimateMessageTokens(message: Message): number {
+  return estimateTokens(typeof message.content === 'string' ? message.content : JSON.stringify(message.content));
+}
+
+function estimateTurnTokens(turn: ChatTurn): number {
+  return turn.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+/**
+ * Fit chat history into maxTokens, keeping the newest turns
+ * A turn that does not fit with its tool calls is shortened to the question and the final answer;
+ * older turns than the first one that does not fit at all are dropped
+ */
+export function trimChatHistory(turns: ChatTurn[], maxTokens: number): Message[] {
+  const kept: ChatTurn[] = [];
+  let used = 0;
+
+  for (let index = turns.length - 1; index >= 0; index--) {
+    const turn = turns[index];
+    const shortened = turn.length > 2 ? [turn[0], turn[turn.length - 1]] : turn;
+
+    const candidate = [turn, shortened].find((t) => used + estimateTurnTokens(t) <= maxTokens);
+    if (!candidate) {
+      console.log(`[ChatHistory] Dropped ${index + 1} oldest turn(s) to fit the context window`);
+      break;
+    }
+    kept.unshift(candidate);
+    used += estimateTurnTokens(candidate);
+  }
+
+  return kept.flat();
+}
@@ -47,6 +47,16 @@ async function main() {
   await orchestrator.initialize();
   console.log('✓ Orchestrator initialized\n');
 
+  orchestrator.events.on('tool_call_started', (event) => {
+    console.log(`  → ${event.agent}: ${event.toolCall.name}`);
+  });
+  orchestrator.events.on('tool_call_finished', (event) => {
+    console.log(`  ← ${event.record.name} (${event.durationMs} ms)`);
+  });
+  orchestrator.events.on('rate_limit_wait', (event) => {
+    console.log(`  ⏳ Rate limit - waiting ${event.retryAfter}s (attempt ${event.attempt}/${event.maxRetries})`);
+  });
+
   // Main loop
   let running = true;
   while (running) {
@@ -55,9 +65,10 @@ async function main() {
     console.log('  2. Chat with Gemini');
     console.log('  3. Execute task with planning (auto)');
     console.log('  4. Create plan only (no execution)');
-    console.log('  5. Exit');
+    console.log('  5. Execute task with Magentic-One ledger loop');
+    console.log('  6. Exit');
 
-    const choice = await question('\nSelect option (1-5): ');
+    const choice = await question('\nSelect option (1-6): ');
 
     switch (choice.trim()) {
       case '1': {
@@ -113,6 +124,19 @@ async function main() {
       }
 
       case '5': {
+        const task = await question('\nDescribe your task: ');
+        if (task.trim()) {
+          console.log('\nExecuting task...');
+          const { answer, turns, stopReason } = await orchestrator.executeWithLedger(task);
+          console.log('\n' + '═'.repeat(60));
+          console.log(`Result (${turns.length} turn(s), ${stopReason}):\n`);
+          console.log(answer);
+          console.log('═'.repeat(60));
+        }
+        break;
+      }
+
+      case '6': {
         console.log('\nCleaning up...');
         await orchestrator.cleanup();
         console.log('✓ Goodbye!\n');
@@ -121,7 +145,7 @@ async function main() {
       }
 
       default:
-        console.log('Invalid option. Please select 1-5.');
+        console.log('Invalid option. Please select 1-6.');
     }
   }
 
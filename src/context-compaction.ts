@@ -0,0 +1,190 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PlanStep, StepFallback } from './types/index.js';
+import { StepOutcome, buildStepTask } from './plan-executor.js';
+import { FINAL_ANSWER_MARKER } from './agent-loop.js';
+
+/**
+ * Settings of previous-step context compaction
+ */
+export interface ContextCompactionConfig {
+  enabled: boolean;
+  contextWindows: Record<string, number>; // Tokens, keyed by model name, model name prefix or agent
+  maxContextShare: number; // Part of the window (0-1) a step task with previous results may take
+  summarizerAgents: PlanStep['agent'][]; // The first available agent summarizes results (local models first - free)
+  summaryTokens: number; // Target length of a single summary
+  rawDir: string; // Full results of compacted steps are kept here, per execution
+}
+
+export const DEFAULT_CONTEXT_COMPACTION: ContextCompactionConfig = {
+  enabled: true,
+  contextWindows: {
+    claude: 200000,
+    manager: 200000,
+    gemini: 1000000,
+    ollama: 4096, // Ollama default num_ctx
+    mlx: 8192,
+  },
+  maxContextShare: 0.5,
+  summarizerAgents: ['ollama', 'mlx', 'gemini'],
+  summaryTokens: 400,
+  rawDir: 'context',
+};
+
+/**
+ * Summarizes a step result to about maxTokens tokens
+ */
+export type ResultSummarizer = (text: string, step: PlanStep, maxTokens: number) => Promise<string>;
+
+// Rough estimate for mixed Polish/English text and JSON
+const CHARS_PER_TOKEN = 3.5;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split a text into parts of about maxTokens tokens (on line breaks where possible)
+ */
+export function splitByTokens(text: string, maxTokens: number): string[] {
+  const maxLength = Math.max(1, Math.floor(maxTokens * CHARS_PER_TOKEN));
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > maxLength) {
+    const lineBreak = rest.lastIndexOf('\n', maxLength);
+    const end = lineBreak > maxLength / 2 ? lineBreak : maxLength;
+    parts.push(rest.substring(0, end));
+    rest = rest.substring(end);
+  }
+  return rest.length > 0 ? [...parts, rest] : parts;
+}
+
+/**
+ * Merge compaction settings from magentic-config.json with defaults
+ */
+export function resolveContextCompaction(config?: Partial<ContextCompactionConfig>): ContextCompactionConfig {
+  return {
+    ...DEFAULT_CONTEXT_COMPACTION,
+    ...config,
+    contextWindows: { ...DEFAULT_CONTEXT_COMPACTION.contextWindows, ...config?.contextWindows },
+  };
+}
+
+/**
+ * Context window of a model: exact name, then the longest matching prefix, then the agent
+ */
+export function findContextWindow(windows: Record<string, number>, { agent, model }: StepFallback): number {
+  if (model && windows[model]) {
+    return windows[model];
+  }
+  const prefix = model
+    ? Object.keys(windows)
+        .filter((key) => model.startsWith(key))
+        .sort((a, b) => b.length - a.length)[0]
+    : undefined;
+  return prefix ? windows[prefix] : windows[agent];
+}
+
+/**
+ * Drop the tool-call history dump that Ollama/MLX results start with, keeping the final answer
+ */
+export function stripToolHistory(result: string): string {
+  const index = result.lastIndexOf(FINAL_ANSWER_MARKER);
+  return index === -1 ? result : result.substring(index + FINAL_ANSWER_MARKER.length).trim();
+}
+
+/**
+ * Keeps the task of a plan step within the context window of the model that runs it
+ * Results of dependencies are compacted oldest first: tool-call history is dropped,
+ * then results are summarized, and as a last resort truncated
+ */
+export class ContextCompactor {
+  constructor(private config: ContextCompactionConfig, private summarize: ResultSummarizer) {}
+
+  /**
+   * Build the step task, compacting dependency results when they do not fit
+   * Summaries are cached per execution (a result used by several steps is summarized once)
+   */
+  async buildTask(
+    executionId: string,
+    step: PlanStep,
+    dependencies: StepOutcome[],
+    target: StepFallback,
+    summaries: Map<number, string>
+  ): Promise<string> {
+    const task = buildStepTask(step, dependencies);
+    const budget = Math.floor(findContextWindow(this.config.contextWindows, target) * this.config.maxContextShare);
+    if (!this.config.enabled || !budget || estimateTokens(task) <= budget) {
+      return task;
+    }
+
+    console.log(`[ContextCompactor] Step ${step.step}: task ~${estimateTokens(task)} tokens exceeds ${budget} for ${target.model || target.agent}, compacting previous results`);
+    const originals = new Map(dependencies.map((dep) => [dep.step.step, dep]));
+    const compacted = [...dependencies].sort((a, b) => a.step.step - b.step.step);
+    const fits = () => estimateTokens(buildStepTask(step, compacted)) <= budget;
+
+    // 1. Tool-call history is the largest and least useful part of Ollama/MLX results
+    for (const [index, dep] of compacted.entries()) {
+      if (fits()) break;
+      const stripped = stripToolHistory(dep.result);
+      if (dep.output === undefined && stripped !== dep.result) {
+        compacted[index] = { ...dep, result: await this.withRawReference(executionId, dep, stripped) };
+      }
+    }
+
+    // 2. Summaries of older results first
+    for (const [index, dep] of compacted.entries()) {
+      if (fits()) break;
+      let summary = summaries.get(dep.step.step);
+      if (summary === undefined) {
+        summary = await this.summarizeDependency(executionId, originals.get(dep.step.step)!);
+        summaries.set(dep.step.step, summary);
+      }
+      compacted[index] = { ...dep, result: summary, output: undefined };
+    }
+
+    // 3. Whatever still does not fit is truncated evenly
+    if (!fits()) {
+      const descriptionTokens = estimateTokens(buildStepTask(step, []));
+      const perDependency = Math.max(0, Math.floor(((budget - descriptionTokens) / compacted.length) * CHARS_PER_TOKEN) - 200);
+      for (const [index, dep] of compacted.entries()) {
+        if (dep.result.length > perDependency) {
+          compacted[index] = { ...dep, result: `${dep.result.substring(0, perDependency)}... [skrócono]` };
+        }
+      }
+    }
+
+    return buildStepTask(step, compacted);
+  }
+
+  private async summarizeDependency(executionId: string, dep: StepOutcome): Promise<string> {
+    const original = dep.output !== undefined ? JSON.stringify(dep.output, null, 2) : dep.result;
+    const text = dep.output !== undefined ? original : stripToolHistory(original);
+
+    let summary: string;
+    try {
+      summary = await this.summarize(text, dep.step, this.config.summaryTokens);
+    } catch (error: any) {
+      console.warn(`[ContextCompactor] Could not summarize step ${dep.step.step} result (${error.message}), truncating`);
+      const maxLength = Math.floor(this.config.summaryTokens * CHARS_PER_TOKEN);
+      summary = text.length > maxLength ? `${text.substring(0, maxLength)}... [skrócono]` : text;
+    }
+
+    return this.withRawReference(executionId, dep, `[Streszczenie] ${summary.trim()}`);
+  }
+
+  /**
+   * Save the full result of a step on disk and point the compacted text at it
+   */
+  private async withRawReference(executionId: string, dep: StepOutcome, compacted: string): Promise<string> {
+    const filePath = path.join(this.config.rawDir, executionId, `step-${dep.step.step}.txt`);
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, dep.output !== undefined ? JSON.stringify(dep.output, null, 2) : dep.result, 'utf-8');
+    } catch (error) {
+      console.error(`[ContextCompactor] Failed to save full result of step ${dep.step.step}:`, error);
+      return compacted;
+    }
+    return `${compacted}\n[Pełny wynik: ${filePath}]`;
+  }
+}
@@ -0,0 +1,71 @@
+import { readFileSync } from 'fs';
+import { FakeAgent, FakeResponse } from './agents/fake-agent.js';
+import { Message, PlanStep, TokenUsage } from './types/index.js';
+
+/**
+ * Canned responses of the agents of a dry run, by agent
+ */
+export type DryRunScript = Partial<Record<PlanStep['agent'], FakeResponse[]>>;
+
+/**
+ * Settings of the dry run mode - every agent (manager included) answers from a script instead of its API
+ */
+export interface DryRunConfig {
+  enabled: boolean;
+  script?: string | DryRunScript; // Path of a JSON script or the script itself
+}
+
+export const DEFAULT_DRY_RUN: DryRunConfig = {
+  enabled: false,
+};
+
+/**
+ * Merge dry run settings from magentic-config.json with defaults
+ */
+export function resolveDryRun(config?: Partial<DryRunConfig>): DryRunConfig {
+  return { ...DEFAULT_DRY_RUN, ...config };
+}
+
+const DRY_RUN_PROVIDERS: Record<PlanStep['agent'], TokenUsage['provider']> = {
+  claude: 'anthropic',
+  manager: 'anthropic',
+  gemini: 'google',
+  ollama: 'ollama',
+  mlx: 'mlx',
+};
+
+// Plan used when the script has no more manager responses - one Claude step, so that a dry run without a script completes
+const DEFAULT_DRY_RUN_PLAN = {
+  goal: 'Dry run',
+  reasoning: 'Tryb testowy (dry run) - plan bez wywołania modelu',
+  steps: [{ step: 1, agent: 'claude', description: 'Wykonaj zadanie (dry run)' }],
+};
+
+/**
+ * Manager response once the script is used up: a plan for plan requests, a generic answer otherwise
+ */
+function managerFallback(messages: Message[]): string {
+  const request = messages[messages.length - 1]?.content;
+  return typeof request === 'string' && /plan wykonania/i.test(request)
+    ? JSON.stringify(DEFAULT_DRY_RUN_PLAN)
+    : '[dry run] Odpowiedź menedżera bez wywołania modelu';
+}
+
+/**
+ * Fake agents of a dry run
+ */
+export function createDryRunAgents(script: string | DryRunScript = {}): Record<PlanStep['agent'], FakeAgent> {
+  const responses: DryRunScript = typeof script === 'string' ? JSON.parse(readFileSync(script, 'utf-8')) : script;
+
+  const agents = {} as Record<PlanStep['agent'], FakeAgent>;
+  for (const name of Object.keys(DRY_RUN_PROVIDERS) as PlanStep['agent'][]) {
+    agents[name] = new FakeAgent({
+      name: `${name} (dry run)`,
+      responses: responses[name],
+      provider: DRY_RUN_PROVIDERS[name],
+      model: 'dry-run',
+      fallback: name === 'manager' ? managerFallback : undefined,
+    });
+  }
+  return agents;
+}
@@ -0,0 +1,85 @@
+import { FileAttachment, ToolCallRecord } from './types/index.js';
+import { UsageRecord, UsageSummary } from './usage.js';
+import { BudgetExceededEvent, BudgetViolation, ExecutionBudget } from './budget.js';
+import { ToolApprover } from './tool-approval.js';
+import { ArtifactStore } from './artifacts.js';
+
+export interface ExecutionContextOptions<TSession> {
+  id?: string;
+  files?: FileAttachment[];
+  session?: TSession;
+  budget?: ExecutionBudget; // Overrides the orchestrator's default budget
+  usageBefore?: UsageSummary; // Usage of earlier runs of a resumed execution (counts toward the budget)
+  onBudgetExceeded?: (event: BudgetExceededEvent) => void;
+  approver?: ToolApprover; // Decides about tool calls that require approval (rejected when missing)
+}
+
+/**
+ * State of a single execution (planned task run or chat message)
+ * Carried through the orchestrator so that concurrent executions never share
+ * tool-call records, abort state or files
+ */
+export class ExecutionContext<TSession = unknown> {
+  readonly id: string;
+  readonly toolCalls: ToolCallRecord[] = []; // Every tool call made during this execution
+  readonly usage: UsageRecord[] = []; // Token usage of every LLM request of this execution
+  readonly stepSummaries = new Map<number, string>(); // Compacted step results used as context, by step number
+  files: FileAttachment[];
+  session?: TSession; // Caller-owned session data (e.g. the UI execution record)
+  readonly budget?: ExecutionBudget;
+  readonly usageBefore?: UsageSummary; // Not in usage - records of this run only
+  readonly onBudgetExceeded?: (event: BudgetExceededEvent) => void;
+  readonly approver?: ToolApprover;
+  budgetExceeded?: BudgetViolation; // Set once a budget limit is reached
+  artifacts?: ArtifactStore; // Created with the first artifact of this execution
+  private abortController = new AbortController();
+  private abortReason?: Error;
+
+  constructor(options: ExecutionContextOptions<TSession> = {}) {
+    this.id = options.id || `run_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    this.files = options.files || [];
+    this.session = options.session;
+    this.budget = options.budget;
+    this.usageBefore = options.usageBefore;
+    this.onBudgetExceeded = options.onBudgetExceeded;
+    this.approver = options.approver;
+  }
+
+  /**
+   * True once abort() was called
+   */
+  get aborted(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  /**
+   * Signal cancelling in-flight requests of this execution
+   */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /**
+   * Error that aborted this execution (user abort unless another reason was given)
+   */
+  get abortError(): Error {
+    return this.abortReason || new Error('Execution aborted by user');
+  }
+
+  /**
+   * Abort this execution only
+   * In-flight LLM requests and MCP tool calls are cancelled immediately
+   */
+  abort(reason?: Error): void {
+    if (!this.aborted) {
+      this.abortReason = reason;
+    }
+    this.abortController.abort();
+  }
+
+  throwIfAborted(): void {
+    if (this.aborted) {
+      throw this.abortError;
+    }
+  }
+}
@@ -1,4 +1,39 @@
 export { MagenticOrchestrator } from './orchestrator.js';
-export { ClaudeAgent, GeminiAgent, ManagerAgent, MLXAgent } from './agents/index.js';
+export { ExecutionContext } from './execution-context.js';
+export { OrchestratorEvents } from './orchestrator-events.js';
+export type { OrchestratorEvent, OrchestratorEventListener, OrchestratorEventMap, OrchestratorEventType } from './orchestrator-events.js';
+export type { ExecutionContextOptions } from './execution-context.js';
+export { AgentLoop } from './agent-loop.js';
+export type { AgentLoopOptions, AgentLoopResult, StoredToolResult, ToolDispatcher } from './agent-loop.js';
+export { DEFAULT_RETRY_POLICY, classifyError, withRetry } from './retry-policy.js';
+export type { RetryPolicy, RetryableErrorClass } from './retry-policy.js';
+export { DEFAULT_PRICES, calculateCost, mergeUsageSummaries, summarizeUsage } from './usage.js';
+export type { ModelPrice, PriceTable, UsageRecord, UsageSummary, UsageTotals } from './usage.js';
+export { DEFAULT_DOWNGRADE_MODEL, checkBudget } from './budget.js';
+export type { BudgetExceededEvent, BudgetLimits, BudgetViolation, ExecutionBudget } from './budget.js';
+export { matchesToolPattern, requiresApproval } from './tool-approval.js';
+export type { ToolApprovalDecision, ToolApprovalRequest, ToolApprover } from './tool-approval.js';
+export { buildZodSchema, parseStructuredOutput, validateOutputSchema } from './structured-output.js';
+export type { StructuredOutputResult } from './structured-output.js';
+export { DEFAULT_CONTEXT_COMPACTION, ContextCompactor, estimateTokens } from './context-compaction.js';
+export type { ContextCompactionConfig, ResultSummarizer } from './context-compaction.js';
+export { DEFAULT_SYNTHESIS } from './synthesis.js';
+export type { SynthesisConfig } from './synthesis.js';
+export { DEFAULT_LEDGER_LIMITS } from './ledger-loop.js';
+export type { LedgerExecutionResult, LedgerLimits, LedgerStopReason } from './ledger-loop.js';
+export { DEFAULT_LOOP_DETECTION, ToolLoopDetector } from './loop-detection.js';
+export type { LoopDetectionConfig, ToolLoop, ToolLoopKind } from './loop-detection.js';
+export { ArtifactStore, DEFAULT_ARTIFACTS } from './artifacts.js';
+export type { Artifact, ArtifactConfig } from './artifacts.js';
+export { DEFAULT_TRACING, ExecutionTrace, TraceRecorder } from './tracing.js';
+export type { TraceSpan, TraceSpanKind, TracingConfig } from './tracing.js';
+export { DEFAULT_RECORDING, ProviderRecorder } from './recording.js';
+export type { CassetteInteraction, RecordingConfig, RecordingMode } from './recording.js';
+export { DEFAULT_DRY_RUN, createDryRunAgents } from './dry-run.js';
+export type { DryRunConfig, DryRunScript } from './dry-run.js';
+export { trimChatHistory } from './chat-history.js';
+export type { ChatTurn } from './chat-history.js';
+export { ClaudeAgent, FakeAgent, GeminiAgent, ManagerAgent, MLXAgent } from './agents/index.js';
+export type { FakeAgentConfig, FakeResponse } from './agents/index.js';
 export * from './types/index.js';
 export * from './tools/index.js';
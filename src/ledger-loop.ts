@@ -0,0 +1,158 @@
+import { LedgerTurn, PlanStep, ProgressLedger, TaskLedger } from './types/index.js';
+import { StepOutcome } from './plan-executor.js';
+
+/**
+ * Limits of the Magentic-One loop
+ */
+export interface LedgerLimits {
+  maxTurns: number; // Agent turns before the manager has to answer with what it has
+  maxStalls: number; // Turns in a row without progress (or in a loop) before re-planning
+  maxReplans: number; // Task ledger updates before the loop gives up
+}
+
+export const DEFAULT_LEDGER_LIMITS: LedgerLimits = {
+  maxTurns: 20,
+  maxStalls: 3,
+  maxReplans: 3,
+};
+
+/**
+ * Why the loop ended
+ */
+export type LedgerStopReason = 'satisfied' | 'max_turns' | 'stalled';
+
+/**
+ * Result of a task executed with the Magentic-One loop
+ */
+export interface LedgerExecutionResult {
+  answer: string;
+  ledger: TaskLedger; // Task ledger after the last re-planning
+  turns: LedgerTurn[];
+  stopReason: LedgerStopReason;
+}
+
+/**
+ * Runs an agent turn - receives the results of all earlier successful turns as context
+ */
+export type LedgerTurnRunner = (step: PlanStep, previous: StepOutcome[]) => Promise<string>;
+
+export interface LedgerLoopOptions {
+  createLedger: () => Promise<TaskLedger>;
+  updateLedger: (ledger: TaskLedger, turns: LedgerTurn[]) => Promise<TaskLedger>; // Re-planning after a stall
+  evaluateProgress: (ledger: TaskLedger, turns: LedgerTurn[]) => Promise<ProgressLedger>;
+  runTurn: LedgerTurnRunner;
+  finalAnswer: (ledger: TaskLedger, turns: LedgerTurn[], stopReason: LedgerStopReason) => Promise<string>;
+  isAborted?: () => boolean;
+  abortError?: () => any;
+  limits?: Partial<LedgerLimits>;
+  onLedger?: (ledger: TaskLedger, replan: number) => void | Promise<void>; // Initial ledger (0) and every re-planning
+  onProgress?: (progress: ProgressLedger, turn: number) => void | Promise<void>; // Evaluation before the given turn
+  onTurn?: (turn: LedgerTurn) => void | Promise<void>;
+}
+
+/**
+ * Agent turn as a plan step, so it runs like one (retries, fallbacks, budget, context compaction)
+ */
+export function toLedgerStep(turn: LedgerTurn, reasoning: string = ''): PlanStep {
+  return {
+    step: turn.turn,
+    description: turn.instruction,
+    agent: turn.agent,
+    model: turn.model,
+    reasoning,
+  };
+}
+
+/**
+ * Magentic-One style execution loop
+ * The manager keeps a task ledger (facts, guesses, plan) and after every agent turn
+ * fills in a progress ledger that decides who acts next and with what instruction.
+ * Turns without progress are counted; after maxStalls of them the task ledger is
+ * updated (re-planning) and the loop continues with the new plan.
+ */
+export class LedgerLoop {
+  private limits: LedgerLimits;
+  private turns: LedgerTurn[] = [];
+
+  constructor(private options: LedgerLoopOptions) {
+    this.limits = { ...DEFAULT_LEDGER_LIMITS, ...options.limits };
+  }
+
+  async run(): Promise<LedgerExecutionResult> {
+    let ledger = await this.options.createLedger();
+    await this.options.onLedger?.(ledger, 0);
+
+    let stalls = 0;
+    let replans = 0;
+    let stopReason: LedgerStopReason = 'max_turns';
+
+    while (this.turns.length < this.limits.maxTurns) {
+      this.throwIfAborted();
+
+      const turnNumber = this.turns.length + 1;
+      const progress = await this.options.evaluateProgress(ledger, this.turns);
+      await this.options.onProgress?.(progress, turnNumber);
+
+      if (progress.isRequestSatisfied.answer) {
+        stopReason = 'satisfied';
+        break;
+      }
+
+      stalls = progress.isInLoop.answer || !progress.isProgressBeingMade.answer ? stalls + 1 : Math.max(0, stalls - 1);
+      if (stalls >= this.limits.maxStalls) {
+        if (replans >= this.limits.maxReplans) {
+          console.log(`[LedgerLoop] No progress after ${replans} re-planning(s), stopping`);
+          stopReason = 'stalled';
+          break;
+        }
+        console.log(`[LedgerLoop] Stalled for ${stalls} turn(s), updating the task ledger`);
+        this.throwIfAborted();
+        ledger = await this.options.updateLedger(ledger, this.turns);
+        await this.options.onLedger?.(ledger, ++replans);
+        stalls = 0;
+        continue;
+      }
+
+      const turn: LedgerTurn = {
+        turn: turnNumber,
+        agent: progress.nextSpeaker.answer,
+        model: progress.nextModel,
+        instruction: progress.instructionOrQuestion.answer,
+      };
+      console.log(`[LedgerLoop] Turn ${turnNumber}: ${turn.agent}${turn.model ? ` (${turn.model})` : ''}`);
+
+      try {
+        turn.result = await this.options.runTurn(toLedgerStep(turn, progress.nextSpeaker.reason), this.getOutcomes());
+      } catch (error: any) {
+        if (error?.message === 'Execution aborted by user' || error?.isBudgetExceeded || this.options.isAborted?.()) {
+          throw error;
+        }
+        // The manager sees the error in the next evaluation and can pick another agent
+        turn.error = error?.message || String(error);
+        stalls++;
+      }
+
+      this.turns.push(turn);
+      await this.options.onTurn?.(turn);
+    }
+
+    this.throwIfAborted();
+    const answer = await this.options.finalAnswer(ledger, this.turns, stopReason);
+    return { answer, ledger, turns: this.turns, stopReason };
+  }
+
+  /**
+   * Successful turns as step outcomes (context of the next turn)
+   */
+  private getOutcomes(): StepOutcome[] {
+    return this.turns
+      .filter((turn) => turn.result !== undefined)
+      .map((turn) => ({ step: toLedgerStep(turn), result: turn.result! }));
+  }
+
+  private throwIfAborted(): void {
+    if (this.options.isAborted?.()) {
+      throw this.options.abortError?.() || new Error('Execution aborted by user');
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { ToolCallRecord } from './types/index.js';
+
+/**
+ * Thresholds of the tool loop detection in agent loops
+ */
+export interface LoopDetectionConfig {
+  enabled: boolean;
+  maxRepeatedCalls: number; // Identical calls (same tool and arguments) returning the same result
+  maxRepeatedErrors: number; // Identical tool errors in a row
+  maxNoProgressIterations: number; // Iterations in a row whose results were all seen before
+  maxCorrections: number; // Corrective messages before the run is stopped
+}
+
+export const DEFAULT_LOOP_DETECTION: LoopDetectionConfig = {
+  enabled: true,
+  maxRepeatedCalls: 3,
+  maxRepeatedErrors: 3,
+  maxNoProgressIterations: 3,
+  maxCorrections: 1,
+};
+
+/**
+ * Merge loop detection settings from magentic-config.json with defaults
+ */
+export function resolveLoopDetection(config?: Partial<LoopDetectionConfig>): LoopDetectionConfig {
+  return { ...DEFAULT_LOOP_DETECTION, ...config };
+}
+
+export type ToolLoopKind = 'repeated_call' | 'repeated_error' | 'no_progress';
+
+/**
+ * Detected tool loop
+ */
+export interface ToolLoop {
+  kind: ToolLoopKind;
+  toolName?: string; // Missing for 'no_progress'
+  count: number;
+  description: string; // Diagnostic for logs and the step error
+  correction: string; // Message for the model
+}
+
+/**
+ * JSON with sorted object keys - identical arguments give identical signatures
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? String(value);
+}
+
+function preview(text: string, maxLength = 200): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+}
+
+/**
+ * Error results: MCP results with isError, { error } objects of the dispatcher, rejected calls
+ */
+function isErrorResult(record: ToolCallRecord): boolean {
+  const { result } = record;
+  return record.approval === 'reject' || result?.isError === true || (!!result && typeof result === 'object' && 'error' in result);
+}
+
+/**
+ * Watches the tool calls of one agent run for loops typical of small local models:
+ * the same call repeated with the same result, the same error over and over,
+ * and iterations that bring nothing new
+ */
+export class ToolLoopDetector {
+  private calls = new Map<string, { result: string; count: number }>();
+  private seenResults = new Set<string>();
+  private errorStreak: { key: string; count: number } | null = null;
+  private noProgressIterations = 0;
+
+  constructor(private config: LoopDetectionConfig) {}
+
+  /**
+   * Record the tool calls of an iteration, returns the detected loop (if any)
+   */
+  observe(iterationCalls: ToolCallRecord[]): ToolLoop | null {
+    let repeatedCall: ToolLoop | null = null;
+    let repeatedError: ToolLoop | null = null;
+    let progress = false;
+
+    for (const record of iterationCalls) {
+      const args = stableStringify(record.input);
+      const signature = `${record.name}:${args}`;
+      const result = stableStringify(record.result);
+
+      const previous = this.calls.get(signature);
+      const count = previous && previous.result === result ? previous.count + 1 : 1;
+      this.calls.set(signature, { result, count });
+      if (count >= this.config.maxRepeatedCalls) {
+        repeatedCall = {
+          kind: 'repeated_call',
+          toolName: record.name,
+          count,
+          description: `${record.name} called ${count} times with identical arguments ${preview(args)} and the same result`,
+          correction: `Narzędzie ${record.name} zostało wywołane już ${count} razy z identycznymi argumentami i za każdym razem zwraca ten sam wynik. Nie powtarzaj tego wywołania - wykorzystaj otrzymany wynik, zmień argumenty lub podaj odpowiedź końcową.`,
+        };
+      }
+
+      if (isErrorResult(record)) {
+        const key = `${record.name}:${result}`;
+        this.errorStreak = { key, count: this.errorStreak?.key === key ? this.errorStreak.count + 1 : 1 };
+        if (this.errorStreak.count >= this.config.maxRepeatedErrors) {
+          repeatedError = {
+            kind: 'repeated_error',
+            toolName: record.name,
+            count: this.errorStreak.count,
+            description: `${record.name} returned the same error ${this.errorStreak.count} times in a row: ${preview(result)}`,
+            correction: `Narzędzie ${record.name} zwróciło ${this.errorStreak.count} razy z rzędu ten sam błąd. Nie ponawiaj wywołania w tej samej postaci - popraw argumenty, użyj innego narzędzia lub podaj odpowiedź końcową i opisz problem.`,
+          };
+        }
+      } else {
+        this.errorStreak = null;
+      }
+
+      if (!this.seenResults.has(`${signature}=${result}`)) {
+        this.seenResults.add(`${signature}=${result}`);
+        progress = true;
+      }
+    }
+
+    this.noProgressIterations = progress ? 0 : this.noProgressIterations + 1;
+
+    if (repeatedError || repeatedCall) {
+      return repeatedError || repeatedCall;
+    }
+    if (this.noProgressIterations >= this.config.maxNoProgressIterations) {
+      return {
+        kind: 'no_progress',
+        count: this.noProgressIterations,
+        description: `${this.noProgressIterations} iterations in a row returned no new tool results`,
+        correction: `Ostatnie ${this.noProgressIterations} iteracje wywołań narzędzi nie przyniosły żadnych nowych wyników. Nie wywołuj narzędzi w ten sam sposób - zmień podejście lub podaj odpowiedź końcową na podstawie zebranych informacji.`,
+      };
+    }
+    return null;
+  }
+}
+
+/**
+ * Error of an agent run stopped because the model kept looping after the corrective messages
+ */
+export function createToolLoopError(agentName: string, iteration: number, loop: ToolLoop, corrections: number): Error {
+  const error = new Error(
+    `Tool loop detected in ${agentName} at iteration ${iteration}: ${loop.description}. The model did not change its approach after ${corrections} corrective message(s).`
+  ) as any;
+  error.isToolLoop = true;
+  error.toolLoop = loop;
+  return error;
+}
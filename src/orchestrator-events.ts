@@ -0,0 +1,74 @@
+import { LedgerTurn, Plan, PlanRevision, PlanStep, ProgressLedger, TaskLedger, ToolCall, ToolCallRecord } from './types/index.js';
+import type { StepRetryEvent } from './orchestrator.js';
+import { UsageRecord, UsageSummary } from './usage.js';
+import { BudgetExceededEvent } from './budget.js';
+
+/**
+ * Payloads of orchestrator events by event type
+ */
+export interface OrchestratorEventMap {
+  plan_created: { plan: Plan };
+  plan_revised: { revision: PlanRevision };
+  step_started: { step: PlanStep };
+  step_completed: { step: PlanStep; agent: PlanStep['agent']; model?: string; usage: UsageSummary }; // agent - the one that produced the result
+  step_failed: { step: PlanStep; error: string };
+  step_retry: StepRetryEvent;
+  llm_call_started: { callId: string; agent: PlanStep['agent']; model?: string; step?: number; input?: string }; // input - newest message of the request
+  llm_call_finished: { callId: string; agent: PlanStep['agent']; model?: string; step?: number; durationMs: number; output?: string; error?: string };
+  usage_recorded: { record: UsageRecord; step?: number }; // Token usage of a single LLM request (several per call with tools)
+  tool_call_started: { agent: PlanStep['agent']; step?: number; toolCall: ToolCall };
+  tool_call_finished: { agent: PlanStep['agent']; step?: number; record: ToolCallRecord; durationMs: number };
+  rate_limit_wait: { retryAfter: number; attempt: number; maxRetries: number; step?: number }; // retryAfter in seconds
+  budget_exceeded: BudgetExceededEvent;
+  ledger_updated: { ledger: TaskLedger; replan: number }; // Initial task ledger (0) and every re-planning
+  ledger_progress: { progress: ProgressLedger; turn: number };
+  ledger_turn: { turn: LedgerTurn };
+}
+
+export type OrchestratorEventType = keyof OrchestratorEventMap;
+
+/**
+ * Event of an execution, e.g. { type: 'tool_call_started', executionId, timestamp, agent, toolCall }
+ */
+export type OrchestratorEvent<K extends OrchestratorEventType = OrchestratorEventType> = {
+  [T in K]: { type: T; executionId: string; timestamp: string } & OrchestratorEventMap[T];
+}[K];
+
+export type OrchestratorEventListener<K extends OrchestratorEventType = OrchestratorEventType> = (
+  event: OrchestratorEvent<K>
+) => void;
+
+/**
+ * Typed event stream of an orchestrator (web server, CLI and library users subscribe to the same events)
+ * Listeners run synchronously; an error in a listener is logged and never breaks the execution
+ */
+export class OrchestratorEvents {
+  private listeners = new Map<OrchestratorEventType | '*', Set<OrchestratorEventListener<any>>>();
+
+  /**
+   * Subscribe to all events or to one event type, returns the unsubscribe function
+   */
+  on(listener: OrchestratorEventListener): () => void;
+  on<K extends OrchestratorEventType>(type: K, listener: OrchestratorEventListener<K>): () => void;
+  on(typeOrListener: OrchestratorEventType | OrchestratorEventListener, listener?: OrchestratorEventListener<any>): () => void {
+    const type = typeof typeOrListener === 'function' ? '*' : typeOrListener;
+    const callback = typeof typeOrListener === 'function' ? typeOrListener : listener!;
+
+    const listeners = this.listeners.get(type) || new Set();
+    listeners.add(callback);
+    this.listeners.set(type, listeners);
+    return () => listeners.delete(callback);
+  }
+
+  emit<K extends OrchestratorEventType>(type: K, executionId: string, payload: OrchestratorEventMap[K]): void {
+    const event = { type, executionId, timestamp: new Date().toISOString(), ...payload } as OrchestratorEvent<K>;
+
+    for (const listener of [...(this.listeners.get(type) || []), ...(this.listeners.get('*') || [])]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`[OrchestratorEvents] Listener of ${type} failed:`, error);
+      }
+    }
+  }
+}
@@ -1,19 +1,89 @@
+import path from 'path';
 import { ClaudeAgent } from './agents/claude-agent.js';
 import { GeminiAgent } from './agents/gemini-agent.js';
 import { ManagerAgent } from './agents/manager-agent.js';
 import { OllamaAgent } from './agents/ollama-agent.js';
 import { MLXAgent } from './agents/mlx-agent.js';
 import {
+  Agent,
   Message,
   ToolCall,
-  ToolResult,
+  ToolCallRecord,
   Plan,
+  PlanRevision,
+  PlanStep,
+  TaskLedger,
+  ProgressLedger,
+  LedgerTurn,
+  StepAttempt,
+  StepFallback,
   MCPServerConfig,
   AgentConfig,
   FileAttachment,
-  AgentResponse,
+  StreamCallback,
+  AgentCallOptions,
+  TokenUsage,
 } from './types/index.js';
-import { getCrossAgentTools, getGeminiTools } from './tools/index.js';
+import { getArtifactTools, getCrossAgentTools, getGeminiTools, getToolResultTools } from './tools/index.js';
+import { AgentLoop, AgentLoopOptions, AgentLoopResult, StoredToolResult } from './agent-loop.js';
+import { ChatTurn, trimChatHistory } from './chat-history.js';
+import { LoopDetectionConfig } from './loop-detection.js';
+import { PlanExecutor, StepFailure, StepOutcome, validatePlan } from './plan-executor.js';
+import { LedgerExecutionResult, LedgerLimits, LedgerLoop, LedgerLoopOptions, LedgerStopReason } from './ledger-loop.js';
+import {
+  SynthesisConfig,
+  buildSynthesisStep,
+  joinStepResults,
+  prepareSynthesisOutcomes,
+  resolveSynthesis,
+} from './synthesis.js';
+import { RetryInfo, RetryPolicy, classifyError, resolveRetryPolicy, withRetry } from './retry-policy.js';
+import { ExecutionContext } from './execution-context.js';
+import { ArtifactConfig, ArtifactStore, describeArtifacts, resolveArtifacts, toolResultText } from './artifacts.js';
+import { OrchestratorEvents } from './orchestrator-events.js';
+import { TraceRecorder, TracingConfig, resolveTracing, traceText } from './tracing.js';
+import { ProviderRecorder, RecordingConfig, resolveRecording } from './recording.js';
+import { DryRunConfig, createDryRunAgents, resolveDryRun } from './dry-run.js';
+import { FakeAgent } from './agents/fake-agent.js';
+import {
+  PriceTable,
+  UsageRecord,
+  UsageSummary,
+  UsageTotals,
+  calculateCost,
+  resolvePriceTable,
+  summarizeUsage,
+} from './usage.js';
+import {
+  BudgetExceededEvent,
+  BudgetViolation,
+  DEFAULT_DOWNGRADE_MODEL,
+  DailyUsage,
+  ExecutionBudget,
+  Provider,
+  checkBudget,
+  checkDailyBudget,
+  createBudgetError,
+  describeViolation,
+  resolveBudget,
+} from './budget.js';
+import { ToolApprovalDecision, requiresApproval } from './tool-approval.js';
+import {
+  DEFAULT_STRUCTURED_OUTPUT_RETRIES,
+  buildCorrectionTask,
+  createOutputValidationError,
+  describeOutputSchema,
+  parseStructuredOutput,
+} from './structured-output.js';
+import {
+  ContextCompactionConfig,
+  ContextCompactor,
+  estimateTokens,
+  findContextWindow,
+  resolveContextCompaction,
+  splitByTokens,
+  stripToolHistory,
+} from './context-compaction.js';
 
 export interface OrchestratorConfig {
   anthropicApiKey: string;
@@ -26,6 +96,94 @@ export interface OrchestratorConfig {
   mlxConfig?: Partial<AgentConfig>;
   mlxBaseUrl?: string;
   managerPrompt?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+  // Default fallback chains per agent, used for steps without their own "fallback"
+  fallbackChains?: Partial<Record<PlanStep['agent'], StepFallback[]>>;
+  // Prices per million tokens, merged with DEFAULT_PRICES
+  pricing?: PriceTable;
+  // Default budget of every execution (executions can override it)
+  budget?: ExecutionBudget;
+  // Tool name patterns ("*" wildcards) of tool calls that wait for human approval
+  approvalToolPatterns?: string[];
+  // Corrections asked for when a step result does not match its outputSchema
+  structuredOutputRetries?: number;
+  // Compaction of previous step results that do not fit the context window of a step's model
+  contextCompaction?: Partial<ContextCompactionConfig>;
+  // Turn, stall and re-planning limits of the Magentic-One (ledger) execution mode
+  ledger?: Partial<LedgerLimits>;
+  // Closing phase of plan executions - the final answer written from the step results
+  synthesis?: Partial<SynthesisConfig>;
+  // Repeated tool calls, repeated tool errors and iterations without progress in agent tool loops
+  loopDetection?: Partial<LoopDetectionConfig>;
+  // Execution artifacts - files written by agents and oversized tool results (paged instead of truncated)
+  artifacts?: Partial<ArtifactConfig>;
+  // Trace files of executions (execution → step → LLM call → tool call spans, OTLP/JSON)
+  tracing?: Partial<TracingConfig>;
+  // Record provider calls (LLM APIs, MCP tools) to a cassette or replay them offline
+  recording?: Partial<RecordingConfig>;
+  // Dry run - every agent answers from a script of canned responses instead of its API (MCP servers stay real)
+  dryRun?: Partial<DryRunConfig>;
+}
+
+const AGENT_PROVIDERS: Record<PlanStep['agent'], Provider> = {
+  claude: 'anthropic',
+  manager: 'anthropic',
+  gemini: 'google',
+  ollama: 'ollama',
+  mlx: 'mlx',
+};
+
+/**
+ * Result of a single plan step execution
+ */
+export interface StepExecutionResult {
+  result: string;
+  toolCalls: ToolCallRecord[];
+  agent: PlanStep['agent']; // Agent that actually produced the result
+  model?: string;
+  attempts: StepAttempt[];
+  usage: UsageSummary; // Token usage of all attempts
+  output?: unknown; // Validated result of steps with outputSchema
+}
+
+/**
+ * Failed step attempt and what happens next
+ */
+export interface StepRetryEvent {
+  step: number;
+  attempt: StepAttempt;
+  action: 'retry' | 'fallback' | 'fail';
+  delayMs?: number; // Set for 'retry'
+  next?: StepFallback; // Set for 'fallback'
+}
+
+/**
+ * Optional callbacks for live progress of a step
+ */
+export interface StepListeners {
+  onToolCall?: (record: ToolCallRecord) => void;
+  onDelta?: StreamCallback; // Streamed response text
+  onRetry?: (event: StepRetryEvent) => void;
+  onUsage?: (record: UsageRecord) => void; // Every LLM request of the step, including failed attempts
+}
+
+/**
+ * Optional hooks of a ledger execution (runTurn replaces the default prepareStepTask + executeStep)
+ */
+export type LedgerHooks = Partial<Pick<LedgerLoopOptions, 'runTurn' | 'onLedger' | 'onProgress' | 'onTurn'>>;
+
+/**
+ * Options of a single agent run
+ */
+export interface AgentRunOptions {
+  step?: number; // Plan step the run belongs to (shown in approval requests)
+  files?: FileAttachment[];
+  model?: string; // Overrides the agent's configured model for this run only
+  onToolCall?: (record: ToolCallRecord) => void;
+  onDelta?: StreamCallback;
+  onUsage?: (record: UsageRecord) => void;
+  history?: Message[]; // Earlier conversation sent before the task (chat)
+  onTurn?: (messages: Message[]) => void; // Messages of this run after the task (tool calls, results, answer)
 }
 
 /**
@@ -33,16 +191,35 @@ export interface OrchestratorConfig {
  * Coordinates between Manager, Claude, Gemini, Ollama, and MLX agents
  */
 export class MagenticOrchestrator {
+  /** Typed events of all executions (plan, steps, LLM and tool calls, rate limits, ...) */
+  readonly events = new OrchestratorEvents();
+  /** Trace spans of executions, built from the events */
+  readonly tracing: TraceRecorder;
   private manager: ManagerAgent;
   private claude: ClaudeAgent;
   private gemini: GeminiAgent;
   private ollama: OllamaAgent | null = null;
   private mlx: MLXAgent | null = null;
   private conversationHistory: Message[] = [];
-  public aborted: boolean = false;
-  public currentStepToolCalls: Array<{ id: string; name: string; input: Record<string, any>; result?: any }> = [];
+  private retryPolicy: RetryPolicy;
+  private prices: PriceTable;
+  private dailyUsage = new DailyUsage();
+  private contextCompaction: ContextCompactionConfig;
+  private synthesis: SynthesisConfig;
+  private artifacts: ArtifactConfig;
+  private recorder: ProviderRecorder;
+  private dryRunAgents: Record<PlanStep['agent'], FakeAgent> | null = null;
+  private llmCallCount = 0;
 
   constructor(private config: OrchestratorConfig) {
+    this.retryPolicy = resolveRetryPolicy(config.retryPolicy);
+    this.prices = resolvePriceTable(config.pricing);
+    this.contextCompaction = resolveContextCompaction(config.contextCompaction);
+    this.synthesis = resolveSynthesis(config.synthesis);
+    this.artifacts = resolveArtifacts(config.artifacts);
+    this.tracing = new TraceRecorder(this.events, resolveTracing(config.tracing));
+    this.recorder = new ProviderRecorder(resolveRecording(config.recording));
+
     // Initialize Manager Agent with default Claude model from config and MCP servers
     const defaultClaudeModel = config.claudeConfig?.model || 'claude-sonnet-4-5-20250929';
     this.manager = new ManagerAgent(
@@ -57,24 +234,29 @@ export class MagenticOrchestrator {
       config.anthropicApiKey,
       {
         name: 'Claude',
-        tools: getCrossAgentTools(),
+        tools: [...getCrossAgentTools(), ...getToolResultTools(), ...getArtifactTools()],
         ...config.claudeConfig,
       },
       config.mcpServers || []
     );
 
-    // Initialize Gemini Agent with its specific tools
-    this.gemini = new GeminiAgent(config.googleApiKey, {
-      name: 'Gemini',
-      tools: getGeminiTools(),
-      ...config.geminiConfig,
-    });
+    // Initialize Gemini Agent with its specific tools and MCP support
+    this.gemini = new GeminiAgent(
+      config.googleApiKey,
+      {
+        name: 'Gemini',
+        tools: [...getGeminiTools(), ...getToolResultTools(), ...getArtifactTools()],
+        ...config.geminiConfig,
+      },
+      config.mcpServers || []
+    );
 
     // Initialize Ollama Agent if configured (with MCP support)
     if (config.ollamaConfig || config.ollamaBaseUrl) {
       this.ollama = new OllamaAgent(
         {
           name: 'Ollama',
+          tools: [...getToolResultTools(), ...getArtifactTools()],
           ...config.ollamaConfig,
         },
         config.ollamaBaseUrl,
@@ -87,12 +269,35 @@ export class MagenticOrchestrator {
       this.mlx = new MLXAgent(
         {
           name: 'MLX',
+          tools: [...getToolResultTools(), ...getArtifactTools()],
           ...config.mlxConfig,
         },
         config.mlxBaseUrl,
         config.mcpServers || []
       );
     }
+
+    // All agents record to (or replay from) the same cassette
+    for (const agent of [this.manager, this.claude, this.gemini, this.ollama, this.mlx]) {
+      agent?.setRecorder(this.recorder);
+    }
+
+    const dryRun = resolveDryRun(config.dryRun);
+    if (dryRun.enabled) {
+      this.dryRunAgents = createDryRunAgents(dryRun.script);
+      this.manager.setBackend(this.dryRunAgents.manager);
+      this.claude.setBackend(this.dryRunAgents.claude);
+      this.gemini.setBackend(this.dryRunAgents.gemini);
+      this.ollama?.setBackend(this.dryRunAgents.ollama);
+      this.mlx?.setBackend(this.dryRunAgents.mlx);
+    }
+  }
+
+  /**
+   * Scripted agent answering for an agent in dry run mode (its requests and unused responses)
+   */
+  getDryRunAgent(name: PlanStep['agent']): FakeAgent | undefined {
+    return this.dryRunAgents?.[name];
   }
 
   /**
@@ -101,11 +306,22 @@ export class MagenticOrchestrator {
   async initialize(): Promise<void> {
     console.log('[Orchestrator] Initializing...');
 
+    if (this.recorder.mode === 'record') {
+      console.log(`[Orchestrator] Recording provider calls to ${this.recorder.cassette}`);
+    }
+    await this.recorder.load();
+
+    if (this.dryRunAgents) {
+      console.log('[Orchestrator] Dry run - agents answer from a script, no provider API calls');
+    }
+
     // Initialize Manager MCP for schema fetching
     await this.manager.initializeMCP();
 
     await this.claude.initializeMCP();
 
+    await this.gemini.initializeMCP();
+
     // Initialize Ollama MCP if configured
     if (this.ollama) {
       await this.ollama.initializeMCP();
@@ -119,6 +335,15 @@ export class MagenticOrchestrator {
     console.log('[Orchestrator] Initialized successfully');
   }
 
+  /**
+   * Create an execution plan with the manager (cancelled by aborting the context)
+   */
+  async createPlan(task: string, context: ExecutionContext = new ExecutionContext()): Promise<Plan> {
+    const plan = await this.callManager(context, (options) => this.manager.createPlan(task, options), task);
+    this.events.emit('plan_created', context.id, { plan });
+    return plan;
+  }
+
   /**
    * Set the Claude model for the next execution
    */
@@ -137,6 +362,8 @@ export class MagenticOrchestrator {
 
     await this.claude.closeMCP();
 
+    await this.gemini.closeMCP();
+
     // Cleanup Ollama MCP if configured
     if (this.ollama) {
       await this.ollama.closeMCP();
@@ -155,650 +382,1078 @@ export class MagenticOrchestrator {
    */
   async executeTask(task: string, autoMode: boolean = false): Promise<string> {
     console.log(`\n[Orchestrator] Received task: ${task}`);
+    const context = new ExecutionContext();
+    await this.tracing.start(context.id, { 'execution.task': task });
+
+    try {
+      // Step 1: Create a plan
+      console.log('[Orchestrator] Creating execution plan...');
+      const plan = await this.createPlan(task, context);
+      console.log('[Orchestrator] Plan created:');
+      console.log(JSON.stringify(plan, null, 2));
+
+      if (!autoMode) {
+        // In manual mode, return the plan for user approval
+        await this.tracing.finish(context.id, 'ok');
+        return this.formatPlan(plan);
+      }
 
-    // Step 1: Create a plan
-    console.log('[Orchestrator] Creating execution plan...');
-    const plan = await this.manager.createPlan(task);
-    console.log('[Orchestrator] Plan created:');
-    console.log(JSON.stringify(plan, null, 2));
-
-    if (!autoMode) {
-      // In manual mode, return the plan for user approval
-      return this.formatPlan(plan);
+      // Step 2: Execute the plan
+      const result = await this.executePlan(plan, context);
+      await this.tracing.finish(context.id, 'ok');
+      return result;
+    } catch (error: any) {
+      await this.tracing.finish(context.id, 'error', error?.message || String(error));
+      throw error;
     }
-
-    // Step 2: Execute the plan
-    return await this.executePlan(plan);
   }
 
   /**
    * Execute a pre-approved plan
+   * Independent steps (see PlanStep.dependsOn) run concurrently
    */
-  async executePlan(plan: Plan): Promise<string> {
-    console.log('\n[Orchestrator] Executing plan...');
-    const results: string[] = [];
-
-    for (const step of plan.steps) {
-      console.log(`\n[Orchestrator] Step ${step.step}: ${step.description}`);
-      console.log(`[Orchestrator] Agent: ${step.agent}`);
-      if (step.model) {
-        console.log(`[Orchestrator] Model: ${step.model}`);
-      }
+  async executePlan(plan: Plan, context: ExecutionContext = new ExecutionContext()): Promise<string> {
+    console.log(`\n[Orchestrator] Executing plan (${context.id})...`);
+
+    let revisionCount = 0;
+    const executor = new PlanExecutor(plan, {
+      isAborted: () => context.aborted,
+      abortError: () => context.abortError,
+      runStep: async (step, dependencies) => {
+        console.log(`\n[Orchestrator] Step ${step.step}: ${step.description}`);
+        const stepTask = await this.prepareStepTask(context, step, dependencies);
+        const { result, output } = await this.executeStep(context, step, stepTask);
+        console.log(`[Orchestrator] Step ${step.step} completed`);
+        return { result, output };
+      },
+      replan: async (failure) => {
+        const revision = await this.revisePlan(failure, ++revisionCount, context);
+        return revision.steps;
+      },
+    });
 
-      let result: string;
+    const outcomes = await executor.run();
+    console.log('\n[Orchestrator] Plan execution completed');
 
-      switch (step.agent) {
-        case 'claude':
-          // Set Claude model if specified in step
-          if (step.model && this.claude) {
-            this.claude.setModel(step.model);
-          }
-          result = await this.executeWithClaude(step.description);
-          break;
-        case 'gemini':
-          // Note: Gemini model selection not implemented yet
-          result = await this.executeWithGemini(step.description);
-          break;
-        case 'ollama':
-          // Set Ollama model if specified in step
-          if (step.model && this.ollama) {
-            this.ollama.setModel(step.model);
-          }
-          result = await this.executeWithOllama(step.description);
-          break;
-        case 'mlx':
-          // Set MLX model if specified in step
-          if (step.model && this.mlx) {
-            this.mlx.setModel(step.model);
-          }
-          result = await this.executeWithMLX(step.description);
-          break;
-        case 'manager':
-          result = await this.executeWithManager(step.description);
-          break;
-        default:
-          result = `Unknown agent: ${step.agent}`;
-      }
+    const synthesis = await this.synthesizeAnswer(context, plan.goal, outcomes);
+    return synthesis ? synthesis.result : joinStepResults(outcomes);
+  }
 
-      results.push(`Step ${step.step} (${step.agent}): ${result}`);
-      console.log(`[Orchestrator] Step ${step.step} completed`);
+  /**
+   * Write the final answer to the task from the step results (closing phase of a plan execution)
+   * Returns null when synthesis is disabled or failed - the raw step results are the result then
+   */
+  async synthesizeAnswer(
+    context: ExecutionContext,
+    task: string,
+    outcomes: StepOutcome[],
+    listeners: StepListeners = {}
+  ): Promise<StepExecutionResult | null> {
+    if (!this.synthesis.enabled || outcomes.length === 0) {
+      return null;
     }
 
-    const finalResult = results.join('\n\n');
-    console.log('\n[Orchestrator] Plan execution completed');
-    return finalResult;
+    const step = buildSynthesisStep(task, outcomes, this.synthesis);
+    console.log(`[Orchestrator] Writing the final answer with ${step.agent}${step.model ? ` (${step.model})` : ''}...`);
+    try {
+      const synthesisTask = await this.prepareStepTask(context, step, prepareSynthesisOutcomes(outcomes));
+      return await this.executeStep(context, step, synthesisTask, undefined, listeners);
+    } catch (error: any) {
+      if (error?.message === 'Execution aborted by user' || error?.isBudgetExceeded || context.aborted) {
+        throw error;
+      }
+      console.warn(`[Orchestrator] Final answer synthesis failed (${error?.message || error}), returning raw step results`);
+      return null;
+    }
   }
 
   /**
-   * Execute Claude request with automatic rate limit retry
+   * Execute a task with the Magentic-One loop instead of a fixed plan
+   * The manager keeps a task ledger and picks the next agent after every turn
    */
-  private async executeClaudeWithRetry(
-    messages: Message[],
-    toolResults: ToolResult[] = [],
-    maxRetries: number = 3
-  ): Promise<AgentResponse> {
-    let lastError: any = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        if (toolResults.length > 0) {
-          return await this.claude.executeWithTools(messages, toolResults);
-        } else {
-          return await this.claude.execute(messages);
-        }
-      } catch (error: any) {
-        lastError = error;
-
-        // Check if it's a rate limit error
-        if (error.isRateLimit && error.retryAfter) {
-          const retryAfter = error.retryAfter;
-          console.log(`[Orchestrator] Rate limit hit. Waiting ${retryAfter} seconds before retry (attempt ${attempt}/${maxRetries})...`);
-
-          // Broadcast rate limit info to UI
-          if (typeof (global as any).rateLimitCallback === 'function') {
-            (global as any).rateLimitCallback(retryAfter, attempt, maxRetries);
-          }
+  async executeWithLedger(
+    task: string,
+    context: ExecutionContext = new ExecutionContext(),
+    hooks: LedgerHooks = {}
+  ): Promise<LedgerExecutionResult> {
+    console.log(`\n[Orchestrator] Executing task with ledger loop (${context.id})...`);
+
+    const loop = new LedgerLoop({
+      limits: this.config.ledger,
+      isAborted: () => context.aborted,
+      abortError: () => context.abortError,
+      createLedger: () => this.createTaskLedger(task, context),
+      updateLedger: (ledger, turns) => this.updateTaskLedger(task, ledger, turns, context),
+      evaluateProgress: (ledger, turns) => this.evaluateProgress(task, ledger, turns, context),
+      finalAnswer: (ledger, turns, stopReason) => this.writeFinalAnswer(task, ledger, turns, stopReason, context),
+      runTurn: hooks.runTurn || (async (step, previous) => {
+        const stepTask = await this.prepareStepTask(context, step, previous);
+        const { result } = await this.executeStep(context, step, stepTask);
+        return result;
+      }),
+      onLedger: (ledger, replan) => {
+        this.events.emit('ledger_updated', context.id, { ledger, replan });
+        return hooks.onLedger?.(ledger, replan);
+      },
+      onProgress: (progress, turn) => {
+        this.events.emit('ledger_progress', context.id, { progress, turn });
+        return hooks.onProgress?.(progress, turn);
+      },
+      onTurn: (turn) => {
+        this.events.emit('ledger_turn', context.id, { turn });
+        return hooks.onTurn?.(turn);
+      },
+    });
 
-          // Wait for the specified time
-          await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
+    const result = await loop.run();
+    console.log(`[Orchestrator] Ledger loop finished after ${result.turns.length} turn(s): ${result.stopReason}`);
+    return result;
+  }
 
-          // Check for abort during wait
-          if (this.aborted) {
-            throw new Error('Execution aborted by user');
-          }
+  /**
+   * Create the task ledger of a ledger execution with the manager
+   */
+  async createTaskLedger(task: string, context: ExecutionContext = new ExecutionContext()): Promise<TaskLedger> {
+    return this.callManager(context, (options) => this.manager.createTaskLedger(task, options), task);
+  }
 
-          // Try again
-          continue;
-        }
+  /**
+   * Re-plan a stalled ledger execution
+   */
+  async updateTaskLedger(
+    task: string,
+    ledger: TaskLedger,
+    turns: LedgerTurn[],
+    context: ExecutionContext = new ExecutionContext()
+  ): Promise<TaskLedger> {
+    return this.callManager(context, (options) => this.manager.updateTaskLedger(task, ledger, turns, options), task);
+  }
 
-        // If it's not a rate limit error, throw immediately
-        throw error;
-      }
-    }
+  /**
+   * Let the manager evaluate progress and pick the next agent turn
+   */
+  async evaluateProgress(
+    task: string,
+    ledger: TaskLedger,
+    turns: LedgerTurn[],
+    context: ExecutionContext = new ExecutionContext()
+  ): Promise<ProgressLedger> {
+    return this.callManager(context, (options) => this.manager.evaluateProgress(task, ledger, turns, options), task);
+  }
 
-    // If we exhausted all retries, throw the last error
-    throw lastError || new Error('Failed to execute Claude request after retries');
+  /**
+   * Final answer of a ledger execution (also when it ran out of turns or stalled)
+   */
+  async writeFinalAnswer(
+    task: string,
+    ledger: TaskLedger,
+    turns: LedgerTurn[],
+    stopReason: LedgerStopReason,
+    context: ExecutionContext = new ExecutionContext()
+  ): Promise<string> {
+    return this.callManager(
+      context,
+      (options) => this.manager.writeFinalAnswer(task, ledger, turns, stopReason === 'satisfied', options),
+      task
+    );
   }
 
   /**
-   * Execute a task with Claude agent (with tool handling and rate limit retry)
+   * Manager request within the budget of an execution (cancelled by aborting the context)
    */
-  async executeWithClaude(task: string, files?: FileAttachment[]): Promise<string> {
-    // Check for abort at the start
-    if (this.aborted) {
-      throw new Error('Execution aborted by user');
+  private async callManager<T>(
+    context: ExecutionContext,
+    request: (options: AgentCallOptions) => Promise<T>,
+    input?: string
+  ): Promise<T> {
+    this.assertBudget(context, 'anthropic');
+    try {
+      return await this.trackLLMCall(
+        context,
+        { agent: 'manager' },
+        () =>
+          request({
+            signal: context.signal,
+            onUsage: (usage) => this.recordUsage(context, usage),
+          }),
+        input
+      );
+    } catch (error) {
+      throw this.toAbortError(context, error);
     }
-
-    // Simple approach: let Claude handle tool calls internally
-    // We just provide tool executors and Claude manages its own message history
-    const result = await this.executeClaudeWithToolHandling(task, files);
-    return result;
   }
 
   /**
-   * Truncate long tool results to prevent context overflow
+   * Ask the manager for a revised remainder of the plan after a step failure
    */
-  private truncateToolResult(result: any, maxLength: number = 10000): string {
-    const resultStr = typeof result === 'string' ? result : JSON.stringify(result);
+  async revisePlan(
+    failure: StepFailure,
+    revisionNumber: number,
+    context: ExecutionContext = new ExecutionContext()
+  ): Promise<PlanRevision> {
+    const error = failure.error?.message || String(failure.error);
+    console.log(`[Orchestrator] Step ${failure.step.step} failed (${error}). Asking manager for a revised plan...`);
+
+    const { reasoning, steps } = await this.callManager(context, (options) =>
+      this.manager.revisePlan(failure.plan, failure.step, error, failure.completed, failure.remaining, options)
+    );
 
-    if (resultStr.length <= maxLength) {
-      return resultStr;
+    const revision: PlanRevision = {
+      revision: revisionNumber,
+      failedStep: failure.step.step,
+      error,
+      reasoning,
+      replacedSteps: [failure.step, ...failure.remaining],
+      steps,
+      createdAt: new Date().toISOString(),
+    };
+
+    // A revision that would not run (e.g. dangling dependsOn) is dropped before anyone sees it - the step failure stands
+    try {
+      validatePlan({ ...failure.plan, steps: [...failure.completed.map((outcome) => outcome.step), ...steps] });
+    } catch (validationError: any) {
+      console.error(`[Orchestrator] Plan revision ${revisionNumber} is invalid: ${validationError.message}`);
+      return { ...revision, steps: [] };
     }
 
-    const truncated = resultStr.substring(0, maxLength);
-    const suffix = `\n\n[... skrócono ${resultStr.length - maxLength} znaków. Pełny wynik był za długi (${resultStr.length} znaków). Zadaj bardziej precyzyjne zapytanie aby uzyskać szczegóły.]`;
+    console.log(`[Orchestrator] Plan revision ${revisionNumber}: ${steps.length} new step(s)`);
 
-    return truncated + suffix;
+    this.events.emit('plan_revised', context.id, { revision });
+    return revision;
   }
 
   /**
-   * Execute Claude with automatic tool handling
+   * Execute a single plan step with the agent (and model) assigned to it
+   * Retryable errors are retried according to the retry policy, then the
+   * step falls back to the next agent of its fallback chain
    */
-  private async executeClaudeWithToolHandling(task: string, files?: FileAttachment[]): Promise<string> {
-    const messages: Message[] = [{ role: 'user', content: task, files }];
-    let toolCallIterations = 0;
-    const MAX_TOOL_ITERATIONS = 20;
-
-    while (true) {
-      // Check for abort
-      if (this.aborted) {
-        throw new Error('Execution aborted by user');
-      }
-
-      // Prevent infinite loops
-      if (toolCallIterations >= MAX_TOOL_ITERATIONS) {
-        throw new Error(`Maximum tool call iterations (${MAX_TOOL_ITERATIONS}) exceeded. Task may be too complex or model is stuck in a loop. Try breaking the task into smaller steps.`);
-      }
-
-      // Debug: Log message structure before calling Claude
-      console.log(`[Orchestrator] Iteration ${toolCallIterations + 1}: Calling Claude with ${messages.length} messages: [${messages.map(m => m.role).join(', ')}]`);
+  async executeStep(
+    context: ExecutionContext,
+    step: PlanStep,
+    task: string,
+    files?: FileAttachment[],
+    listeners: StepListeners = {}
+  ): Promise<StepExecutionResult> {
+    const { onDelta } = listeners;
+    this.assertBudget(context, AGENT_PROVIDERS[step.agent], step.step, step.agent === 'claude');
+    this.events.emit('step_started', context.id, { step });
+
+    const onRetry = (event: StepRetryEvent) => {
+      this.events.emit('step_retry', context.id, event);
+      listeners.onRetry?.(event);
+    };
 
-      // Get response from Claude (with rate limit retry)
-      const response = await this.executeClaudeWithRetry(messages);
+    const candidates: StepFallback[] = [
+      { agent: step.agent, model: step.model },
+      ...(step.fallback || this.config.fallbackChains?.[step.agent] || []),
+    ];
+    const attempts: StepAttempt[] = [];
+    const usage: UsageRecord[] = [];
+    let lastError: any = null;
 
-      // If no tool calls, we're done
-      if (!response.toolCalls || response.toolCalls.length === 0) {
-        return response.content;
+    for (const [index, planned] of candidates.entries()) {
+      if (index > 0) {
+        this.assertBudget(context, AGENT_PROVIDERS[planned.agent], step.step, planned.agent === 'claude');
       }
+      const candidate = this.applyBudgetDowngrade(context, planned);
+      // Only Claude receives files - fallbacks to other agents run without them
+      const candidateFiles = index === 0 || candidate.agent === 'claude' ? files : undefined;
+      let toolCalls: ToolCallRecord[] = [];
+      let currentAttempt = 0;
 
-      // We have tool calls - increment counter and process them
-      toolCallIterations++;
-      console.log(`[Orchestrator] Processing ${response.toolCalls.length} tool call(s) (iteration ${toolCallIterations})`);
-
-      // Execute all tool calls
-      const toolResults: ToolResult[] = [];
-      for (const toolCall of response.toolCalls) {
-        console.log(`[Claude] Tool call: ${toolCall.name}`);
-
-        let toolResult: any;
-
-        if (toolCall.name === 'invoke_gemini') {
-          const geminiTask = toolCall.input.task as string;
-          const context = toolCall.input.context as string | undefined;
-          const fullTask = context ? `${geminiTask}\n\nContext: ${context}` : geminiTask;
-          toolResult = await this.executeWithGemini(fullTask);
-        } else if (toolCall.name === 'invoke_claude') {
-          const claudeTask = toolCall.input.task as string;
-          toolResult = await this.executeWithClaude(claudeTask);
-        } else if (toolCall.name.startsWith('mcp_')) {
-          toolResult = await this.claude.executeMCPTool(toolCall.name, toolCall.input);
-        } else {
-          toolResult = { error: `Unknown tool: ${toolCall.name}` };
+      try {
+        const { result, output } = await withRetry(
+          async (attempt) => {
+            currentAttempt = attempt;
+            toolCalls = [];
+            try {
+              return await this.runStructuredStep(context, step, candidate, task, {
+                step: step.step,
+                files: candidateFiles,
+                model: candidate.model,
+                onToolCall: (record) => {
+                  toolCalls.push(record);
+                  listeners.onToolCall?.(record);
+                },
+                onDelta,
+                onUsage: (record) => {
+                  usage.push(record);
+                  listeners.onUsage?.(record);
+                },
+              });
+            } catch (error: any) {
+              attempts.push({
+                ...candidate,
+                attempt,
+                error: error?.message || String(error),
+                errorClass: classifyError(error) || undefined,
+              });
+              throw error;
+            }
+          },
+          this.retryPolicy,
+          {
+            isAborted: () => context.aborted,
+            signal: context.signal,
+            onRetry: (info) => {
+              const { attempt, maxAttempts, delayMs, errorClass } = info;
+              if (errorClass === 'rate_limit') {
+                this.emitRateLimitWait(context, info, step.step);
+              }
+              console.log(`[Orchestrator] Step ${step.step} (${candidate.agent}) failed with ${errorClass} error. Retrying in ${delayMs}ms (attempt ${attempt}/${maxAttempts})...`);
+              onRetry({ step: step.step, attempt: attempts[attempts.length - 1], action: 'retry', delayMs });
+            },
+          }
+        );
+
+        attempts.push({ ...candidate, attempt: currentAttempt });
+        const stepUsage = summarizeUsage(usage);
+        this.events.emit('step_completed', context.id, { step, agent: candidate.agent, model: candidate.model, usage: stepUsage });
+        return {
+          result,
+          toolCalls,
+          agent: candidate.agent,
+          model: candidate.model,
+          attempts,
+          usage: stepUsage,
+          output,
+        };
+      } catch (error: any) {
+        lastError = error;
+        if (error?.message === 'Execution aborted by user' || context.aborted) {
+          const abortError = this.toAbortError(context, error);
+          this.events.emit('step_failed', context.id, { step, error: abortError?.message || String(abortError) });
+          throw abortError;
         }
 
-        // Track tool call for UI
-        this.currentStepToolCalls.push({
-          id: toolCall.id,
-          name: toolCall.name,
-          input: toolCall.input,
-          result: toolResult
-        });
-
-        toolResults.push({
-          toolCallId: toolCall.id,
-          output: toolResult,
-        });
+        const next = candidates[index + 1];
+        if (next) {
+          console.log(`[Orchestrator] Step ${step.step}: ${candidate.agent} failed, falling back to ${next.agent}${next.model ? ` (${next.model})` : ''}`);
+        }
+        onRetry({ step: step.step, attempt: attempts[attempts.length - 1], action: next ? 'fallback' : 'fail', next });
       }
+    }
 
-      // Build next messages array with proper structure for Claude API
-      // The pattern must be: user -> assistant (with tool_use) -> user (with tool_result)
-
-      // Add the assistant's response that contains tool_use blocks
-      const assistantMessage = {
-        role: 'assistant' as const,
-        content: response.rawContent || response.content
-      };
-      console.log(`[Orchestrator] Adding assistant message with ${Array.isArray(assistantMessage.content) ? assistantMessage.content.length : 1} content block(s)`);
-      messages.push(assistantMessage);
+    this.events.emit('step_failed', context.id, { step, error: lastError?.message || String(lastError) });
+    throw lastError;
+  }
 
-      // Add tool results as user message (with truncation to prevent context overflow)
-      const userMessage = {
-        role: 'user' as const,
-        content: toolResults.map(tr => ({
-          type: 'tool_result',
-          tool_use_id: tr.toolCallId,
-          content: this.truncateToolResult(tr.output, 10000)
-        })) as any
-      };
-      console.log(`[Orchestrator] Adding user message with ${toolResults.length} tool result(s)`);
-      messages.push(userMessage);
+  /**
+   * Build the task of a plan step with the results of its dependencies as context
+   * Results that do not fit the context window of the step's model are compacted
+   */
+  async prepareStepTask(context: ExecutionContext, step: PlanStep, dependencies: StepOutcome[]): Promise<string> {
+    const compactor = new ContextCompactor(this.contextCompaction, (text, dependency, maxTokens) =>
+      this.summarizeStepResult(context, text, dependency, maxTokens)
+    );
+    const target = { agent: step.agent, model: step.model || this.getDefaultModel(step.agent) };
+    const task = await compactor.buildTask(context.id, step, dependencies, target, context.stepSummaries);
+    context.throwIfAborted();
+    // Artifacts written by earlier steps (read with read_artifact)
+    return task + describeArtifacts(context.artifacts?.list() || []);
+  }
 
-      console.log(`[Orchestrator] Messages array now has ${messages.length} messages with roles: [${messages.map(m => m.role).join(', ')}]`);
+  private getAgent(agent: PlanStep['agent']): Agent | null {
+    const agents: Record<PlanStep['agent'], Agent | null> = {
+      claude: this.claude,
+      gemini: this.gemini,
+      manager: this.manager,
+      ollama: this.ollama,
+      mlx: this.mlx,
+    };
+    return agents[agent];
+  }
 
-      // Loop continues - next iteration will call Claude with updated messages
-    }
+  private getAgentName(agent: Agent): PlanStep['agent'] {
+    const names: PlanStep['agent'][] = ['claude', 'gemini', 'manager', 'ollama', 'mlx'];
+    return names.find((name) => this.getAgent(name) === agent) || 'claude';
   }
 
   /**
-   * Execute a task with Gemini agent (with tool handling)
+   * Report an LLM call (agent loop request, manager request, summary) as llm_call_started / llm_call_finished
    */
-  async executeWithGemini(task: string, files?: FileAttachment[]): Promise<string> {
-    // Check for abort at the start
-    if (this.aborted) {
-      throw new Error('Execution aborted by user');
+  private async trackLLMCall<T>(
+    context: ExecutionContext,
+    info: { agent: PlanStep['agent']; model?: string; step?: number },
+    call: () => Promise<T>,
+    input?: string
+  ): Promise<T> {
+    const callId = `llm_${++this.llmCallCount}`;
+    const startedAt = Date.now();
+    this.events.emit('llm_call_started', context.id, { callId, ...info, input });
+    try {
+      const result = await call();
+      this.events.emit('llm_call_finished', context.id, {
+        callId,
+        ...info,
+        durationMs: Date.now() - startedAt,
+        output: traceText(result),
+      });
+      return result;
+    } catch (error: any) {
+      this.events.emit('llm_call_finished', context.id, {
+        callId,
+        ...info,
+        durationMs: Date.now() - startedAt,
+        error: this.toAbortError(context, error)?.message || String(error),
+      });
+      throw error;
     }
+  }
 
-    const messages: Message[] = [{ role: 'user', content: task, files }];
-    let response = await this.gemini.execute(messages);
-    let result = response.content;
+  private getDefaultModel(agent: PlanStep['agent']): string | undefined {
+    switch (agent) {
+      case 'claude':
+        return this.claude.getModel();
+      case 'gemini':
+        return this.gemini.getModel();
+      case 'ollama':
+        return this.ollama?.getModel();
+      case 'mlx':
+        return this.mlx?.getModel();
+      default:
+        return undefined;
+    }
+  }
 
-    // Handle tool calls
-    while (response.toolCalls && response.toolCalls.length > 0) {
-      const toolResults: ToolResult[] = [];
+  /**
+   * Summarize a step result used as context of later steps, on the first available
+   * summarizer agent (local models first). Texts larger than the summarizer's own
+   * context window are summarized in parts.
+   */
+  private async summarizeStepResult(
+    context: ExecutionContext,
+    text: string,
+    step: PlanStep,
+    maxTokens: number
+  ): Promise<string> {
+    let lastError: any = new Error('No summarizer agent is available');
+
+    for (const name of this.contextCompaction.summarizerAgents) {
+      const agent = this.getAgent(name);
+      if (!agent) continue;
+
+      const window = findContextWindow(this.contextCompaction.contextWindows, { agent: name, model: this.getDefaultModel(name) });
+      const parts = splitByTokens(text, Math.floor(window * this.contextCompaction.maxContextShare));
+      try {
+        const summaries: string[] = [];
+        for (const part of parts) {
+          context.throwIfAborted();
+          const response = await this.trackLLMCall(context, { agent: name, model: this.getDefaultModel(name), step: step.step }, () =>
+            agent.execute(
+              [{
+                role: 'user',
+                content: `Streść wynik kroku "${step.description}"${parts.length > 1 ? ` (część ${summaries.length + 1} z ${parts.length})` : ''} w maksymalnie ok. ${Math.round(maxTokens / parts.length)} tokenach. Zachowaj wszystkie konkretne dane: liczby, nazwy, identyfikatory, daty i wnioski. Odpowiedz samym streszczeniem.\n\n--- WYNIK ---\n${part}\n--- KONIEC WYNIKU ---`,
+              }],
+              { signal: context.signal, onUsage: (usage) => this.recordUsage(context, usage, undefined, step.step) }
+            ),
+            part
+          );
+          if (!response.content.trim()) {
+            throw new Error(`${name} returned an empty summary`);
+          }
+          summaries.push(response.content.trim());
+        }
+        console.log(`[Orchestrator] Step ${step.step} result summarized by ${name} (${parts.length} part(s))`);
+        return summaries.join('\n');
+      } catch (error) {
+        if (context.aborted) {
+          throw this.toAbortError(context, error);
+        }
+        lastError = error;
+      }
+    }
 
-      for (const toolCall of response.toolCalls) {
-        console.log(`[Gemini] Tool call: ${toolCall.name}`);
+    throw lastError;
+  }
 
-        let toolResult: any;
+  /**
+   * Run a step task and, for steps with outputSchema, validate the answer
+   * An answer that does not match is sent back to the agent together with the validation errors
+   */
+  private async runStructuredStep(
+    context: ExecutionContext,
+    step: PlanStep,
+    candidate: StepFallback,
+    task: string,
+    options: AgentRunOptions
+  ): Promise<{ result: string; output?: unknown }> {
+    if (!step.outputSchema) {
+      return { result: await this.runStepAgent(context, step, candidate, task, options) };
+    }
 
-        if (toolCall.name === 'web_search') {
-          // Simulate web search (in production, integrate with actual search API)
-          toolResult = this.simulateWebSearch(
-            toolCall.input.query as string,
-            toolCall.input.num_results as number
-          );
-        } else if (toolCall.name === 'summarize') {
-          // The summarization is handled by Gemini itself
-          toolResult = { summary: 'Summarization requested' };
-        } else {
-          toolResult = { error: `Unknown tool: ${toolCall.name}` };
-        }
+    const schemaTask = task + describeOutputSchema(step.outputSchema);
+    const maxCorrections = this.config.structuredOutputRetries ?? DEFAULT_STRUCTURED_OUTPUT_RETRIES;
+    let currentTask = schemaTask;
+
+    for (let correction = 0; ; correction++) {
+      const result = await this.runStepAgent(context, step, candidate, currentTask, options);
+      // Ollama/MLX results start with the tool call history - only the final answer is validated
+      const answer = stripToolHistory(result);
+      const parsed = parseStructuredOutput(answer, step.outputSchema);
+      if (parsed.success) {
+        return { result, output: parsed.data };
+      }
 
-        toolResults.push({
-          toolCallId: toolCall.id,
-          output: toolResult,
-        });
+      console.log(`[Orchestrator] Step ${step.step}: result does not match output schema (${parsed.errors.join('; ')})`);
+      if (correction >= maxCorrections) {
+        throw createOutputValidationError(step.step, parsed.errors);
       }
+      currentTask = buildCorrectionTask(schemaTask, answer, parsed.errors);
+    }
+  }
 
-      // Add assistant's response with tool calls to messages
-      messages.push({
-        role: 'assistant',
-        content: response.rawContent || result
-      });
+  /**
+   * Run a step task with a specific agent (the model is passed per run, agents are shared between executions)
+   */
+  private async runStepAgent(
+    context: ExecutionContext,
+    step: PlanStep,
+    { agent, model }: StepFallback,
+    task: string,
+    options: AgentRunOptions
+  ): Promise<string> {
+    console.log(`[Orchestrator] Step ${step.step} agent: ${agent}${model ? `, model: ${model}` : ''}`);
 
-      // Continue conversation with tool results
-      response = await this.gemini.executeWithTools(messages, toolResults);
-      result = response.content;
+    switch (agent) {
+      case 'claude':
+        return this.executeWithClaude(context, task, options);
+      case 'gemini':
+        return this.executeWithGemini(context, task, options);
+      case 'ollama':
+        return this.executeWithOllama(context, task, options);
+      case 'mlx':
+        return this.executeWithMLX(context, task, options);
+      case 'manager':
+        return this.executeWithManager(context, task, options);
+      default:
+        throw new Error(`Unknown agent: ${agent}`); // Not a step result - the step fails (and can fall back)
     }
+  }
 
-    return result;
+  /**
+   * Announce a wait for a rate limit before the next attempt
+   */
+  private emitRateLimitWait(context: ExecutionContext, { attempt, maxAttempts, delayMs }: RetryInfo, step?: number): void {
+    const retryAfter = Math.ceil(delayMs / 1000);
+    console.log(`[Orchestrator] Rate limit hit. Waiting ${retryAfter} seconds before retry (attempt ${attempt}/${maxAttempts})...`);
+    this.events.emit('rate_limit_wait', context.id, { retryAfter, attempt, maxRetries: maxAttempts, step });
+  }
+
+  /**
+   * Execute a task with Claude agent (with tool handling)
+   */
+  async executeWithClaude(context: ExecutionContext, task: string, options: AgentRunOptions = {}): Promise<string> {
+    return this.runAgentLoop(context, this.claude, task, options);
+  }
+
+  /**
+   * Execute a task with Gemini agent (with tool handling)
+   */
+  async executeWithGemini(context: ExecutionContext, task: string, options: AgentRunOptions = {}): Promise<string> {
+    return this.runAgentLoop(context, this.gemini, task, options);
   }
 
   /**
    * Execute a task with Manager agent
    */
-  async executeWithManager(task: string): Promise<string> {
+  async executeWithManager(context: ExecutionContext, task: string, options: AgentRunOptions = {}): Promise<string> {
     // Check for abort at the start
-    if (this.aborted) {
-      throw new Error('Execution aborted by user');
+    context.throwIfAborted();
+
+    const messages: Message[] = [...(options.history || []), { role: 'user', content: task }];
+    try {
+      const response = await this.trackLLMCall(
+        context,
+        { agent: 'manager', model: options.model, step: options.step },
+        () =>
+          this.manager.execute(messages, {
+            signal: context.signal,
+            model: options.model, // A step (or resume) model override applies to manager steps too
+            onUsage: (usage) => this.recordUsage(context, usage, options.onUsage, options.step),
+          }),
+        task
+      );
+      options.onTurn?.([{ role: 'assistant', content: response.content }]);
+      return response.content;
+    } catch (error) {
+      throw this.toAbortError(context, error);
     }
-
-    const messages: Message[] = [{ role: 'user', content: task }];
-    const response = await this.manager.execute(messages);
-    return response.content;
   }
 
   /**
    * Execute a task with Ollama agent (with tool handling)
    */
-  async executeWithOllama(task: string, files?: FileAttachment[]): Promise<string> {
+  async executeWithOllama(context: ExecutionContext, task: string, options: AgentRunOptions = {}): Promise<string> {
     // Check if Ollama is configured
     if (!this.ollama) {
       throw new Error('Ollama agent is not configured. Add ollamaConfig or ollamaBaseUrl to orchestrator config.');
     }
 
-    // Check for abort at the start
-    if (this.aborted) {
-      throw new Error('Execution aborted by user');
+    return this.runAgentLoop(context, this.ollama, task, options, { includeToolHistory: true });
+  }
+
+  /**
+   * Execute a task with MLX agent (with tool handling)
+   */
+  async executeWithMLX(context: ExecutionContext, task: string, options: AgentRunOptions = {}): Promise<string> {
+    // Check if MLX is configured
+    if (!this.mlx) {
+      throw new Error('MLX agent is not configured. Add mlxConfig or mlxBaseUrl to orchestrator config.');
     }
 
-    // Execute Ollama with automatic tool handling (similar to Claude)
-    const result = await this.executeOllamaWithToolHandling(task, files);
-    return result;
+    return this.runAgentLoop(context, this.mlx, task, options, { includeToolHistory: true });
   }
 
   /**
-   * Execute Ollama with automatic tool handling
+   * Run the shared agent loop for a single task
+   * Tool calls are logged in the execution context (and reported to options.onToolCall)
    */
-  private async executeOllamaWithToolHandling(task: string, files?: FileAttachment[]): Promise<string> {
-    if (!this.ollama) {
-      throw new Error('Ollama agent is not configured.');
+  private async runAgentLoop(
+    context: ExecutionContext,
+    agent: Agent,
+    task: string,
+    options: AgentRunOptions,
+    loopOptions: Partial<AgentLoopOptions> = {}
+  ): Promise<string> {
+    // Check for abort at the start
+    context.throwIfAborted();
+
+    const agentName = this.getAgentName(agent);
+    const callInfo = { agent: agentName, model: options.model || this.getDefaultModel(agentName), step: options.step };
+    const toolCallStarts = new Map<string, number>();
+
+    const loop = new AgentLoop(agent, {
+      dispatchTool: (toolCall) => this.dispatchTool(context, agent, toolCall, options),
+      approveToolCall: (toolCall) => this.approveToolCall(context, agent, toolCall, options.step),
+      isAborted: () => context.aborted,
+      callOptions: {
+        signal: context.signal,
+        model: options.model,
+        onUsage: (usage) => this.recordUsage(context, usage, options.onUsage, options.step),
+      },
+      onDelta: options.onDelta,
+      loopDetection: this.config.loopDetection,
+      maxToolResultLength: this.artifacts.maxToolResultLength,
+      storeToolResult: this.artifacts.storeToolResults
+        ? (toolCall, result) => this.storeToolResult(context, toolCall, result, options.step)
+        : undefined,
+      ...loopOptions,
+      trackAgentCall: (messages, call) =>
+        this.trackLLMCall(context, callInfo, call, traceText(messages[messages.length - 1]?.content)),
+      onToolCallStart: (toolCall) => {
+        toolCallStarts.set(toolCall.id, Date.now());
+        this.events.emit('tool_call_started', context.id, { agent: agentName, step: options.step, toolCall });
+      },
+      onToolCall: (record) => {
+        context.toolCalls.push(record);
+        const durationMs = Date.now() - (toolCallStarts.get(record.id) ?? Date.now());
+        this.events.emit('tool_call_finished', context.id, { agent: agentName, step: options.step, record, durationMs });
+        options.onToolCall?.(record);
+      },
+    });
+
+    try {
+      const { content, messages } = await loop.runTurn([
+        ...(options.history || []),
+        { role: 'user', content: task, files: options.files },
+      ]);
+      options.onTurn?.(messages);
+      return content;
+    } catch (error) {
+      throw this.toAbortError(context, error);
     }
+  }
 
-    const messages: Message[] = [{ role: 'user', content: task, files }];
-    let toolCallIterations = 0;
-    const MAX_TOOL_ITERATIONS = 20;
-    let allToolCallsHistory: Array<{iteration: number, calls: Array<{name: string, input: any, result: any}>}> = [];
+  /**
+   * Price a request and add it to the execution's usage log
+   */
+  private recordUsage(
+    context: ExecutionContext,
+    usage: TokenUsage,
+    onUsage?: (record: UsageRecord) => void,
+    step?: number
+  ): void {
+    const record: UsageRecord = { ...usage, cost: calculateCost(usage, this.prices) };
+    context.usage.push(record);
+    this.dailyUsage.add({ calls: 1, inputTokens: record.inputTokens, outputTokens: record.outputTokens, cost: record.cost });
+    this.events.emit('usage_recorded', context.id, { record, step });
+    onUsage?.(record);
+    this.enforceBudget(context);
+  }
 
-    while (true) {
-      // Check for abort
-      if (this.aborted) {
-        throw new Error('Execution aborted by user');
-      }
+  /**
+   * Add usage of earlier executions of the day (e.g. loaded from history after a restart)
+   */
+  addDailyUsage(totals: UsageTotals): void {
+    this.dailyUsage.add(totals);
+  }
 
-      // Prevent infinite loops
-      if (toolCallIterations >= MAX_TOOL_ITERATIONS) {
-        throw new Error(`Maximum tool call iterations (${MAX_TOOL_ITERATIONS}) exceeded. Task may be too complex or model is stuck in a loop.`);
+  /**
+   * Usage totals of all executions of the current day
+   */
+  getDailyUsage(): UsageTotals {
+    return this.dailyUsage.get();
+  }
+
+  private getBudget(context: ExecutionContext): ExecutionBudget {
+    return resolveBudget(this.config.budget, context.budget);
+  }
+
+  /**
+   * Stop (or switch to downgrade mode) once a request pushed the execution over budget
+   */
+  private enforceBudget(context: ExecutionContext): void {
+    const budget = this.getBudget(context);
+    if (budget.onExceeded !== 'downgrade') {
+      if (context.budgetExceeded) {
+        return;
+      }
+      const violation = checkBudget(budget, context.usage, this.dailyUsage.get(), undefined, context.usageBefore);
+      if (violation) {
+        this.stopOverBudget(context, violation, 'abort');
       }
+      return;
+    }
 
-      console.log(`[Orchestrator] Ollama iteration ${toolCallIterations + 1}: Calling with ${messages.length} messages`);
-
-      // Get response from Ollama
-      const response = await this.ollama.execute(messages);
-
-      // If no tool calls, we're done - return formatted result with history
-      if (!response.toolCalls || response.toolCalls.length === 0) {
-        // Format final response with tool calls history
-        if (allToolCallsHistory.length > 0) {
-          let formattedResponse = '';
-          for (const iter of allToolCallsHistory) {
-            formattedResponse += `\n=== Iteracja ${iter.iteration} - Wykonane narzędzia ===\n`;
-            for (const call of iter.calls) {
-              formattedResponse += `\n🛠️ ${call.name}\n`;
-              formattedResponse += `Input: ${JSON.stringify(call.input, null, 2)}\n`;
-              formattedResponse += `Result: ${JSON.stringify(call.result, null, 2)}\n`;
-            }
-          }
-          formattedResponse += `\n=== Finalna odpowiedź LLM ===\n${response.content}`;
-          return formattedResponse;
-        }
-        return response.content;
+    // Downgrade mode - the running step finishes, but the daily limit stops the execution at once
+    if (context.budgetExceeded?.scope === 'daily') {
+      return;
+    }
+    const dailyViolation = checkDailyBudget(budget, this.dailyUsage.get());
+    if (dailyViolation) {
+      this.stopOverBudget(context, dailyViolation, 'abort');
+      return;
+    }
+    if (!context.budgetExceeded) {
+      const violation = checkBudget(budget, context.usage, this.dailyUsage.get(), undefined, context.usageBefore);
+      if (violation) {
+        context.budgetExceeded = violation;
+        this.reportBudgetExceeded(context, violation, 'downgrade');
       }
+    }
+  }
 
-      // We have tool calls - increment counter and process them
-      toolCallIterations++;
-      console.log(`[Orchestrator] Processing ${response.toolCalls.length} tool call(s) from Ollama (iteration ${toolCallIterations})`);
-
-      // Execute all tool calls
-      const toolResults: ToolResult[] = [];
-      const currentIterationCalls: Array<{name: string, input: any, result: any}> = [];
-
-      for (const toolCall of response.toolCalls) {
-        console.log(`[Ollama] Tool call: ${toolCall.name}`);
-        console.log(`[Ollama] Tool input:`, JSON.stringify(toolCall.input, null, 2));
-
-        let toolResult: any;
-
-        if (toolCall.name === 'invoke_gemini') {
-          const geminiTask = toolCall.input.task as string;
-          const context = toolCall.input.context as string | undefined;
-          const fullTask = context ? `${geminiTask}\n\nContext: ${context}` : geminiTask;
-          toolResult = await this.executeWithGemini(fullTask);
-        } else if (toolCall.name === 'invoke_claude') {
-          const claudeTask = toolCall.input.task as string;
-          toolResult = await this.executeWithClaude(claudeTask);
-        } else if (toolCall.name.startsWith('mcp_')) {
-          // Execute MCP tool through Ollama agent
-          console.log(`[Ollama] Executing MCP tool: ${toolCall.name}`);
-          toolResult = await this.ollama.executeMCPTool(toolCall.name, toolCall.input);
-          console.log(`[Ollama] MCP tool result:`, JSON.stringify(toolResult).substring(0, 500));
-        } else {
-          toolResult = { error: `Unknown tool: ${toolCall.name}` };
-        }
+  /**
+   * Refuse to start work for a provider whose budget is already used up
+   * In downgrade mode only work that can run on the cheaper model (Claude steps) continues,
+   * and never past the daily limit
+   */
+  private assertBudget(context: ExecutionContext, provider: Provider, step?: number, downgradable = false): void {
+    const budget = this.getBudget(context);
+    const daily = this.dailyUsage.get();
+    const violation = budget.onExceeded === 'downgrade' && downgradable
+      ? checkDailyBudget(budget, daily)
+      : checkBudget(budget, context.usage, daily, provider, context.usageBefore);
+    if (violation) {
+      throw this.stopOverBudget(context, violation, 'refused', step);
+    }
+  }
 
-        // Track tool call for history
-        currentIterationCalls.push({
-          name: toolCall.name,
-          input: toolCall.input,
-          result: toolResult
-        });
-
-        // Track tool call for UI
-        this.currentStepToolCalls.push({
-          id: toolCall.id,
-          name: toolCall.name,
-          input: toolCall.input,
-          result: toolResult
-        });
-
-        toolResults.push({
-          toolCallId: toolCall.id,
-          output: toolResult,
-        });
-      }
+  /**
+   * Abort an execution over budget, returns the budget error it was aborted with
+   */
+  private stopOverBudget(
+    context: ExecutionContext,
+    violation: BudgetViolation,
+    action: 'abort' | 'refused',
+    step?: number
+  ): Error {
+    context.budgetExceeded = violation;
+    this.reportBudgetExceeded(context, violation, action, step);
+    const error = createBudgetError(violation);
+    context.abort(error);
+    return error;
+  }
 
-      // Save this iteration's tool calls to history
-      allToolCallsHistory.push({
-        iteration: toolCallIterations,
-        calls: currentIterationCalls
-      });
+  /**
+   * Switch Claude candidates to the cheaper model after the budget was exceeded in downgrade mode
+   */
+  private applyBudgetDowngrade(context: ExecutionContext, candidate: StepFallback): StepFallback {
+    if (!context.budgetExceeded || candidate.agent !== 'claude') {
+      return candidate;
+    }
+    const downgradeModel = this.getBudget(context).downgradeModel || DEFAULT_DOWNGRADE_MODEL;
+    if (candidate.model !== downgradeModel) {
+      console.log(`[Orchestrator] Budget exceeded - running Claude on ${downgradeModel} instead of ${candidate.model || 'the default model'}`);
+    }
+    return { ...candidate, model: downgradeModel };
+  }
 
-      // Add assistant's response to messages
-      messages.push({
-        role: 'assistant',
-        content: response.content
-      });
+  private reportBudgetExceeded(
+    context: ExecutionContext,
+    violation: BudgetViolation,
+    action: BudgetExceededEvent['action'],
+    step?: number
+  ): void {
+    const message = describeViolation(violation);
+    console.warn(`[Orchestrator] ${message} (${action})`);
+    context.onBudgetExceeded?.({ violation, action, step, message });
+    this.events.emit('budget_exceeded', context.id, { violation, action, step, message });
+  }
 
-      // Add tool results as user message
-      const toolResultsText = toolResults
-        .map((tr) => `Tool ${tr.toolCallId} (${response.toolCalls?.find(tc => tc.id === tr.toolCallId)?.name}) result:\n${JSON.stringify(tr.output, null, 2)}`)
-        .join('\n\n');
+  /**
+   * Replace errors of cancelled requests (SDK/fetch abort errors) with the error that aborted the execution
+   */
+  private toAbortError(context: ExecutionContext, error: any): any {
+    return context.aborted ? context.abortError : error;
+  }
 
-      messages.push({
-        role: 'user',
-        content: `Otrzymano wyniki narzędzi:\n\n${toolResultsText}\n\nPrzeanalizuj wyniki i kontynuuj zadanie.`
-      });
+  /**
+   * Ask the execution's approver about tool calls matching the approval patterns
+   * Returns null for tool calls that do not need approval
+   */
+  private async approveToolCall(
+    context: ExecutionContext,
+    agent: Agent,
+    toolCall: ToolCall,
+    step?: number
+  ): Promise<ToolApprovalDecision | null> {
+    if (!requiresApproval(toolCall.name, this.config.approvalToolPatterns || [])) {
+      return null;
+    }
+    if (!context.approver) {
+      console.warn(`[Orchestrator] Tool ${toolCall.name} requires approval, but nobody can approve it - rejecting`);
+      return { action: 'reject', reason: 'brak możliwości zatwierdzenia w tym trybie' };
+    }
 
-      console.log(`[Orchestrator] Messages array now has ${messages.length} messages`);
+    console.log(`[Orchestrator] Tool ${toolCall.name} (${agent.name}) is waiting for approval...`);
+    const request = { id: `approval_${toolCall.id}`, tool: toolCall.name, input: toolCall.input, agent: agent.name, step };
 
-      // Loop continues - next iteration will call Ollama with updated messages
+    // Aborting the execution stops waiting for the decision
+    let onAbort: () => void = () => {};
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(context.abortError);
+      context.signal.addEventListener('abort', onAbort, { once: true });
+    });
+    try {
+      context.throwIfAborted();
+      const decision = await Promise.race([context.approver(request), aborted]);
+      console.log(`[Orchestrator] Tool ${toolCall.name}: ${decision.action}`);
+      return decision;
+    } finally {
+      context.signal.removeEventListener('abort', onAbort);
     }
   }
 
   /**
-   * Execute a task with MLX agent (with tool handling)
+   * Dispatch a tool call requested by an agent
    */
-  async executeWithMLX(task: string, files?: FileAttachment[]): Promise<string> {
-    // Check if MLX is configured
-    if (!this.mlx) {
-      throw new Error('MLX agent is not configured. Add mlxConfig or mlxBaseUrl to orchestrator config.');
+  private async dispatchTool(
+    context: ExecutionContext,
+    agent: Agent,
+    toolCall: ToolCall,
+    options: AgentRunOptions
+  ): Promise<any> {
+    // Nested agent runs count towards the usage of the calling step
+    const nestedOptions: AgentRunOptions = { step: options.step, onUsage: options.onUsage };
+
+    switch (toolCall.name) {
+      case 'invoke_gemini': {
+        const geminiTask = toolCall.input.task as string;
+        const taskContext = toolCall.input.context as string | undefined;
+        const fullTask = taskContext ? `${geminiTask}\n\nContext: ${taskContext}` : geminiTask;
+        return this.executeWithGemini(context, fullTask, nestedOptions);
+      }
+      case 'invoke_claude':
+        return this.executeWithClaude(context, toolCall.input.task as string, nestedOptions);
+      case 'web_search':
+        // Simulate web search (in production, integrate with actual search API)
+        return this.simulateWebSearch(
+          toolCall.input.query as string,
+          toolCall.input.num_results as number
+        );
+      case 'summarize':
+        // The summarization is handled by Gemini itself
+        return { summary: 'Summarization requested' };
+      case 'read_tool_result':
+      case 'grep_tool_result':
+        return this.readStoredToolResult(context, toolCall);
+      case 'write_artifact':
+      case 'read_artifact':
+      case 'list_artifacts':
+        return this.useArtifactTool(context, toolCall, options.step);
     }
 
-    // Check for abort at the start
-    if (this.aborted) {
-      throw new Error('Execution aborted by user');
+    if (toolCall.name.startsWith('mcp_') && this.isMCPAgent(agent)) {
+      return agent.executeMCPTool(toolCall.name, toolCall.input, { signal: context.signal });
     }
 
-    // Execute MLX with automatic tool handling (similar to Ollama)
-    const result = await this.executeMLXWithToolHandling(task, files);
-    return result;
+    return { error: `Unknown tool: ${toolCall.name}` };
   }
 
   /**
-   * Execute MLX with automatic tool handling
+   * Artifacts of an execution (created with the first one)
    */
-  private async executeMLXWithToolHandling(task: string, files?: FileAttachment[]): Promise<string> {
-    if (!this.mlx) {
-      throw new Error('MLX agent is not configured.');
-    }
+  getArtifactStore(context: ExecutionContext): ArtifactStore {
+    context.artifacts ??= new ArtifactStore(path.join(this.artifacts.dir, context.id), this.artifacts);
+    return context.artifacts;
+  }
 
-    const messages: Message[] = [{ role: 'user', content: task, files }];
-    let toolCallIterations = 0;
-    const MAX_TOOL_ITERATIONS = 20;
-    let allToolCallsHistory: Array<{iteration: number, calls: Array<{name: string, input: any, result: any}>}> = [];
+  /**
+   * Save an oversized tool result as an artifact, the model gets a preview and the artifact handle
+   * Returns null (the result is truncated) for pages of stored results and when saving fails
+   */
+  private async storeToolResult(
+    context: ExecutionContext,
+    toolCall: ToolCall,
+    result: any,
+    step?: number
+  ): Promise<StoredToolResult | null> {
+    if (['read_tool_result', 'grep_tool_result', 'read_artifact'].includes(toolCall.name)) {
+      return null;
+    }
+    try {
+      const store = this.getArtifactStore(context);
+      const text = toolResultText(result);
+      const artifact = await store.saveToolResult(toolCall.name, text, step);
+      console.log(`[Orchestrator] Stored ${toolCall.name} result (${text.length} chars) as artifact ${artifact.id}`);
+      return { artifactId: artifact.id, output: store.describeToolResult(artifact, text) };
+    } catch (error) {
+      console.error(`[Orchestrator] Failed to store ${toolCall.name} result, truncating it:`, error);
+      return null;
+    }
+  }
 
-    while (true) {
-      // Check for abort
-      if (this.aborted) {
-        throw new Error('Execution aborted by user');
-      }
+  /**
+   * read_tool_result / grep_tool_result - a page or the matching lines of a stored tool result
+   */
+  private async readStoredToolResult(context: ExecutionContext, toolCall: ToolCall): Promise<any> {
+    const id = String(toolCall.input.artifact_id ?? '');
+    const store = context.artifacts;
+    if (!store?.get(id)) {
+      const available = store?.list().map((artifact) => artifact.id) || [];
+      return { error: `Unknown artifact: ${id}. Available artifacts: ${available.join(', ') || 'none'}` };
+    }
 
-      // Prevent infinite loops
-      if (toolCallIterations >= MAX_TOOL_ITERATIONS) {
-        throw new Error(`Maximum tool call iterations (${MAX_TOOL_ITERATIONS}) exceeded. Task may be too complex or model is stuck in a loop.`);
+    try {
+      if (toolCall.name === 'read_tool_result') {
+        return { artifact_id: id, ...(await store.readPage(id, Number(toolCall.input.page ?? 1))) };
       }
+      const pattern = String(toolCall.input.pattern ?? '');
+      return { artifact_id: id, pattern, ...(await store.grep(id, pattern, Number(toolCall.input.max_matches) || 50)) };
+    } catch (error: any) {
+      return { error: error?.message || String(error) };
+    }
+  }
 
-      console.log(`[Orchestrator] MLX iteration ${toolCallIterations + 1}: Calling with ${messages.length} messages`);
-
-      // Get response from MLX
-      const response = await this.mlx.execute(messages);
-
-      // If no tool calls, we're done - return formatted result with history
-      if (!response.toolCalls || response.toolCalls.length === 0) {
-        // Format final response with tool calls history
-        if (allToolCallsHistory.length > 0) {
-          let formattedResponse = '';
-          for (const iter of allToolCallsHistory) {
-            formattedResponse += `\n=== Iteration ${iter.iteration} - Executed Tools ===\n`;
-            for (const call of iter.calls) {
-              formattedResponse += `\n🛠️ ${call.name}\n`;
-              formattedResponse += `Input: ${JSON.stringify(call.input, null, 2)}\n`;
-              formattedResponse += `Result: ${JSON.stringify(call.result, null, 2)}\n`;
-            }
+  /**
+   * write_artifact / read_artifact / list_artifacts - named artifacts shared by the steps of an execution
+   */
+  private async useArtifactTool(context: ExecutionContext, toolCall: ToolCall, step?: number): Promise<any> {
+    const store = this.getArtifactStore(context);
+    const { name, content, description, page } = toolCall.input;
+
+    try {
+      switch (toolCall.name) {
+        case 'write_artifact': {
+          if (typeof content !== 'string') {
+            return { error: 'content must be a string' };
           }
-          formattedResponse += `\n=== Final LLM Response ===\n${response.content}`;
-          return formattedResponse;
+          const artifact = await store.write(String(name ?? ''), content, { description, step });
+          console.log(`[Orchestrator] Step ${step ?? '-'} wrote artifact ${artifact.name} (${artifact.size} chars)`);
+          return { saved: artifact.name, size: artifact.size };
         }
-        return response.content;
-      }
-
-      // We have tool calls - increment counter and process them
-      toolCallIterations++;
-      console.log(`[Orchestrator] Processing ${response.toolCalls.length} tool call(s) from MLX (iteration ${toolCallIterations})`);
-
-      // Execute all tool calls
-      const toolResults: ToolResult[] = [];
-      const currentIterationCalls: Array<{name: string, input: any, result: any}> = [];
-
-      for (const toolCall of response.toolCalls) {
-        console.log(`[MLX] Tool call: ${toolCall.name}`);
-        console.log(`[MLX] Tool input:`, JSON.stringify(toolCall.input, null, 2));
-
-        let toolResult: any;
-
-        if (toolCall.name === 'invoke_gemini') {
-          const geminiTask = toolCall.input.task as string;
-          const context = toolCall.input.context as string | undefined;
-          const fullTask = context ? `${geminiTask}\n\nContext: ${context}` : geminiTask;
-          toolResult = await this.executeWithGemini(fullTask);
-        } else if (toolCall.name === 'invoke_claude') {
-          const claudeTask = toolCall.input.task as string;
-          toolResult = await this.executeWithClaude(claudeTask);
-        } else if (toolCall.name.startsWith('mcp_')) {
-          // Execute MCP tool through MLX agent
-          console.log(`[MLX] Executing MCP tool: ${toolCall.name}`);
-          toolResult = await this.mlx.executeMCPTool(toolCall.name, toolCall.input);
-          console.log(`[MLX] MCP tool result:`, JSON.stringify(toolResult).substring(0, 500));
-        } else {
-          toolResult = { error: `Unknown tool: ${toolCall.name}` };
+        case 'read_artifact': {
+          const artifact = store.get(String(name ?? ''));
+          if (!artifact || artifact.kind !== 'file') {
+            const available = store.list().filter((a) => a.kind === 'file').map((a) => a.name);
+            return { error: `Unknown artifact: ${name}. Available artifacts: ${available.join(', ') || 'none'}` };
+          }
+          return { name: artifact.name, ...(await store.readPage(artifact.id, Number(page ?? 1))) };
         }
-
-        // Track tool call for history
-        currentIterationCalls.push({
-          name: toolCall.name,
-          input: toolCall.input,
-          result: toolResult
-        });
-
-        // Track tool call for UI
-        this.currentStepToolCalls.push({
-          id: toolCall.id,
-          name: toolCall.name,
-          input: toolCall.input,
-          result: toolResult
-        });
-
-        toolResults.push({
-          toolCallId: toolCall.id,
-          output: toolResult,
-        });
+        default:
+          return {
+            artifacts: store
+              .list()
+              .filter((artifact) => artifact.kind === 'file')
+              .map(({ name, size, description, step }) => ({ name, size, description, step })),
+          };
       }
+    } catch (error: any) {
+      return { error: error?.message || String(error) };
+    }
+  }
 
-      // Save this iteration's tool calls to history
-      allToolCallsHistory.push({
-        iteration: toolCallIterations,
-        calls: currentIterationCalls
-      });
+  private isMCPAgent(agent: Agent): agent is ClaudeAgent | GeminiAgent | OllamaAgent | MLXAgent {
+    return agent === this.claude || agent === this.gemini || agent === this.ollama || agent === this.mlx;
+  }
 
-      // Add assistant's response to messages
-      messages.push({
-        role: 'assistant',
-        content: response.content
-      });
+  /**
+   * Direct chat with a specific agent (the conversation so far is sent with every message)
+   */
+  async chat(
+    message: string,
+    agent: PlanStep['agent'] = 'claude',
+    context: ExecutionContext = new ExecutionContext()
+  ): Promise<string> {
+    const turns: ChatTurn[] = [];
+    for (const historyMessage of this.conversationHistory) {
+      if (historyMessage.role === 'user') {
+        turns.push([historyMessage]);
+      } else {
+        turns[turns.length - 1]?.push(historyMessage);
+      }
+    }
 
-      // Add tool results as user message
-      const toolResultsText = toolResults
-        .map((tr) => `Tool ${tr.toolCallId} (${response.toolCalls?.find(tc => tc.id === tr.toolCallId)?.name}) result:\n${JSON.stringify(tr.output, null, 2)}`)
-        .join('\n\n');
+    const { content } = await this.chatWithHistory(context, agent, message, turns);
 
-      messages.push({
-        role: 'user',
-        content: `Tool results:\n\n${toolResultsText}\n\nAnalyze the results and continue the task.`
-      });
+    this.conversationHistory.push({ role: 'user', content: message }, { role: 'assistant', content });
+    return content;
+  }
 
-      console.log(`[Orchestrator] Messages array now has ${messages.length} messages`);
+  /**
+   * Chat message with earlier turns replayed to the agent, trimmed to its context window
+   * The returned messages are the agent's reply - with tool calls and results for agents that can replay them
+   * (Claude and Gemini as native tool blocks, Ollama as a text transcript of the results), otherwise only the final answer
+   */
+  async chatWithHistory(
+    context: ExecutionContext,
+    agent: PlanStep['agent'],
+    message: string,
+    history: ChatTurn[],
+    options: AgentRunOptions = {}
+  ): Promise<AgentLoopResult> {
+    const window = findContextWindow(this.contextCompaction.contextWindows, { agent, model: options.model || this.getDefaultModel(agent) });
+    const budget = Math.floor(window * this.contextCompaction.maxContextShare) - estimateTokens(message);
+
+    let turn: Message[] = [];
+    // Chat turns are not plan steps - only rate limits are retried, with the step retry policy
+    const content = await withRetry(
+      () =>
+        this.runAgent(context, agent, message, {
+          ...options,
+          history: trimChatHistory(history, budget),
+          onTurn: (messages) => (turn = messages),
+        }),
+      { ...this.retryPolicy, retryOn: ['rate_limit'] },
+      {
+        isAborted: () => context.aborted,
+        signal: context.signal,
+        onRetry: (info) => this.emitRateLimitWait(context, info, options.step),
+      }
+    );
 
-      // Loop continues - next iteration will call MLX with updated messages
-    }
+    const answer = turn[turn.length - 1] || { role: 'assistant', content };
+    return { content, messages: this.getAgent(agent)?.buildToolResultMessages ? turn : [answer] };
   }
 
   /**
-   * Direct chat with a specific agent
+   * Run a task with the given agent
    */
-  async chat(message: string, agent: 'claude' | 'gemini' | 'manager' | 'ollama' | 'mlx' = 'claude'): Promise<string> {
-    this.conversationHistory.push({ role: 'user', content: message });
-
-    let response: string;
+  private runAgent(context: ExecutionContext, agent: PlanStep['agent'], task: string, options: AgentRunOptions = {}): Promise<string> {
     switch (agent) {
       case 'claude':
-        response = await this.executeWithClaude(message);
-        break;
+        return this.executeWithClaude(context, task, options);
       case 'gemini':
-        response = await this.executeWithGemini(message);
-        break;
+        return this.executeWithGemini(context, task, options);
       case 'manager':
-        response = await this.executeWithManager(message);
-        break;
+        return this.executeWithManager(context, task, options);
       case 'ollama':
-        response = await this.executeWithOllama(message);
-        break;
+        return this.executeWithOllama(context, task, options);
       case 'mlx':
-        response = await this.executeWithMLX(message);
-        break;
+        return this.executeWithMLX(context, task, options);
     }
-
-    this.conversationHistory.push({ role: 'assistant', content: response });
-    return response;
   }
 
   /**
@@ -848,20 +1503,4 @@ export class MagenticOrchestrator {
   clearHistory(): void {
     this.conversationHistory = [];
   }
-
-  /**
-   * Get and clear current step tool calls
-   */
-  getAndClearStepToolCalls(): Array<{ id: string; name: string; input: Record<string, any>; result?: any }> {
-    const calls = [...this.currentStepToolCalls];
-    this.currentStepToolCalls = [];
-    return calls;
-  }
-
-  /**
-   * Clear current step tool calls
-   */
-  clearStepToolCalls(): void {
-    this.currentStepToolCalls = [];
-  }
 }
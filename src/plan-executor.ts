@@ -0,0 +1,278 @@
+import { Plan, PlanStep } from './types/index.js';
+
+/**
+ * Result of a completed plan step
+ */
+export interface StepOutcome {
+  step: PlanStep;
+  result: string;
+  output?: unknown; // Validated structured result (steps with outputSchema)
+}
+
+/**
+ * Runs a single step - receives only the outcomes of the step's dependencies
+ */
+export type StepRunner = (
+  step: PlanStep,
+  dependencies: StepOutcome[]
+) => Promise<string | Omit<StepOutcome, 'step'>>;
+
+/**
+ * Failed step passed to the re-planning callback
+ */
+export interface StepFailure {
+  plan: Plan;
+  step: PlanStep;
+  error: any;
+  completed: StepOutcome[];
+  remaining: PlanStep[]; // Steps that were not completed (without the failed one)
+}
+
+/**
+ * Produces replacement steps for the unfinished part of the plan, or null to stop
+ */
+export type Replanner = (failure: StepFailure) => Promise<PlanStep[] | null>;
+
+export interface PlanExecutorOptions {
+  runStep: StepRunner;
+  isAborted?: () => boolean;
+  abortError?: () => any; // Error reported when the plan is aborted between steps
+  // Steps with the same key never run at the same time (by default all ready steps run concurrently)
+  concurrencyKey?: (step: PlanStep) => string;
+  replan?: Replanner;
+  maxRevisions?: number;
+  completed?: StepOutcome[]; // Steps completed in an earlier run (resumed execution) - not run again
+}
+
+export const DEFAULT_MAX_PLAN_REVISIONS = 2;
+
+/**
+ * Get step numbers a step depends on
+ * Steps without "dependsOn" depend on all previous steps (sequential plans)
+ */
+export function getStepDependencies(plan: Plan, step: PlanStep): number[] {
+  if (!step.dependsOn) {
+    return plan.steps.filter((s) => s.step < step.step).map((s) => s.step);
+  }
+  return step.dependsOn;
+}
+
+/**
+ * Reject duplicate step numbers, unknown, self-referencing and cyclic dependencies before anything runs
+ */
+export function validatePlan(plan: Plan): void {
+  const stepsByNumber = new Map(plan.steps.map((s) => [s.step, s]));
+  if (stepsByNumber.size !== plan.steps.length) {
+    throw new Error('Invalid plan: duplicate step numbers');
+  }
+
+  for (const step of plan.steps) {
+    for (const dep of getStepDependencies(plan, step)) {
+      if (!stepsByNumber.has(dep) || dep === step.step) {
+        throw new Error(`Invalid dependency in step ${step.step}: step ${dep}`);
+      }
+    }
+  }
+
+  const visiting = new Set<number>();
+  const visited = new Set<number>();
+  const visit = (stepNumber: number): void => {
+    if (visited.has(stepNumber)) return;
+    if (visiting.has(stepNumber)) {
+      throw new Error(`Cyclic dependency detected at step ${stepNumber}`);
+    }
+    visiting.add(stepNumber);
+    for (const dep of getStepDependencies(plan, stepsByNumber.get(stepNumber)!)) {
+      visit(dep);
+    }
+    visiting.delete(stepNumber);
+    visited.add(stepNumber);
+  };
+
+  for (const step of plan.steps) {
+    visit(step.step);
+  }
+}
+
+/**
+ * Build step task with results of its dependencies as context
+ */
+export function buildStepTask(step: PlanStep, dependencies: StepOutcome[]): string {
+  let stepTask = step.description;
+
+  if (dependencies.length > 0) {
+    stepTask += '\n\n--- KONTEKST Z POPRZEDNICH KROKÓW ---\n';
+    for (const dep of dependencies) {
+      // Structured results are passed as data, not as the agent's prose
+      const result = dep.output !== undefined ? `(JSON)\n${JSON.stringify(dep.output, null, 2)}` : dep.result;
+      stepTask += `\nKrok ${dep.step.step} (${dep.step.agent}): ${dep.step.description}\nWynik: ${result}\n`;
+    }
+    stepTask += '--- KONIEC KONTEKSTU ---\n';
+  }
+
+  return stepTask;
+}
+
+/**
+ * Dependency-aware plan executor
+ * Runs every step as soon as all of its dependencies are completed, so
+ * independent branches of the plan execute concurrently
+ */
+export class PlanExecutor {
+  private plan: Plan;
+  private outcomes: Map<number, StepOutcome> = new Map();
+  private revisions = 0;
+
+  constructor(plan: Plan, private options: PlanExecutorOptions) {
+    this.plan = { ...plan, steps: [...plan.steps] };
+    for (const outcome of options.completed || []) {
+      this.outcomes.set(outcome.step.step, outcome);
+    }
+  }
+
+  /**
+   * Current plan (differs from the initial one after re-planning)
+   */
+  getPlan(): Plan {
+    return this.plan;
+  }
+
+  /**
+   * Execute the plan. Resolves with outcomes in plan order.
+   * On the first failure no new steps are started and running steps are awaited.
+   * Then the replan callback (if any) may replace the unfinished part of the plan;
+   * otherwise the error is rethrown.
+   */
+  async run(): Promise<StepOutcome[]> {
+    let stepsByNumber = new Map(this.plan.steps.map((s) => [s.step, s]));
+    validatePlan(this.plan);
+
+    const pending = new Set(this.plan.steps.filter((s) => !this.outcomes.has(s.step)).map((s) => s.step));
+    const running = new Map<number, Promise<void>>();
+    const busyKeys = new Set<string>();
+    let failure: any = null;
+    let failedStep: PlanStep | null = null;
+
+    // Leaves only when nothing is running - a failure of the last running step is handled like any other
+    while (true) {
+      if (!failure && this.options.isAborted?.()) {
+        failure = this.options.abortError?.() || new Error('Execution aborted by user');
+      }
+
+      if (!failure) {
+        for (const stepNumber of [...pending]) {
+          const step = stepsByNumber.get(stepNumber)!;
+          const deps = getStepDependencies(this.plan, step);
+          const key = this.concurrencyKey(step);
+
+          if (!deps.every((d) => this.outcomes.has(d)) || busyKeys.has(key)) {
+            continue;
+          }
+
+          pending.delete(stepNumber);
+          busyKeys.add(key);
+
+          const dependencies = deps.map((d) => this.outcomes.get(d)!);
+          const task = this.options.runStep(step, dependencies)
+            .then((value) => {
+              this.outcomes.set(step.step, typeof value === 'string' ? { step, result: value } : { step, ...value });
+            })
+            .catch((error) => {
+              if (!failure) {
+                failure = error;
+                failedStep = step;
+              }
+            })
+            .finally(() => {
+              busyKeys.delete(key);
+              running.delete(stepNumber);
+            });
+
+          running.set(stepNumber, task);
+        }
+      }
+
+      if (running.size === 0) {
+        if (failure && failedStep) {
+          const revisedSteps = await this.tryReplan(failedStep, failure);
+          if (revisedSteps) {
+            stepsByNumber = new Map(this.plan.steps.map((s) => [s.step, s]));
+            pending.clear();
+            revisedSteps.forEach((s) => pending.add(s.step));
+            failure = null;
+            failedStep = null;
+            continue;
+          }
+        }
+        if (failure) {
+          throw failure;
+        }
+        if (pending.size > 0) {
+          throw new Error(`Plan cannot continue: unresolved dependencies for steps ${[...pending].join(', ')}`);
+        }
+        break;
+      }
+
+      // Wait for any running step to finish, then schedule again
+      await Promise.race(running.values());
+    }
+
+    return this.plan.steps
+      .filter((s) => this.outcomes.has(s.step))
+      .map((s) => this.outcomes.get(s.step)!);
+  }
+
+  /**
+   * Ask for a revised remainder of the plan after a step failure
+   * Returns the new steps (already applied to the plan) or null when execution should stop
+   */
+  private async tryReplan(step: PlanStep, error: any): Promise<PlanStep[] | null> {
+    const maxRevisions = this.options.maxRevisions ?? DEFAULT_MAX_PLAN_REVISIONS;
+    if (!this.options.replan || this.revisions >= maxRevisions) {
+      return null;
+    }
+    if (error?.message === 'Execution aborted by user' || this.options.isAborted?.()) {
+      return null;
+    }
+
+    const completed = this.plan.steps
+      .filter((s) => this.outcomes.has(s.step))
+      .map((s) => this.outcomes.get(s.step)!);
+    const remaining = this.plan.steps.filter((s) => !this.outcomes.has(s.step) && s.step !== step.step);
+
+    let revisedSteps: PlanStep[] | null;
+    try {
+      revisedSteps = await this.options.replan({ plan: this.plan, step, error, completed, remaining });
+    } catch (replanError: any) {
+      // An abort or exceeded budget during re-planning stops the execution as such, not as a step failure
+      if (replanError?.isBudgetExceeded || replanError?.message === 'Execution aborted by user' || this.options.isAborted?.()) {
+        throw replanError;
+      }
+      console.error('[PlanExecutor] Re-planning failed:', replanError);
+      return null;
+    }
+    if (!revisedSteps || revisedSteps.length === 0) {
+      return null;
+    }
+
+    // An invalid revision (dangling dependsOn, duplicate step numbers) is dropped - the step failure stands
+    const revisedPlan: Plan = {
+      ...this.plan,
+      steps: [...completed.map((o) => o.step), ...revisedSteps],
+    };
+    try {
+      validatePlan(revisedPlan);
+    } catch (validationError) {
+      console.error('[PlanExecutor] Revised plan is invalid:', validationError);
+      return null;
+    }
+
+    this.revisions++;
+    this.plan = revisedPlan;
+    return revisedSteps;
+  }
+
+  private concurrencyKey(step: PlanStep): string {
+    return this.options.concurrencyKey ? this.options.concurrencyKey(step) : `step_${step.step}`;
+  }
+}
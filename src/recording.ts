@@ -0,0 +1,220 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+
+export type RecordingMode = 'off' | 'record' | 'replay';
+
+/**
+ * Settings of the provider call recording
+ * record - provider responses are saved to the cassette, replay - they are served from it (no network, models or MCP servers)
+ */
+export interface RecordingConfig {
+  mode: RecordingMode;
+  cassette: string; // Path of the cassette file
+}
+
+export const DEFAULT_RECORDING: RecordingConfig = {
+  mode: 'off',
+  cassette: 'cassettes/cassette.json',
+};
+
+/**
+ * Merge recording settings from magentic-config.json with defaults
+ */
+export function resolveRecording(config?: Partial<RecordingConfig>): RecordingConfig {
+  return { ...DEFAULT_RECORDING, ...config };
+}
+
+/**
+ * Provider call recorded in a cassette
+ * kind - 'anthropic.messages', 'gemini.chat', 'ollama.chat', 'mlx.chat', 'mcp.listTools', 'mcp.callTool'
+ */
+export interface CassetteInteraction {
+  kind: string;
+  key: string; // Hash of the request - replay serves the response recorded for the same request
+  request: any;
+  response?: any;
+  error?: RecordedError; // The call failed (e.g. rate limit) - replay throws the same error
+  recordedAt: string;
+}
+
+interface RecordedError {
+  message: string;
+  name?: string;
+  status?: number;
+  error?: any; // Error body of the API
+  headers?: Record<string, string>;
+}
+
+/**
+ * JSON with sorted object keys - identical requests give identical keys
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function requestKey(kind: string, request: any): string {
+  return createHash('sha1').update(kind).update('\0').update(stableStringify(request)).digest('hex');
+}
+
+function toRecordedError(error: any): RecordedError {
+  const headers = error?.headers;
+  return {
+    message: error?.message || String(error),
+    name: error?.name,
+    status: error?.status,
+    error: error?.error,
+    headers: headers && typeof headers.entries === 'function' ? Object.fromEntries(headers.entries()) : headers,
+  };
+}
+
+function fromRecordedError(recorded: RecordedError): Error {
+  const error = new Error(recorded.message) as any;
+  if (recorded.name) error.name = recorded.name;
+  if (recorded.status !== undefined) error.status = recorded.status;
+  if (recorded.error !== undefined) error.error = recorded.error;
+  if (recorded.headers) error.headers = recorded.headers;
+  return error;
+}
+
+/**
+ * Records the provider calls of the agents (LLM APIs and MCP tools) to a cassette file,
+ * or replays them from it - executions can be reproduced exactly and run offline
+ */
+export class ProviderRecorder {
+  private interactions: CassetteInteraction[] = [];
+  private replayed = new Set<number>(); // Indexes of interactions already served
+  private loaded = false;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private config: RecordingConfig = DEFAULT_RECORDING) {}
+
+  get mode(): RecordingMode {
+    return this.config.mode;
+  }
+
+  get cassette(): string {
+    return this.config.cassette;
+  }
+
+  /**
+   * Load the cassette (replay) - called before the agents connect to their MCP servers
+   */
+  async load(): Promise<void> {
+    if (this.config.mode !== 'replay' || this.loaded) {
+      return;
+    }
+    const cassette = JSON.parse(await fs.readFile(this.config.cassette, 'utf-8'));
+    this.interactions = cassette.interactions || [];
+    this.loaded = true;
+    console.log(`[Recording] Replaying ${this.interactions.length} interaction(s) from ${this.config.cassette}`);
+  }
+
+  /**
+   * Make a provider call through the cassette
+   * perform must return plain JSON data; onReplay gets a replayed response (e.g. to stream its text)
+   */
+  async call<T>(kind: string, request: any, perform: () => Promise<T>, onReplay?: (response: T) => void): Promise<T> {
+    if (this.config.mode === 'replay') {
+      await this.load();
+      const interaction = this.take(kind, requestKey(kind, request));
+      if (interaction.error) {
+        throw fromRecordedError(interaction.error);
+      }
+      onReplay?.(interaction.response);
+      return interaction.response;
+    }
+
+    if (this.config.mode === 'off') {
+      return perform();
+    }
+
+    const key = requestKey(kind, request);
+    try {
+      const response = await perform();
+      this.save({ kind, key, request, response: JSON.parse(JSON.stringify(response ?? null)), recordedAt: new Date().toISOString() });
+      return response;
+    } catch (error: any) {
+      // Aborted calls are not part of the recorded behaviour
+      if (error?.name !== 'AbortError' && error?.name !== 'APIUserAbortError') {
+        this.save({ kind, key, request, error: toRecordedError(error), recordedAt: new Date().toISOString() });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * MCP client whose listTools / callTool go through the cassette
+   * In replay mode the client is never connected - the MCP server is not started
+   */
+  wrapMCPClient(client: Client, server: string): Client {
+    if (this.config.mode === 'off') {
+      return client;
+    }
+    const replay = this.config.mode === 'replay';
+
+    return new Proxy(client, {
+      get: (target, property, receiver) => {
+        switch (property) {
+          case 'connect':
+            return replay ? async () => {} : target.connect.bind(target);
+          case 'close':
+            return replay ? async () => {} : target.close.bind(target);
+          case 'listTools':
+            return (...args: Parameters<Client['listTools']>) =>
+              this.call('mcp.listTools', { server }, () => target.listTools(...args));
+          case 'callTool':
+            return (...args: Parameters<Client['callTool']>) =>
+              this.call('mcp.callTool', { server, name: args[0].name, arguments: args[0].arguments }, () => target.callTool(...args));
+          default:
+            return Reflect.get(target, property, receiver);
+        }
+      },
+    });
+  }
+
+  /**
+   * Interaction for the request: the next unused one with the same request, then an already replayed one
+   * (the same task run again), otherwise the next unused call of the same kind (requests may differ
+   * between runs, e.g. in generated tool call ids)
+   */
+  private take(kind: string, key: string): CassetteInteraction {
+    let index = this.interactions.findIndex((interaction, i) => !this.replayed.has(i) && interaction.key === key);
+    if (index === -1) {
+      index = this.interactions.findIndex((interaction) => interaction.key === key);
+    }
+    if (index === -1) {
+      index = this.interactions.findIndex((interaction, i) => !this.replayed.has(i) && interaction.kind === kind);
+      if (index !== -1) {
+        console.warn(`[Recording] No recorded ${kind} call for this request - replaying the next recorded ${kind} call`);
+      }
+    }
+    if (index === -1) {
+      throw new Error(`Cassette ${this.config.cassette} has no more recorded ${kind} calls`);
+    }
+    this.replayed.add(index);
+    return this.interactions[index];
+  }
+
+  private save(interaction: CassetteInteraction): void {
+    this.interactions.push(interaction);
+    // Writes are chained - the file always holds a complete cassette
+    this.saving = this.saving
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.config.cassette), { recursive: true });
+        await fs.writeFile(this.config.cassette, JSON.stringify({ version: 1, interactions: this.interactions }, null, 2), 'utf-8');
+      })
+      .catch((error) => console.error(`[Recording] Could not write cassette ${this.config.cassette}:`, error));
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Error classes that can be retried by the step retry policy
+ */
+export type RetryableErrorClass =
+  | 'rate_limit' // 429 / Claude rate limit errors
+  | 'timeout' // Local model request timeouts
+  | 'connection' // Connection refused / reset, server not running
+  | 'server_error' // 5xx responses (e.g. Gemini "503 Service Unavailable")
+  | 'max_iterations'; // Agent loop hit the tool call iteration limit
+
+export interface RetryPolicy {
+  maxAttempts: number; // Attempts per agent (1 = no retries)
+  initialDelayMs: number;
+  backoffMultiplier: number;
+  maxDelayMs: number;
+  retryOn: RetryableErrorClass[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 2000,
+  backoffMultiplier: 2,
+  maxDelayMs: 30000,
+  retryOn: ['rate_limit', 'timeout', 'connection', 'server_error'],
+};
+
+/**
+ * Information about a failed attempt that is going to be retried
+ */
+export interface RetryInfo {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  errorClass: RetryableErrorClass;
+  error: any;
+}
+
+export interface RetryOptions {
+  isAborted?: () => boolean;
+  signal?: AbortSignal; // Interrupts the backoff wait
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Merge a partial policy (e.g. from magentic-config.json) with defaults
+ */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Classify an agent error, null means the error is not retryable (e.g. bad request, abort)
+ */
+export function classifyError(error: any): RetryableErrorClass | null {
+  const message: string = error?.message || String(error ?? '');
+
+  // Results not matching their output schema and tool loops were already corrected by the agent - try the fallback instead
+  if (message === 'Execution aborted by user' || error?.isBudgetExceeded || error?.isOutputValidation || error?.isToolLoop) {
+    return null;
+  }
+
+  const status = Number(error?.status ?? error?.originalError?.status);
+  const code: string | undefined = error?.code ?? error?.cause?.code;
+
+  if (error?.isRateLimit || status === 429 || /rate limit/i.test(message)) {
+    return 'rate_limit';
+  }
+  if (/Maximum tool call iterations/i.test(message)) {
+    return 'max_iterations';
+  }
+  if (error?.name === 'AbortError' || code === 'ETIMEDOUT' || /timeout|timed out/i.test(message)) {
+    return 'timeout';
+  }
+  if (
+    ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_SOCKET'].includes(code || '') ||
+    /ECONNREFUSED|ECONNRESET|Cannot connect|fetch failed|socket hang up/i.test(message)
+  ) {
+    return 'connection';
+  }
+  // Status codes in the message only count as a provider prefix ("[503 Service Unavailable]", "529 Overloaded"),
+  // never anywhere in the text (e.g. a Cypher error quoting "LIMIT 500")
+  if ((status >= 500 && status < 600) || /^\[?5\d\d\b|\[5\d\d [A-Za-z ]+\]|overloaded|Service Unavailable/i.test(message)) {
+    return 'server_error';
+  }
+
+  return null;
+}
+
+/**
+ * Delay before the next attempt (rate limits use the server-provided retry-after)
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, error?: any): number {
+  if (error?.isRateLimit && error.retryAfter) {
+    return error.retryAfter * 1000;
+  }
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+/**
+ * Wait for the given time, resolving early when the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an operation, retrying errors of the classes listed in the policy
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions = {}
+): Promise<T> {
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error: any) {
+      const errorClass = classifyError(error);
+      if (attempt >= maxAttempts || !errorClass || !policy.retryOn.includes(errorClass)) {
+        throw error;
+      }
+      if (options.isAborted?.()) {
+        throw new Error('Execution aborted by user');
+      }
+
+      const delayMs = getRetryDelay(policy, attempt, error);
+      options.onRetry?.({ attempt, maxAttempts, delayMs, errorClass, error });
+      await sleep(delayMs, options.signal);
+
+      // Check for abort during wait
+      if (options.isAborted?.()) {
+        throw new Error('Execution aborted by user');
+      }
+    }
+  }
+}
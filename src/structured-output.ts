@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { StepOutputSchema } from './types/index.js';
+
+/**
+ * Result of validating an agent answer against a step output schema
+ */
+export type StructuredOutputResult =
+  | { success: true; data: unknown }
+  | { success: false; errors: string[] };
+
+export const DEFAULT_STRUCTURED_OUTPUT_RETRIES = 2;
+
+/**
+ * Build a zod schema from a step output schema (JSON Schema subset)
+ */
+export function buildZodSchema(schema: StepOutputSchema): z.ZodTypeAny {
+  let zodSchema: z.ZodTypeAny;
+
+  switch (schema.type) {
+    case 'string':
+      zodSchema = schema.enum && schema.enum.length > 0
+        ? z.enum(schema.enum as [string, ...string[]])
+        : z.string();
+      break;
+    case 'number':
+      zodSchema = z.number();
+      break;
+    case 'integer':
+      zodSchema = z.number().int();
+      break;
+    case 'boolean':
+      zodSchema = z.boolean();
+      break;
+    case 'array':
+      zodSchema = z.array(buildZodSchema(schema.items));
+      break;
+    case 'object': {
+      const required = new Set(schema.required || Object.keys(schema.properties));
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [key, property] of Object.entries(schema.properties)) {
+        shape[key] = required.has(key) ? buildZodSchema(property) : buildZodSchema(property).optional();
+      }
+      zodSchema = z.object(shape).passthrough();
+      break;
+    }
+    case 'record':
+      zodSchema = z.record(buildZodSchema(schema.values));
+      break;
+  }
+
+  return schema.description ? zodSchema.describe(schema.description) : zodSchema;
+}
+
+/**
+ * Check that a schema declared in a plan (JSON from the manager) can be used
+ * Returns an error message or null
+ */
+export function validateOutputSchema(schema: any, path = 'outputSchema'): string | null {
+  if (!schema || typeof schema !== 'object') {
+    return `${path} must be an object`;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (schema.enum !== undefined && !(Array.isArray(schema.enum) && schema.enum.every((v: any) => typeof v === 'string'))) {
+        return `${path}.enum must be a list of strings`;
+      }
+      return null;
+    case 'number':
+    case 'integer':
+    case 'boolean':
+      return null;
+    case 'array':
+      return validateOutputSchema(schema.items, `${path}.items`);
+    case 'object':
+      if (!schema.properties || typeof schema.properties !== 'object') {
+        return `${path}.properties must be an object`;
+      }
+      if (schema.required !== undefined && !(Array.isArray(schema.required) && schema.required.every((k: any) => typeof k === 'string'))) {
+        return `${path}.required must be a list of property names`;
+      }
+      for (const [key, property] of Object.entries(schema.properties)) {
+        const error = validateOutputSchema(property, `${path}.properties.${key}`);
+        if (error) return error;
+      }
+      return null;
+    case 'record':
+      return validateOutputSchema(schema.values, `${path}.values`);
+    default:
+      return `${path}.type must be one of string, number, integer, boolean, array, object, record`;
+  }
+}
+
+/**
+ * Instruction appended to the step task - the agent has to answer with JSON of the given shape
+ */
+export function describeOutputSchema(schema: StepOutputSchema): string {
+  return `\n\n--- FORMAT WYNIKU ---\nOdpowiedz WYŁĄCZNIE poprawnym JSON (bez komentarzy i tekstu przed/po), zgodnym ze schematem:\n${JSON.stringify(schema, null, 2)}\n--- KONIEC FORMATU ---`;
+}
+
+/**
+ * Find the JSON value in an agent answer (plain JSON, ```json block or JSON surrounded by text)
+ */
+export function extractJson(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  const start = candidate.search(/[[{]/);
+  if (start === -1) {
+    return null;
+  }
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  return end > start ? candidate.substring(start, end + 1) : null;
+}
+
+/**
+ * Parse and validate an agent answer against the step output schema
+ */
+export function parseStructuredOutput(text: string, schema: StepOutputSchema): StructuredOutputResult {
+  const json = extractJson(text);
+  if (json === null) {
+    return { success: false, errors: ['Odpowiedź nie zawiera JSON'] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error: any) {
+    return { success: false, errors: [`Niepoprawny JSON: ${error.message}`] };
+  }
+
+  const result = buildZodSchema(schema).safeParse(value);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(wynik)'}: ${issue.message}`),
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Follow-up task asking the agent to fix an answer that does not match the schema
+ */
+export function buildCorrectionTask(task: string, answer: string, errors: string[]): string {
+  return `${task}\n\n--- POPRZEDNIA ODPOWIEDŹ (NIEZGODNA ZE SCHEMATEM) ---\n${answer}\n--- BŁĘDY WALIDACJI ---\n${errors.map((e) => `- ${e}`).join('\n')}\n\nPopraw odpowiedź tak, aby była poprawnym JSON zgodnym ze schematem.`;
+}
+
+/**
+ * Error of a step whose answer still did not match its schema after all corrections
+ */
+export function createOutputValidationError(step: number, errors: string[]): Error {
+  const error = new Error(`Step ${step} result does not match its output schema: ${errors.join('; ')}`) as any;
+  error.isOutputValidation = true;
+  error.validationErrors = errors;
+  return error;
+}
@@ -0,0 +1,69 @@
+import { PlanStep } from './types/index.js';
+import { StepOutcome } from './plan-executor.js';
+import { stripToolHistory } from './context-compaction.js';
+
+/**
+ * Settings of the closing phase that answers the task from the step results
+ */
+export interface SynthesisConfig {
+  enabled: boolean; // Disabled - the result is the concatenated step results
+  agent: PlanStep['agent']; // Agent writing the final answer (the manager or a cheaper one)
+  model?: string;
+}
+
+export const DEFAULT_SYNTHESIS: SynthesisConfig = {
+  enabled: true,
+  agent: 'manager',
+};
+
+/**
+ * Merge synthesis settings from magentic-config.json with defaults
+ */
+export function resolveSynthesis(config?: Partial<SynthesisConfig>): SynthesisConfig {
+  return { ...DEFAULT_SYNTHESIS, ...config };
+}
+
+/**
+ * Raw results of all steps, one block per step
+ */
+export function joinStepResults(outcomes: StepOutcome[]): string {
+  return outcomes
+    .map(({ step, result }) => `Step ${step.step} (${step.agent}): ${result}`)
+    .join('\n\n');
+}
+
+/**
+ * Synthesis as a plan step depending on every completed step, so it runs like one
+ * (retries, fallbacks, budget, compaction of step results)
+ * Numbered after the last step - step numbers are cited in the answer
+ */
+export function buildSynthesisStep(task: string, outcomes: StepOutcome[], config: SynthesisConfig): PlanStep {
+  const stepNumbers = outcomes.map((outcome) => outcome.step.step);
+
+  return {
+    step: Math.max(0, ...stepNumbers) + 1,
+    description: `Napisz ostateczną odpowiedź na zadanie użytkownika na podstawie wyników kroków podanych poniżej.
+
+ZADANIE:
+${task}
+
+ZASADY:
+- Odpowiedz bezpośrednio na zadanie - nie opisuj przebiegu wykonania kroków.
+- Przy każdym stwierdzeniu podaj krok, z którego pochodzi, w nawiasie kwadratowym, np. [Krok 2] lub [Krok 1, 3].
+- Nie dodawaj informacji, których nie ma w wynikach kroków; jeśli czegoś brakuje lub kroki są sprzeczne, napisz to wprost.
+- Odpowiadaj w języku zadania.`,
+    agent: config.agent,
+    model: config.model,
+    reasoning: 'Synteza wyników kroków',
+    dependsOn: stepNumbers,
+  };
+}
+
+/**
+ * Step results without the tool-call history dumps of Ollama/MLX - only final answers are synthesized
+ */
+export function prepareSynthesisOutcomes(outcomes: StepOutcome[]): StepOutcome[] {
+  return outcomes.map((outcome) =>
+    outcome.output !== undefined ? outcome : { ...outcome, result: stripToolHistory(outcome.result) }
+  );
+}
@@ -0,0 +1,73 @@
+import { readFileSync } from 'fs';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Tool of the fake MCP server
+ */
+export interface FakeMCPTool {
+  name: string;
+  description?: string;
+  inputSchema?: { type: 'object'; properties?: Record<string, any>; required?: string[] };
+  result?: string; // Text returned by every call (default: the call arguments as JSON)
+  error?: string; // Every call fails with this message
+}
+
+// Neo4j-like tools, so that prompts and plans written for the Neo4j MCP server work unchanged
+const DEFAULT_FAKE_MCP_TOOLS: FakeMCPTool[] = [
+  {
+    name: 'get_neo4j_schema',
+    description: 'Get the schema of the Neo4j database (fake)',
+    inputSchema: { type: 'object', properties: {} },
+    result: JSON.stringify({
+      Person: { type: 'node', properties: { name: { type: 'STRING' } }, relationships: { KNOWS: 'Person' } },
+      KNOWS: { type: 'relationship', properties: {} },
+    }),
+  },
+  {
+    name: 'read_neo4j_cypher',
+    description: 'Execute a read Cypher query on the Neo4j database (fake)',
+    inputSchema: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'Cypher query' } },
+      required: ['query'],
+    },
+    result: JSON.stringify([{ name: 'Alice' }, { name: 'Bob' }]),
+  },
+];
+
+/**
+ * MCP server (stdio) with scripted tools - for tests and dry runs without a real MCP server
+ * Usage: tsx src/testing/fake-mcp-server.ts [tools.json]
+ */
+async function runFakeMCPServer(tools: FakeMCPTool[] = DEFAULT_FAKE_MCP_TOOLS): Promise<void> {
+  const server = new Server({ name: 'fake-mcp-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description || tool.name,
+      inputSchema: tool.inputSchema || { type: 'object' as const, properties: {} },
+    })),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const tool = tools.find((t) => t.name === request.params.name);
+    if (!tool) {
+      return { content: [{ type: 'text', text: `Unknown tool: ${request.params.name}` }], isError: true };
+    }
+    if (tool.error) {
+      return { content: [{ type: 'text', text: tool.error }], isError: true };
+    }
+    return { content: [{ type: 'text', text: tool.result ?? JSON.stringify(request.params.arguments ?? {}) }] };
+  });
+
+  await server.connect(new StdioServerTransport());
+}
+
+const toolsFile = process.argv[2];
+runFakeMCPServer(toolsFile ? JSON.parse(readFileSync(toolsFile, 'utf-8')) : undefined).catch((error) => {
+  console.error('[FakeMCPServer] Failed to start:', error);
+  process.exit(1);
+});
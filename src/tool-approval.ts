@@ -0,0 +1,37 @@
+/**
+ * Tool call waiting for a human decision
+ */
+export interface ToolApprovalRequest {
+  id: string;
+  tool: string;
+  input: Record<string, any>;
+  agent: string;
+  step?: number;
+}
+
+export type ToolApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; reason?: string } // Returned to the model as a tool error
+  | { action: 'edit'; input: Record<string, any> }; // Approve with changed arguments
+
+/**
+ * Asks a human to decide about a tool call (resolves when the UI/API responds)
+ */
+export type ToolApprover = (request: ToolApprovalRequest) => Promise<ToolApprovalDecision>;
+
+/**
+ * Match a tool name against a pattern with "*" wildcards
+ * MCP tools (mcp_{server}_{tool}) also match by the bare tool name,
+ * so "write_neo4j_cypher" matches "mcp_neo4j_write_neo4j_cypher"
+ */
+export function matchesToolPattern(toolName: string, pattern: string): boolean {
+  const regex = new RegExp(
+    '^' + pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$'
+  );
+  const bareName = toolName.match(/^mcp_[^_]+_(.+)$/)?.[1];
+  return regex.test(toolName) || (bareName !== undefined && regex.test(bareName));
+}
+
+export function requiresApproval(toolName: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesToolPattern(toolName, pattern));
+}
@@ -0,0 +1,98 @@
+import { Tool } from '../types/index.js';
+
+// JSON Schema (like MCP tools) - Ollama and MLX pass tool schemas to the model as they are
+
+/**
+ * Tool reading further pages of a tool result stored as an artifact
+ */
+export const readToolResultTool: Tool = {
+  name: 'read_tool_result',
+  description:
+    'Read a page of a tool result that was too long to return in full and was stored as an artifact. Use the artifact_id given with the shortened result.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      artifact_id: { type: 'string', description: 'Artifact handle, e.g. "result-1"' },
+      page: { type: 'number', description: 'Page number, starting from 1' },
+    },
+    required: ['artifact_id', 'page'],
+  },
+};
+
+/**
+ * Tool searching a stored tool result line by line
+ */
+export const grepToolResultTool: Tool = {
+  name: 'grep_tool_result',
+  description:
+    'Find the lines of a stored tool result matching a pattern (regular expression, case-insensitive). Returns the matching lines with their line numbers.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      artifact_id: { type: 'string', description: 'Artifact handle, e.g. "result-1"' },
+      pattern: { type: 'string', description: 'Text or regular expression to search for' },
+      max_matches: { type: 'number', description: 'Maximum number of lines to return (default 50)' },
+    },
+    required: ['artifact_id', 'pattern'],
+  },
+};
+
+/**
+ * Tool saving a named artifact of the execution (readable by later steps and downloadable by the user)
+ */
+export const writeArtifactTool: Tool = {
+  name: 'write_artifact',
+  description:
+    'Save a file (CSV, markdown, JSON, code, ...) as an artifact of the current task. Later steps can read it with read_artifact and the user can download it. Writing an existing name replaces the artifact.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'File name with an extension, e.g. "companies.csv" or "report.md" (not starting with "result-")' },
+      content: { type: 'string', description: 'Full content of the file' },
+      description: { type: 'string', description: 'Short description of what the artifact contains' },
+    },
+    required: ['name', 'content'],
+  },
+};
+
+/**
+ * Tool reading a named artifact page by page
+ */
+export const readArtifactTool: Tool = {
+  name: 'read_artifact',
+  description: 'Read an artifact saved earlier in the current task (by this or an earlier step). Long artifacts are returned in pages.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Artifact name, e.g. "companies.csv"' },
+      page: { type: 'number', description: 'Page number, starting from 1 (default 1)' },
+    },
+    required: ['name'],
+  },
+};
+
+/**
+ * Tool listing the artifacts of the current task
+ */
+export const listArtifactsTool: Tool = {
+  name: 'list_artifacts',
+  description: 'List the artifacts saved so far in the current task (name, size, description, step).',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+  },
+};
+
+/**
+ * Get the tools for paging stored tool results
+ */
+export function getToolResultTools(): Tool[] {
+  return [readToolResultTool, grepToolResultTool];
+}
+
+/**
+ * Get the tools for writing and reading execution artifacts
+ */
+export function getArtifactTools(): Tool[] {
+  return [writeArtifactTool, readArtifactTool, listArtifactsTool];
+}
@@ -1 +1,2 @@
 export * from './cross-agent-tools.js';
+export * from './artifact-tools.js';
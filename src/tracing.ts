@@ -0,0 +1,467 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { OrchestratorEvent, OrchestratorEvents } from './orchestrator-events.js';
+
+/**
+ * Settings of execution traces
+ */
+export interface TracingConfig {
+  enabled: boolean;
+  dir: string; // Trace of every execution is written to <dir>/<executionId>.json
+  maxAttributeLength: number; // Inputs and outputs (prompts, responses, tool results) are truncated to this length
+}
+
+export const DEFAULT_TRACING: TracingConfig = {
+  enabled: true,
+  dir: 'traces',
+  maxAttributeLength: 2000,
+};
+
+/**
+ * Merge tracing settings from magentic-config.json with defaults
+ */
+export function resolveTracing(config?: Partial<TracingConfig>): TracingConfig {
+  return { ...DEFAULT_TRACING, ...config };
+}
+
+export type TraceSpanKind = 'execution' | 'step' | 'llm_call' | 'tool_call';
+
+type AttributeValue = string | number | boolean;
+
+/**
+ * Span of a trace: execution → step → LLM call → tool call
+ */
+export interface TraceSpan {
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: TraceSpanKind;
+  start: number; // Epoch milliseconds
+  end?: number; // Missing while the span is open
+  attributes: Record<string, AttributeValue>;
+  status: 'unset' | 'ok' | 'error';
+  statusMessage?: string;
+  events: Array<{ name: string; time: number; attributes: Record<string, AttributeValue> }>;
+}
+
+/**
+ * Text of a prompt, response or tool result for span attributes
+ * (text blocks of Claude messages and MCP results are joined, agent responses list their tool calls)
+ */
+export function traceText(value: any): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (Array.isArray(value?.content) && value.content.every((block: any) => block?.type === 'text')) {
+    return value.content.map((block: any) => block.text).join('\n');
+  }
+  if (value && typeof value.content === 'string') {
+    const toolCalls: any[] = value.toolCalls || [];
+    return toolCalls.length > 0
+      ? `${value.content}\n[tool calls: ${toolCalls.map((toolCall) => toolCall.name).join(', ')}]`
+      : value.content;
+  }
+  return JSON.stringify(value) ?? String(value);
+}
+
+const randomId = (bytes: number) => randomBytes(bytes).toString('hex');
+
+/**
+ * Trace of one execution, built from its orchestrator events
+ */
+export class ExecutionTrace {
+  readonly traceId: string;
+  private spans: TraceSpan[] = [];
+  private root: TraceSpan;
+  private stepSpans = new Map<number, TraceSpan>();
+  private llmSpans = new Map<string, TraceSpan>(); // Open LLM calls by callId
+  private lastLLMSpans = new Map<number | undefined, TraceSpan>(); // Latest LLM call of a step - parent of its tool calls
+  private toolSpans = new Map<string, TraceSpan>(); // Open tool calls by tool call id
+
+  constructor(
+    readonly executionId: string,
+    attributes: Record<string, AttributeValue>,
+    private config: TracingConfig,
+    earlier?: { traceId: string; spans: TraceSpan[] } // Spans of an earlier run of a resumed execution
+  ) {
+    this.traceId = earlier?.traceId || randomId(16);
+    this.spans = earlier ? [...earlier.spans] : [];
+    this.root = this.startSpan('execution', 'execution', undefined, Date.now(), {
+      'execution.id': executionId,
+      ...Object.fromEntries(
+        Object.entries(attributes).map(([key, value]) => [key, typeof value === 'string' ? this.truncate(value) : value])
+      ),
+    });
+  }
+
+  /**
+   * Add an orchestrator event of this execution to the trace
+   */
+  record(event: OrchestratorEvent): void {
+    const time = Date.parse(event.timestamp);
+
+    switch (event.type) {
+      case 'plan_created':
+        this.addEvent(this.root, 'plan_created', time, { 'plan.goal': event.plan.goal, 'plan.steps': event.plan.steps.length });
+        break;
+
+      case 'plan_revised':
+        this.addEvent(this.root, 'plan_revised', time, {
+          'plan.revision': event.revision.revision,
+          'plan.failed_step': event.revision.failedStep,
+          'plan.steps': event.revision.steps.length,
+        });
+        break;
+
+      case 'step_started':
+        this.stepSpans.set(
+          event.step.step,
+          this.startSpan(`step ${event.step.step}`, 'step', this.root, time, {
+            'step.number': event.step.step,
+            'step.agent': event.step.agent,
+            ...(event.step.model ? { 'step.model': event.step.model } : {}),
+            'step.description': this.truncate(event.step.description),
+          })
+        );
+        break;
+
+      case 'step_completed': {
+        const span = this.stepSpans.get(event.step.step);
+        if (span) {
+          Object.assign(span.attributes, {
+            'step.executed_by': event.agent,
+            ...(event.model ? { 'step.executed_model': event.model } : {}),
+            'gen_ai.usage.input_tokens': event.usage.inputTokens,
+            'gen_ai.usage.output_tokens': event.usage.outputTokens,
+            'usage.cost': event.usage.cost,
+          });
+          this.endSpan(span, time, 'ok');
+        }
+        break;
+      }
+
+      case 'step_failed': {
+        const span = this.stepSpans.get(event.step.step);
+        if (span) {
+          this.endSpan(span, time, 'error', event.error);
+        }
+        break;
+      }
+
+      case 'step_retry':
+        this.addEvent(this.stepSpans.get(event.step) || this.root, `step_${event.action}`, time, {
+          'retry.agent': event.attempt.agent,
+          ...(event.attempt.errorClass ? { 'retry.error_class': event.attempt.errorClass } : {}),
+          ...(event.attempt.error ? { 'retry.error': this.truncate(event.attempt.error) } : {}),
+          ...(event.next ? { 'retry.next_agent': event.next.agent } : {}),
+        });
+        break;
+
+      case 'llm_call_started': {
+        const span = this.startSpan(`llm ${event.agent}`, 'llm_call', this.getStepSpan(event.step), time, {
+          'gen_ai.agent': event.agent,
+          ...(event.model ? { 'gen_ai.request.model': event.model } : {}),
+          ...(event.input !== undefined ? { 'gen_ai.input': this.truncate(event.input) } : {}),
+        });
+        this.llmSpans.set(event.callId, span);
+        this.lastLLMSpans.set(event.step, span);
+        break;
+      }
+
+      case 'llm_call_finished': {
+        const span = this.llmSpans.get(event.callId);
+        if (span) {
+          this.llmSpans.delete(event.callId);
+          if (event.output !== undefined) {
+            span.attributes['gen_ai.output'] = this.truncate(event.output);
+          }
+          this.endSpan(span, time, event.error ? 'error' : 'ok', event.error);
+        }
+        break;
+      }
+
+      case 'usage_recorded': {
+        // Token counts of a request belong to the open LLM call of its step
+        const span = [...this.llmSpans.values()].reverse().find((llmSpan) => this.stepOf(llmSpan) === event.step);
+        if (span) {
+          span.attributes['gen_ai.response.model'] = event.record.model;
+          span.attributes['gen_ai.usage.input_tokens'] = ((span.attributes['gen_ai.usage.input_tokens'] as number) || 0) + event.record.inputTokens;
+          span.attributes['gen_ai.usage.output_tokens'] = ((span.attributes['gen_ai.usage.output_tokens'] as number) || 0) + event.record.outputTokens;
+          span.attributes['usage.cost'] = ((span.attributes['usage.cost'] as number) || 0) + event.record.cost;
+        }
+        break;
+      }
+
+      case 'tool_call_started': {
+        const parent = this.lastLLMSpans.get(event.step) || this.getStepSpan(event.step);
+        this.toolSpans.set(
+          event.toolCall.id,
+          this.startSpan(`tool ${event.toolCall.name}`, 'tool_call', parent, time, {
+            'tool.name': event.toolCall.name,
+            'tool.agent': event.agent,
+            'tool.input': this.truncate(JSON.stringify(event.toolCall.input)),
+          })
+        );
+        break;
+      }
+
+      case 'tool_call_finished': {
+        const span = this.toolSpans.get(event.record.id);
+        if (span) {
+          this.toolSpans.delete(event.record.id);
+          const { result, approval, artifactId } = event.record;
+          span.attributes['tool.output'] = this.truncate(traceText(result));
+          if (approval) {
+            span.attributes['tool.approval'] = approval;
+          }
+          if (artifactId) {
+            span.attributes['tool.artifact_id'] = artifactId;
+          }
+          const failed = approval === 'reject' || result?.isError === true || (!!result && typeof result === 'object' && 'error' in result);
+          this.endSpan(span, time, failed ? 'error' : 'ok', failed ? this.truncate(traceText(result?.error ?? result)) : undefined);
+        }
+        break;
+      }
+
+      case 'rate_limit_wait':
+        this.addEvent(this.getStepSpan(event.step), 'rate_limit_wait', time, {
+          'rate_limit.retry_after_s': event.retryAfter,
+          'rate_limit.attempt': event.attempt,
+        });
+        break;
+
+      case 'budget_exceeded':
+        this.addEvent(this.root, 'budget_exceeded', time, {
+          'budget.limit': event.violation.limit,
+          'budget.action': event.action,
+          'budget.message': event.message,
+        });
+        break;
+
+      case 'ledger_updated':
+        this.addEvent(this.root, 'ledger_updated', time, { 'ledger.replan': event.replan });
+        break;
+
+      case 'ledger_progress':
+        this.addEvent(this.root, 'ledger_progress', time, {
+          'ledger.turn': event.turn,
+          'ledger.next_agent': event.progress.nextSpeaker.answer,
+          'ledger.instruction': this.truncate(event.progress.instructionOrQuestion.answer),
+        });
+        break;
+    }
+  }
+
+  /**
+   * Close the execution span (spans still open, e.g. after an abort, end with it)
+   */
+  finish(status: 'ok' | 'error', message?: string): void {
+    const time = Date.now();
+    for (const span of this.spans) {
+      if (span.end === undefined && span !== this.root) {
+        this.endSpan(span, time, 'error', message || 'Execution ended before the span finished');
+      }
+    }
+    this.endSpan(this.root, time, status, message);
+  }
+
+  getSpans(): TraceSpan[] {
+    return this.spans;
+  }
+
+  /**
+   * OpenTelemetry (OTLP/JSON) layout of the trace
+   */
+  toOTLP(): any {
+    const attributes = (values: Record<string, AttributeValue>) =>
+      Object.entries(values).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+    const nanos = (ms: number) => `${ms}000000`;
+
+    return {
+      resourceSpans: [{
+        resource: { attributes: attributes({ 'service.name': 'magentic-agent' }) },
+        scopeSpans: [{
+          scope: { name: 'magentic-agent.orchestrator' },
+          spans: this.spans.map((span) => ({
+            traceId: this.traceId,
+            spanId: span.spanId,
+            ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+            name: span.name,
+            kind: span.kind === 'llm_call' || span.kind === 'tool_call' ? 3 : 1, // SPAN_KIND_CLIENT / SPAN_KIND_INTERNAL
+            startTimeUnixNano: nanos(span.start),
+            endTimeUnixNano: nanos(span.end ?? Date.now()),
+            attributes: attributes({ 'span.kind': span.kind, ...span.attributes }),
+            events: span.events.map((event) => ({
+              timeUnixNano: nanos(event.time),
+              name: event.name,
+              attributes: attributes(event.attributes),
+            })),
+            status: { code: { unset: 0, ok: 1, error: 2 }[span.status], ...(span.statusMessage ? { message: span.statusMessage } : {}) },
+          })),
+        }],
+      }],
+    };
+  }
+
+  private startSpan(
+    name: string,
+    kind: TraceSpanKind,
+    parent: TraceSpan | undefined,
+    start: number,
+    attributes: Record<string, AttributeValue>
+  ): TraceSpan {
+    const span: TraceSpan = {
+      spanId: randomId(8),
+      parentSpanId: parent?.spanId,
+      name,
+      kind,
+      start,
+      attributes,
+      status: 'unset',
+      events: [],
+    };
+    this.spans.push(span);
+    return span;
+  }
+
+  private endSpan(span: TraceSpan, end: number, status: 'ok' | 'error', message?: string): void {
+    span.end = end;
+    span.status = status;
+    if (message) {
+      span.statusMessage = this.truncate(message);
+    }
+  }
+
+  private addEvent(span: TraceSpan, name: string, time: number, attributes: Record<string, AttributeValue>): void {
+    span.events.push({ name, time, attributes });
+  }
+
+  private getStepSpan(step?: number): TraceSpan {
+    return (step !== undefined && this.stepSpans.get(step)) || this.root;
+  }
+
+  private stepOf(span: TraceSpan): number | undefined {
+    return [...this.lastLLMSpans.entries()].find(([, llmSpan]) => llmSpan === span)?.[0];
+  }
+
+  private truncate(text: string): string {
+    const max = this.config.maxAttributeLength;
+    return text.length > max ? `${text.substring(0, max)}... [${text.length - max} more characters]` : text;
+  }
+}
+
+function toAnyValue(value: AttributeValue): any {
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function fromAnyValue(value: any): AttributeValue {
+  if ('boolValue' in value) return value.boolValue;
+  if ('intValue' in value) return Number(value.intValue);
+  if ('doubleValue' in value) return value.doubleValue;
+  return value.stringValue ?? '';
+}
+
+/**
+ * Traces of the executions of an orchestrator, written to trace files when the executions finish
+ */
+export class TraceRecorder {
+  private traces = new Map<string, ExecutionTrace>();
+
+  constructor(events: OrchestratorEvents, private config: TracingConfig) {
+    events.on((event) => this.traces.get(event.executionId)?.record(event));
+  }
+
+  /**
+   * Start tracing an execution (a resumed execution continues the trace of its earlier runs)
+   */
+  async start(executionId: string, attributes: Record<string, AttributeValue> = {}): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+    const earlier = await this.readFile(executionId);
+    this.traces.set(executionId, new ExecutionTrace(executionId, attributes, this.config, earlier ? parseOTLP(earlier) : undefined));
+  }
+
+  /**
+   * End the trace of an execution and write its trace file
+   */
+  async finish(executionId: string, status: 'ok' | 'error', message?: string): Promise<string | null> {
+    const trace = this.traces.get(executionId);
+    if (!trace) {
+      return null;
+    }
+    this.traces.delete(executionId);
+    trace.finish(status, message);
+
+    const filePath = this.getPath(executionId);
+    try {
+      await fs.mkdir(this.config.dir, { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify(trace.toOTLP(), null, 2), 'utf-8');
+      return filePath;
+    } catch (error) {
+      console.error(`[Tracing] Could not write trace of ${executionId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * OTLP/JSON trace of a running or finished execution (null - no trace)
+   */
+  async load(executionId: string): Promise<any | null> {
+    return this.traces.get(executionId)?.toOTLP() || this.readFile(executionId);
+  }
+
+  private async readFile(executionId: string): Promise<any | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.getPath(executionId), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private getPath(executionId: string): string {
+    return path.join(this.config.dir, `${executionId}.json`);
+  }
+}
+
+/**
+ * Spans of an OTLP/JSON trace file (earlier runs of a resumed execution)
+ */
+function parseOTLP(otlp: any): { traceId: string; spans: TraceSpan[] } | undefined {
+  const spans: any[] = otlp?.resourceSpans?.[0]?.scopeSpans?.[0]?.spans || [];
+  if (spans.length === 0) {
+    return undefined;
+  }
+  const attributes = (list: any[] = []) => Object.fromEntries(list.map(({ key, value }) => [key, fromAnyValue(value)]));
+  const millis = (nanos: string) => Number(BigInt(nanos) / 1000000n);
+
+  return {
+    traceId: spans[0].traceId,
+    spans: spans.map((span) => {
+      const { 'span.kind': kind, ...rest } = attributes(span.attributes);
+      return {
+        spanId: span.spanId,
+        parentSpanId: span.parentSpanId,
+        name: span.name,
+        kind: kind as TraceSpanKind,
+        start: millis(span.startTimeUnixNano),
+        end: millis(span.endTimeUnixNano),
+        attributes: rest,
+        status: (['unset', 'ok', 'error'] as const)[span.status?.code || 0],
+        statusMessage: span.status?.message,
+        events: (span.events || []).map((event: any) => ({
+          name: event.name,
+          time: millis(event.timeUnixNano),
+          attributes: attributes(event.attributes),
+        })),
+      };
+    }),
+  };
+}
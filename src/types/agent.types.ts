@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { Tool as MCPTool } from '@modelcontextprotocol/sdk/types.js';
 
 /**
  * File attachment for messages
@@ -26,7 +27,7 @@ export interface Message {
 export interface Tool {
   name: string;
   description: string;
-  inputSchema: z.ZodSchema<any>;
+  inputSchema: z.ZodSchema<any> | MCPTool['inputSchema']; // Zod schema or JSON Schema (MCP tools)
 }
 
 /**
@@ -47,6 +48,18 @@ export interface ToolResult {
   isError?: boolean;
 }
 
+/**
+ * Tool call executed during a step (tracked for UI and execution history)
+ */
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  input: Record<string, any>;
+  result?: any;
+  approval?: 'approve' | 'reject' | 'edit'; // Human decision for tool calls that required approval
+  artifactId?: string; // Oversized result stored as an execution artifact (result holds its preview)
+}
+
 /**
  * Agent response containing text and optional tool calls
  */
@@ -55,8 +68,33 @@ export interface AgentResponse {
   toolCalls?: ToolCall[];
   stopReason?: 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence';
   rawContent?: any; // Raw content from API for proper message continuation
+  usage?: TokenUsage;
+}
+
+/**
+ * Token usage of a single LLM request
+ */
+export interface TokenUsage {
+  provider: 'anthropic' | 'google' | 'ollama' | 'mlx';
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Per-call options for agent requests
+ */
+export interface AgentCallOptions {
+  signal?: AbortSignal; // Cancels the in-flight request (user abort)
+  model?: string; // Overrides the configured model for this call only
+  onUsage?: (usage: TokenUsage) => void; // Receives token usage of every LLM request made for this call
 }
 
+/**
+ * Receives incremental text of a streamed agent response
+ */
+export type StreamCallback = (delta: string) => void;
+
 /**
  * Agent configuration
  */
@@ -80,20 +118,38 @@ export interface Agent {
   /**
    * Execute a task with the agent
    */
-  execute(messages: Message[]): Promise<AgentResponse>;
+  execute(messages: Message[], options?: AgentCallOptions): Promise<AgentResponse>;
+
+  /**
+   * Execute a task streaming text deltas as they arrive
+   * Resolves with the complete response (including tool calls detected in it)
+   */
+  executeStream?(messages: Message[], onDelta: StreamCallback, options?: AgentCallOptions): Promise<AgentResponse>;
 
   /**
    * Execute with tool results
    */
   executeWithTools(
     messages: Message[],
-    toolResults: ToolResult[]
+    toolResults: ToolResult[],
+    options?: AgentCallOptions
   ): Promise<AgentResponse>;
 
   /**
    * Get available tools
    */
   getTools(): Tool[];
+
+  /**
+   * Build the messages that continue the conversation after tool calls
+   * (assistant turn with the calls + user turn with the results).
+   * Agents without native tool support can omit this - the agent loop
+   * then falls back to a plain-text tool results message.
+   */
+  buildToolResultMessages?(
+    response: AgentResponse,
+    toolResults: ToolResult[]
+  ): Message[];
 }
 
 /**
@@ -106,6 +162,40 @@ export interface PlanStep {
   model?: string; // Konkretny model dla tego kroku (np. 'claude-3-5-haiku-20241022' dla Claude, 'llama3.2' dla Ollama, 'mlx-community/Llama-3.2-3B-Instruct-4bit' dla MLX)
   reasoning: string;
   requiredFiles?: string[]; // Lista nazw plików potrzebnych w tym kroku
+  dependsOn?: number[]; // Numery kroków, których wyniki są potrzebne (brak pola = wszystkie poprzednie kroki)
+  fallback?: StepFallback[]; // Agenci zapasowi, próbowani po kolei gdy główny agent zawiedzie
+  outputSchema?: StepOutputSchema; // Oczekiwany kształt wyniku (JSON) - wynik jest walidowany i zapisywany jako dane
+}
+
+/**
+ * Shape of a structured step result (subset of JSON Schema, validated with zod)
+ * "record" is an object with arbitrary keys, e.g. key/value facts
+ */
+export type StepOutputSchema = { description?: string } & (
+  | { type: 'string'; enum?: string[] }
+  | { type: 'number' | 'integer' | 'boolean' }
+  | { type: 'array'; items: StepOutputSchema }
+  | { type: 'object'; properties: Record<string, StepOutputSchema>; required?: string[] } // All properties are required by default
+  | { type: 'record'; values: StepOutputSchema }
+);
+
+/**
+ * Fallback agent (and optional model) for a plan step
+ */
+export interface StepFallback {
+  agent: PlanStep['agent'];
+  model?: string;
+}
+
+/**
+ * Single attempt of a plan step execution (retries and fallbacks)
+ */
+export interface StepAttempt {
+  agent: PlanStep['agent'];
+  model?: string;
+  attempt: number; // Attempt number for this agent
+  error?: string; // Missing for the successful attempt
+  errorClass?: string;
 }
 
 /**
@@ -117,6 +207,61 @@ export interface Plan {
   estimatedComplexity: 'low' | 'medium' | 'high';
 }
 
+/**
+ * Plan revision created by the manager after a step failure
+ */
+export interface PlanRevision {
+  revision: number;
+  failedStep: number;
+  error: string;
+  reasoning: string;
+  replacedSteps: PlanStep[]; // Unfinished steps of the previous plan
+  steps: PlanStep[]; // New steps replacing them
+  createdAt: string;
+}
+
+/**
+ * Task ledger of the Magentic-One loop - what the manager knows about the task and how it plans to solve it
+ */
+export interface TaskLedger {
+  facts: string[]; // Fakty podane w zadaniu lub już zweryfikowane
+  factsToLookUp: string[]; // Fakty, które trzeba sprawdzić (baza danych, internet)
+  guesses: string[]; // Przypuszczenia (do potwierdzenia)
+  plan: string[]; // Plan w punktach - który agent co robi
+}
+
+/**
+ * Single answer of the progress ledger with the manager's reasoning
+ */
+export interface LedgerAnswer<T> {
+  reason: string;
+  answer: T;
+}
+
+/**
+ * Progress ledger - the manager's evaluation of the task after every agent turn
+ */
+export interface ProgressLedger {
+  isRequestSatisfied: LedgerAnswer<boolean>;
+  isInLoop: LedgerAnswer<boolean>; // Agenci powtarzają te same działania
+  isProgressBeingMade: LedgerAnswer<boolean>;
+  nextSpeaker: LedgerAnswer<PlanStep['agent']>;
+  nextModel?: string; // Model agenta w następnej turze (opcjonalnie)
+  instructionOrQuestion: LedgerAnswer<string>; // Polecenie dla następnego agenta
+}
+
+/**
+ * Agent turn of the Magentic-One loop
+ */
+export interface LedgerTurn {
+  turn: number;
+  agent: PlanStep['agent'];
+  model?: string;
+  instruction: string;
+  result?: string;
+  error?: string; // Set when the agent failed - the manager sees the error and decides what next
+}
+
 /**
  * MCP Server configuration
  */
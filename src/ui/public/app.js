@@ -2,7 +2,10 @@
 let ws = null;
 let currentPlan = null;
 let stepResults = {};
+let stepOutputs = {}; // Structured (JSON) results of steps with outputSchema
+let currentRawResult = null; // Step results the final answer was written from
 let uploadedFiles = []; // Currently uploaded files for this session
+let currentExecutionId = null; // Execution shown in this tab (the server may run several at once)
 
 // Initialize WebSocket
 function initWebSocket() {
@@ -34,7 +37,15 @@ function initWebSocket() {
 
 // Handle WebSocket messages
 function handleWebSocketMessage(data) {
-    addLog(`${data.type}: ${JSON.stringify(data)}`, 'info');
+    // Ignore events of executions started from other tabs
+    if (data.executionId && data.executionId !== currentExecutionId) {
+        return;
+    }
+
+    // Streamed output is rendered in the step itself, not in the logs
+    if (data.type !== 'step_delta') {
+        addLog(`${data.type}: ${JSON.stringify(data)}`, 'info');
+    }
 
     switch (data.type) {
         case 'status':
@@ -50,12 +61,34 @@ function handleWebSocketMessage(data) {
             break;
 
         case 'plan_created':
+            // Plans created for editing (/api/plan) are shown in the plan editor instead
+            if (!data.executionId) break;
             currentPlan = data.plan;
             showExecutionOutput();
             displayPlanRealtime(data.plan);
             addLog('Plan utworzony', 'success');
             break;
 
+        case 'ledger_created':
+            showExecutionOutput();
+            displayTaskLedger(data.ledger, data.replan);
+            addLog(data.replan === 0 ? 'Rejestr zadania utworzony' : `Ponowne planowanie #${data.replan} (brak postępu)`, data.replan === 0 ? 'success' : 'warning');
+            break;
+
+        case 'ledger_progress':
+            displayLedgerProgress(data.progress, data.turn);
+            break;
+
+        case 'synthesis_start':
+            addLog('Pisanie odpowiedzi końcowej na podstawie wyników kroków...', 'info');
+            break;
+
+        case 'plan_revised':
+            currentPlan = data.plan;
+            displayPlanRevision(data.revision);
+            addLog(`Plan zmieniony po błędzie w kroku ${data.revision.failedStep}`, 'warning');
+            break;
+
         case 'step_start':
             updateStepStatusRealtime(data.stepExecution.stepNumber, 'executing', data.stepExecution);
             addLog(`Wykonywanie kroku ${data.stepExecution.stepNumber} z ${data.stepExecution.agent}`, 'info');
@@ -63,15 +96,67 @@ function handleWebSocketMessage(data) {
 
         case 'step_complete':
             stepResults[data.step.step] = data.result;
+            if (data.stepExecution && data.stepExecution.output !== undefined) {
+                stepOutputs[data.step.step] = data.stepExecution.output;
+            }
             // Add tool calls to step data if available
             const stepDataWithTools = { ...data.step };
             if (data.toolCalls && data.toolCalls.length > 0) {
                 stepDataWithTools.toolCalls = data.toolCalls;
             }
+            // Show the agent that actually produced the result (fallback agent)
+            const executedBy = data.stepExecution && data.stepExecution.executedBy;
+            if (executedBy && (executedBy.agent !== data.step.agent || executedBy.model !== data.step.model)) {
+                stepDataWithTools.agent = `${executedBy.agent} (zamiast ${data.step.agent})`;
+                stepDataWithTools.model = executedBy.model;
+            }
+            stepDataWithTools.usage = data.stepExecution && data.stepExecution.usage;
+            stepDataWithTools.artifacts = data.stepExecution && data.stepExecution.artifacts;
             updateStepStatusRealtime(data.step.step, 'completed', stepDataWithTools, data.result);
             addLog(`Krok ${data.step.step} zakończony${data.toolCalls ? ` (${data.toolCalls.length} tool calls)` : ''}`, 'success');
             break;
 
+        case 'step_delta':
+            appendStepDelta(data.step, data.delta);
+            break;
+
+        case 'tool_call_started':
+            appendStepToolCall(data.step, data.toolCall);
+            break;
+
+        case 'tool_call_finished':
+            finishStepToolCall(data.step, data.record, data.durationMs);
+            break;
+
+        case 'step_retry':
+            // Output of the failed attempt is discarded
+            resetStepStream(data.step);
+            if (data.action === 'retry') {
+                addLog(`Krok ${data.step}: błąd ${data.attempt.agent} (${data.attempt.errorClass}) - ponowienie za ${Math.round(data.delayMs / 1000)}s`, 'warning');
+            } else if (data.action === 'fallback') {
+                addLog(`Krok ${data.step}: ${data.attempt.agent} zawiódł - przełączenie na ${data.next.agent}${data.next.model ? ` (${data.next.model})` : ''}`, 'warning');
+            } else {
+                addLog(`Krok ${data.step}: ${data.attempt.agent} zawiódł - brak agentów zapasowych`, 'error');
+            }
+            break;
+
+        case 'approval_required':
+            showApprovalRequest(data.approval);
+            addLog(`Narzędzie ${data.approval.tool} czeka na zatwierdzenie`, 'warning');
+            break;
+
+        case 'approval_resolved':
+            removeApprovalRequest(data.approvalId);
+            break;
+
+        case 'budget_exceeded':
+            if (data.action === 'downgrade') {
+                addLog(`${data.message} - pozostałe kroki Claude wykonają tańszy model`, 'warning');
+            } else {
+                addLog(`${data.message} - wykonanie zatrzymane`, 'error');
+            }
+            break;
+
         case 'execution_start':
             showExecutionSpinner();
             document.getElementById('execute-btn').disabled = true;
@@ -81,7 +166,7 @@ function handleWebSocketMessage(data) {
 
         case 'execution_complete':
             hideExecutionSpinner();
-            displayFinalResult(data.result);
+            displayFinalResult(data.result, data.usage, data.rawResult);
             document.getElementById('execute-btn').disabled = false;
             document.getElementById('abort-btn').style.display = 'none';
             addLog('Wykonanie zadania zakończone', 'success');
@@ -236,6 +321,12 @@ function switchTab(tabName) {
 // Chat UI functions removed - using only Execute Task workflow
 
 // Plan execution functions
+const PLAN_AGENTS = ['claude', 'gemini', 'ollama', 'mlx', 'manager'];
+
+// Plan review - plan created by the manager and the copy edited by the user
+let originalPlan = null;
+let editedPlan = null;
+
 async function createPlanOnly() {
     const task = document.getElementById('task-input').value.trim();
     if (!task) {
@@ -243,11 +334,15 @@ async function createPlanOnly() {
         return;
     }
 
+    const fileIds = uploadedFiles.map(f => f.filename);
+    const button = document.getElementById('create-plan-btn');
+    button.disabled = true;
+
     try {
         const response = await fetch('/api/plan', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ task }),
+            body: JSON.stringify({ task, fileIds: fileIds.length > 0 ? fileIds : undefined }),
         });
 
         if (!response.ok) {
@@ -256,14 +351,141 @@ async function createPlanOnly() {
         }
 
         const data = await response.json();
-        currentPlan = data.plan;
-        displayPlan(data.plan, false);
+        originalPlan = data.plan;
+        editedPlan = JSON.parse(JSON.stringify(data.plan));
+        renderPlanEditor();
+        addLog('Plan utworzony - sprawdź i edytuj przed wykonaniem', 'success');
     } catch (error) {
         addLog(`Plan creation error: ${error.message}`, 'error');
         alert('Error: ' + error.message);
+    } finally {
+        button.disabled = false;
+    }
+}
+
+function renderPlanEditor() {
+    const card = document.getElementById('plan-editor-card');
+    const stepsEl = document.getElementById('plan-editor-steps');
+
+    card.style.display = 'block';
+    document.getElementById('plan-editor-goal').textContent = editedPlan.goal;
+
+    stepsEl.innerHTML = editedPlan.steps.map((step, index) => `
+        <div class="step">
+            <div class="step-header">
+                <span class="step-number">Krok ${step.step}</span>
+                <div style="display: flex; gap: 5px;">
+                    <button class="btn btn-secondary" style="padding: 4px 10px;" onclick="movePlanStep(${index}, -1)" ${index === 0 ? 'disabled' : ''}>↑</button>
+                    <button class="btn btn-secondary" style="padding: 4px 10px;" onclick="movePlanStep(${index}, 1)" ${index === editedPlan.steps.length - 1 ? 'disabled' : ''}>↓</button>
+                    <button class="btn btn-danger" style="padding: 4px 10px;" onclick="deletePlanStep(${index})" ${editedPlan.steps.length === 1 ? 'disabled' : ''}>🗑</button>
+                </div>
+            </div>
+            <div class="form-group">
+                <label>Opis</label>
+                <textarea onchange="updatePlanStep(${index}, 'description', this.value)">${escapeHtml(step.description)}</textarea>
+            </div>
+            <div style="display: flex; gap: 10px; flex-wrap: wrap;">
+                <div class="form-group" style="flex: 1;">
+                    <label>Agent</label>
+                    <select onchange="updatePlanStep(${index}, 'agent', this.value)">
+                        ${PLAN_AGENTS.map(agent => `<option value="${agent}" ${agent === step.agent ? 'selected' : ''}>${agent}</option>`).join('')}
+                    </select>
+                </div>
+                <div class="form-group" style="flex: 1;">
+                    <label>Model (opcjonalnie)</label>
+                    <input type="text" value="${escapeAttribute(step.model || '')}" placeholder="domyślny model agenta" onchange="updatePlanStep(${index}, 'model', this.value)">
+                </div>
+            </div>
+            <div style="display: flex; gap: 10px; flex-wrap: wrap;">
+                <div class="form-group" style="flex: 1;">
+                    <label>Wymagane pliki (po przecinku)</label>
+                    <input type="text" value="${escapeAttribute((step.requiredFiles || []).join(', '))}" onchange="updatePlanStep(${index}, 'requiredFiles', this.value)">
+                </div>
+                <div class="form-group" style="flex: 1;">
+                    <label>Zależy od kroków (po przecinku)</label>
+                    <input type="text" value="${(step.dependsOn || []).join(', ')}" placeholder="puste = poprzedni krok" onchange="updatePlanStep(${index}, 'dependsOn', this.value)">
+                </div>
+            </div>
+        </div>
+    `).join('');
+}
+
+function updatePlanStep(index, field, value) {
+    const step = editedPlan.steps[index];
+    const list = value.split(',').map(item => item.trim()).filter(item => item);
+
+    if (field === 'model') {
+        step.model = value.trim() || undefined;
+    } else if (field === 'requiredFiles') {
+        step.requiredFiles = list.length > 0 ? list : undefined;
+    } else if (field === 'dependsOn') {
+        const numbers = list.map(Number).filter(Number.isInteger);
+        step.dependsOn = numbers.length > 0 ? numbers : undefined;
+    } else {
+        step[field] = value;
     }
 }
 
+// Number steps by position and point dependencies at the new numbers (dependencies on deleted steps are dropped)
+function renumberPlanSteps() {
+    const newNumbers = new Map(editedPlan.steps.map((step, index) => [step.step, index + 1]));
+    editedPlan.steps.forEach((step, index) => {
+        step.step = index + 1;
+        if (step.dependsOn) {
+            const dependsOn = step.dependsOn.map(n => newNumbers.get(n)).filter(n => n !== undefined);
+            step.dependsOn = dependsOn.length > 0 ? dependsOn : undefined;
+        }
+    });
+}
+
+function movePlanStep(index, offset) {
+    const steps = editedPlan.steps;
+    [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+    renumberPlanSteps();
+    renderPlanEditor();
+}
+
+function deletePlanStep(index) {
+    editedPlan.steps.splice(index, 1);
+    renumberPlanSteps();
+    renderPlanEditor();
+}
+
+function addPlanStep() {
+    const lastStep = Math.max(0, ...editedPlan.steps.map(step => step.step));
+    editedPlan.steps.push({
+        step: lastStep + 1,
+        agent: 'claude',
+        description: '',
+        reasoning: 'Krok dodany przez użytkownika',
+    });
+    renumberPlanSteps();
+    renderPlanEditor();
+}
+
+function closePlanEditor() {
+    originalPlan = null;
+    editedPlan = null;
+    document.getElementById('plan-editor-card').style.display = 'none';
+}
+
+async function executeEditedPlan() {
+    const task = document.getElementById('task-input').value.trim();
+    if (!task) {
+        alert('Please enter a task description');
+        return;
+    }
+    if (editedPlan.steps.some(step => !step.description.trim())) {
+        alert('Każdy krok musi mieć opis');
+        return;
+    }
+
+    const plan = editedPlan;
+    const planBeforeEdit = originalPlan;
+    closePlanEditor();
+    await startExecution('/api/plan/execute', { task, plan, originalPlan: planBeforeEdit });
+}
+
 async function executeTask() {
     const task = document.getElementById('task-input').value.trim();
     if (!task) {
@@ -271,8 +493,17 @@ async function executeTask() {
         return;
     }
 
+    const mode = document.getElementById('execution-mode').value;
+    await startExecution('/api/execute', { task, mode });
+}
+
+// Start an execution - with a plan created by the manager (/api/execute), an edited plan (/api/plan/execute)
+// or continue a saved one (/api/executions/:id/resume)
+async function startExecution(url, payload) {
     // Clear previous plan and results immediately
     stepResults = {};
+    stepOutputs = {};
+    currentRawResult = null;
     currentPlan = null;
     const planSection = document.getElementById('plan-section');
     const stepsOutput = document.getElementById('steps-output');
@@ -287,16 +518,25 @@ async function executeTask() {
     // Get file IDs to send
     const fileIds = uploadedFiles.map(f => f.filename);
 
+    // Optional spend limit of this execution (overrides the config budget)
+    const maxCost = parseFloat(document.getElementById('budget-max-cost').value);
+
     // Show abort button
     document.getElementById('abort-btn').style.display = 'inline-block';
 
+    // Id is chosen here so events of this execution are recognized from the first one
+    // (a resumed execution keeps its id)
+    currentExecutionId = payload.executionId || `exec-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
     try {
-        const response = await fetch('/api/execute', {
+        const response = await fetch(url, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-                task,
-                fileIds: fileIds.length > 0 ? fileIds : undefined
+                ...payload,
+                fileIds: fileIds.length > 0 ? fileIds : undefined,
+                executionId: currentExecutionId,
+                budget: maxCost >= 0 ? { maxCost } : undefined
             }),
         });
 
@@ -322,52 +562,6 @@ async function executeTask() {
     // Note: abort button is hidden via WebSocket events (execution_complete, execution_error, execution_aborted)
 }
 
-function displayPlan(plan, showExecuting = true) {
-    const viewCard = document.getElementById('plan-view-card');
-    const viewEl = document.getElementById('plan-view');
-
-    viewCard.style.display = 'block';
-
-    let html = `
-        <div style="margin-bottom: 20px;">
-            <h3 style="color: #667eea;">Goal</h3>
-            <p>${plan.goal}</p>
-            <p style="margin-top: 10px;"><strong>Complexity:</strong>
-                <span style="color: ${plan.estimatedComplexity === 'high' ? '#dc3545' : plan.estimatedComplexity === 'medium' ? '#ffc107' : '#28a745'}">
-                    ${plan.estimatedComplexity.toUpperCase()}
-                </span>
-            </p>
-        </div>
-        <h3 style="color: #667eea; margin-bottom: 15px;">Steps</h3>
-    `;
-
-    plan.steps.forEach(step => {
-        // Format model name if present - show full model ID
-        let modelBadge = '';
-        if (step.model) {
-            console.log('[DEBUG] Step', step.step, 'has model:', step.model);
-            modelBadge = `<span class="agent-badge" style="background: #f59e0b; margin-left: 8px; font-size: 10px;" title="${step.model}">${step.model}</span>`;
-        } else {
-            console.log('[DEBUG] Step', step.step, 'NO MODEL FIELD');
-        }
-
-        html += `
-            <div class="step" id="step-${step.step}">
-                <div class="step-header">
-                    <span class="step-number">Step ${step.step}</span>
-                    <span class="agent-badge">${step.agent.toUpperCase()}</span>${modelBadge}
-                </div>
-                <p style="font-weight: 600; margin-bottom: 8px;">${step.description}</p>
-                <p style="color: #666; font-size: 14px;"><em>Reasoning:</em> ${step.reasoning}</p>
-                <div class="step-result" id="result-${step.step}" style="display: none;"></div>
-            </div>
-        `;
-    });
-
-    viewEl.innerHTML = html;
-    viewCard.scrollIntoView({ behavior: 'smooth' });
-}
-
 function updateStepStatus(stepNumber, status, result = null) {
     const stepEl = document.getElementById(`step-${stepNumber}`);
     if (!stepEl) return;
@@ -753,11 +947,70 @@ async function saveConfig() {
 
 // Chat history functions removed - using only Execute Task workflow
 
+// Tool call approval
+function showApprovalRequest(approval) {
+    const panel = document.getElementById('approvals-panel');
+    if (!panel || document.getElementById(`approval-${approval.id}`)) return;
+
+    const card = document.createElement('div');
+    card.id = `approval-${approval.id}`;
+    card.style.cssText = 'padding: 12px; margin-bottom: 12px; background: #fff3cd; border-radius: 8px; border-left: 4px solid #dc3545;';
+    card.innerHTML = `
+        <strong style="color: #856404;">⚠️ Zatwierdzenie wymagane${approval.step ? ` (krok ${approval.step})` : ''}:</strong>
+        <div style="margin-top: 6px;">Agent <strong>${escapeHtml(approval.agent)}</strong> chce wywołać narzędzie <code>${escapeHtml(approval.tool)}</code></div>
+        <label style="display: block; margin-top: 8px; font-size: 12px; color: #666;">Argumenty (można edytować):</label>
+        <textarea id="approval-input-${approval.id}" style="width: 100%; min-height: 120px; font-family: monospace; font-size: 12px;">${escapeHtml(JSON.stringify(approval.input, null, 2))}</textarea>
+        <div style="display: flex; gap: 8px; margin-top: 8px;">
+            <button class="btn" onclick="respondToApproval('${approval.id}', 'approve')">✅ Zatwierdź</button>
+            <button class="btn btn-secondary" onclick="respondToApproval('${approval.id}', 'edit')">✏️ Zatwierdź ze zmianami</button>
+            <button class="btn btn-danger" onclick="respondToApproval('${approval.id}', 'reject')">❌ Odrzuć</button>
+        </div>
+    `;
+    panel.appendChild(card);
+}
+
+function removeApprovalRequest(approvalId) {
+    const card = document.getElementById(`approval-${approvalId}`);
+    if (card) card.remove();
+}
+
+async function respondToApproval(approvalId, action) {
+    const body = { action };
+    if (action === 'edit') {
+        try {
+            body.input = JSON.parse(document.getElementById(`approval-input-${approvalId}`).value);
+        } catch (error) {
+            alert('Argumenty muszą być poprawnym obiektem JSON');
+            return;
+        }
+    } else if (action === 'reject') {
+        const reason = prompt('Powód odrzucenia (opcjonalnie):');
+        if (reason) body.reason = reason;
+    }
+
+    try {
+        const response = await fetch(`/api/approvals/${encodeURIComponent(approvalId)}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.error);
+        }
+        removeApprovalRequest(approvalId);
+    } catch (error) {
+        addLog(`Błąd zatwierdzania: ${error.message}`, 'error');
+    }
+}
+
 // Abort execution
 async function abortExecution() {
     try {
         const response = await fetch('/api/execute/abort', {
             method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ executionId: currentExecutionId }),
         });
 
         if (response.ok) {
@@ -857,37 +1110,122 @@ function showExecutionSpinner() {
 function hideExecutionSpinner() {
     document.getElementById('execute-spinner').style.display = 'none';
     document.getElementById('main-spinner').style.display = 'none';
+    // Execution finished - pending approvals are no longer awaited
+    document.getElementById('approvals-panel').innerHTML = '';
 }
 
 function displayPlanRealtime(plan) {
     const planSteps = document.getElementById('plan-steps');
-    planSteps.innerHTML = plan.steps.map(step => {
-        // Format model badge if present
-        const modelBadge = step.model ? `<span class="capability-tag" style="background: #f59e0b; color: white; margin-left: 5px;">${step.model}</span>` : '';
-
-        return `
-        <div class="step-item" id="plan-step-${step.step}">
-            <div class="step-header-collapsible" onclick="toggleStepDetails(${step.step})" style="cursor: pointer;">
-                <div style="display: flex; justify-content: space-between; align-items: center;">
-                    <div>
-                        <strong>⏳ Krok ${step.step}:</strong> ${step.description}
-                        <span id="collapse-indicator-${step.step}" style="margin-left: 10px; color: #666; font-size: 12px;">▼</span>
-                    </div>
-                    <div>
-                        <span class="capability-tag">${step.agent}</span>
-                        ${modelBadge}
-                    </div>
+    planSteps.innerHTML = plan.steps.map(renderPlanStepItem).join('');
+}
+
+function renderPlanStepItem(step) {
+    // Format model badge if present
+    const modelBadge = step.model ? `<span class="capability-tag" style="background: #f59e0b; color: white; margin-left: 5px;">${step.model}</span>` : '';
+    // Dependencies badge (steps without dependsOn wait for all previous steps)
+    const dependsBadge = step.dependsOn
+        ? `<span class="capability-tag" style="margin-left: 5px;" title="Kroki, których wyniki są potrzebne">${step.dependsOn.length > 0 ? `← ${step.dependsOn.join(', ')}` : 'równolegle'}</span>`
+        : '';
+
+    return `
+    <div class="step-item" id="plan-step-${step.step}">
+        <div class="step-header-collapsible" onclick="toggleStepDetails(${step.step})" style="cursor: pointer;">
+            <div style="display: flex; justify-content: space-between; align-items: center;">
+                <div>
+                    <strong>⏳ Krok ${step.step}:</strong> ${step.description}
+                    <span id="collapse-indicator-${step.step}" style="margin-left: 10px; color: #666; font-size: 12px;">▼</span>
                 </div>
-            </div>
-            <div class="step-details" id="step-details-${step.step}" style="display: none; margin-top: 12px;">
-                <div style="padding: 10px; background: #f8f9fa; border-radius: 6px;">
-                    <strong style="color: #667eea;">Uzasadnienie:</strong>
-                    <div style="margin-top: 6px; font-size: 13px; color: #666;">${step.reasoning}</div>
+                <div>
+                    <span class="capability-tag">${step.agent}</span>
+                    ${modelBadge}
+                    ${dependsBadge}
                 </div>
             </div>
         </div>
-        `;
-    }).join('');
+        <div class="step-details" id="step-details-${step.step}" style="display: none; margin-top: 12px;">
+            <div style="padding: 10px; background: #f8f9fa; border-radius: 6px;">
+                <strong style="color: #667eea;">Uzasadnienie:</strong>
+                <div style="margin-top: 6px; font-size: 13px; color: #666;">${step.reasoning}</div>
+            </div>
+        </div>
+    </div>
+    `;
+}
+
+// Task ledger of the Magentic-One mode (initial one replaces the plan view, re-planned ones are appended)
+function displayTaskLedger(ledger, replan) {
+    const planSteps = document.getElementById('plan-steps');
+    if (!planSteps) return;
+
+    const list = (items) => items.length > 0
+        ? `<ul style="margin: 4px 0 8px 18px;">${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+        : '<div style="margin: 4px 0 8px 0; color: #999;">(brak)</div>';
+    const ledgerHtml = `
+        <div class="step-item" style="background: #e8eaf6; border-left: 4px solid #667eea; font-size: 13px;">
+            <strong>${replan === 0 ? '📒 Rejestr zadania' : `🔁 Ponowne planowanie #${replan}`}</strong>
+            <div style="margin-top: 8px;"><strong>Fakty:</strong>${list(ledger.facts)}</div>
+            <div><strong>Do sprawdzenia:</strong>${list(ledger.factsToLookUp)}</div>
+            <div><strong>Przypuszczenia:</strong>${list(ledger.guesses)}</div>
+            <div><strong>Plan:</strong>${list(ledger.plan)}</div>
+        </div>
+    `;
+
+    if (replan === 0) {
+        planSteps.innerHTML = ledgerHtml;
+    } else {
+        planSteps.insertAdjacentHTML('beforeend', ledgerHtml);
+    }
+}
+
+// Manager's evaluation before a turn - adds the turn chosen by the manager (or marks the task as done)
+function displayLedgerProgress(progress, turn) {
+    const planSteps = document.getElementById('plan-steps');
+    if (!planSteps) return;
+
+    if (progress.isRequestSatisfied.answer) {
+        planSteps.insertAdjacentHTML('beforeend', `
+            <div class="step-item completed">
+                <strong>🏁 Zadanie wykonane</strong>
+                <div style="margin-top: 6px; font-size: 13px; color: #666;">${escapeHtml(progress.isRequestSatisfied.reason)}</div>
+            </div>
+        `);
+        return;
+    }
+
+    const warnings = [
+        progress.isInLoop.answer ? `⚠️ Pętla: ${progress.isInLoop.reason}` : '',
+        !progress.isProgressBeingMade.answer ? `⚠️ Brak postępu: ${progress.isProgressBeingMade.reason}` : '',
+    ].filter(Boolean).join('<br>');
+
+    planSteps.insertAdjacentHTML('beforeend', renderPlanStepItem({
+        step: turn,
+        description: escapeHtml(progress.instructionOrQuestion.answer),
+        agent: progress.nextSpeaker.answer,
+        model: progress.nextModel,
+        reasoning: escapeHtml(progress.nextSpeaker.reason) + (warnings ? `<br>${warnings}` : ''),
+    }));
+}
+
+// Append steps of a revised plan (after a step failure) below the current ones
+function displayPlanRevision(revision) {
+    const planSteps = document.getElementById('plan-steps');
+    if (!planSteps) return;
+
+    // Mark replaced steps that never started as skipped
+    revision.replacedSteps.forEach(step => {
+        const stepEl = document.getElementById(`plan-step-${step.step}`);
+        if (stepEl && step.step !== revision.failedStep && !stepEl.classList.contains('completed')) {
+            stepEl.style.opacity = '0.5';
+        }
+    });
+
+    const noticeHtml = `
+        <div class="step-item" style="background: #e8eaf6; border-left: 4px solid #667eea;">
+            <strong>🔁 Zmiana planu #${revision.revision}</strong> (po błędzie w kroku ${revision.failedStep})
+            <div style="margin-top: 6px; font-size: 13px; color: #666;">${escapeHtml(revision.reasoning || '')}</div>
+        </div>
+    `;
+    planSteps.insertAdjacentHTML('beforeend', noticeHtml + revision.steps.map(renderPlanStepItem).join(''));
 }
 
 function updateStepStatusRealtime(stepNumber, status, stepData, result) {
@@ -929,6 +1267,8 @@ function updateStepStatusRealtime(stepNumber, status, stepData, result) {
                     <div class="spinner" style="width: 16px; height: 16px;"></div>
                     <span style="color: #666;">Oczekiwanie na odpowiedź...</span>
                 </div>
+                <div id="step-tools-${stepNumber}" style="display: none; margin-top: 8px; padding: 10px; background: #fff3cd; border-radius: 6px; border-left: 3px solid #ffc107; font-size: 13px;"></div>
+                <div id="step-stream-${stepNumber}" class="output-text" style="display: none; margin-top: 8px; padding: 12px; background: white; border-radius: 6px; border-left: 3px solid #667eea; white-space: pre-wrap; max-height: 400px; overflow-y: auto;"></div>
             `;
             detailsDiv.style.display = 'block'; // Show details during execution
         }
@@ -948,6 +1288,7 @@ function updateStepStatusRealtime(stepNumber, status, stepData, result) {
                 <div>
                     <span class="capability-tag">${stepData.agent}</span>
                     ${modelBadge}
+                    ${stepData.usage ? `<span style="margin-left: 5px; font-size: 12px; color: #666;">${formatUsage(stepData.usage)}</span>` : ''}
                 </div>
             `;
         }
@@ -984,6 +1325,7 @@ function updateStepStatusRealtime(stepNumber, status, stepData, result) {
                     <div style="margin-top: 6px; font-family: monospace; font-size: 13px;">${escapeHtml(stepData.description)}</div>
                 </div>
                 ${toolCallsHtml}
+                ${renderArtifactLinks(currentExecutionId, stepData.artifacts)}
                 <div style="padding: 12px; background: white; border-radius: 6px; border-left: 3px solid #28a745;">
                     <strong style="color: #28a745;">📥 Odpowiedź agenta:</strong>
                     <div class="output-text" style="margin-top: 8px; white-space: pre-wrap;">${escapeHtml(result)}</div>
@@ -1005,6 +1347,54 @@ function updateStepStatusRealtime(stepNumber, status, stepData, result) {
     }
 }
 
+// Append streamed response text to an executing step
+function appendStepDelta(stepNumber, delta) {
+    const streamEl = document.getElementById(`step-stream-${stepNumber}`);
+    if (!streamEl) return;
+
+    streamEl.style.display = 'block';
+    streamEl.textContent += delta;
+    streamEl.scrollTop = streamEl.scrollHeight;
+}
+
+// Show a tool call of an executing step as soon as the agent makes it
+function appendStepToolCall(stepNumber, toolCall) {
+    const toolsEl = document.getElementById(`step-tools-${stepNumber}`);
+    if (!toolsEl) return;
+
+    toolsEl.style.display = 'block';
+    toolsEl.insertAdjacentHTML('beforeend', `
+        <div id="step-tool-${stepNumber}-${escapeAttribute(toolCall.id)}" style="margin-top: 4px;">
+            🛠️ <strong style="color: #856404;">${escapeHtml(toolCall.name)}</strong>
+            <span class="tool-call-status" style="color: #666;">⏳ w toku...</span>
+        </div>
+    `);
+}
+
+// Mark a live tool call as finished (with its duration)
+function finishStepToolCall(stepNumber, record, durationMs) {
+    const callEl = document.getElementById(`step-tool-${stepNumber}-${record.id}`);
+    const statusEl = callEl && callEl.querySelector('.tool-call-status');
+    if (!statusEl) return;
+
+    const failed = record.approval === 'reject' || (record.result && (record.result.isError || record.result.error));
+    statusEl.textContent = `${failed ? '❌' : '✓'} ${(durationMs / 1000).toFixed(1)}s`;
+}
+
+// Clear streamed text (step is retried or falls back to another agent)
+function resetStepStream(stepNumber) {
+    const streamEl = document.getElementById(`step-stream-${stepNumber}`);
+    if (streamEl) {
+        streamEl.textContent = '';
+        streamEl.style.display = 'none';
+    }
+    const toolsEl = document.getElementById(`step-tools-${stepNumber}`);
+    if (toolsEl) {
+        toolsEl.innerHTML = '';
+        toolsEl.style.display = 'none';
+    }
+}
+
 // Toggle step details visibility
 function toggleStepDetails(stepNumber) {
     const details = document.getElementById(`step-details-${stepNumber}`);
@@ -1021,9 +1411,66 @@ function toggleStepDetails(stepNumber) {
     }
 }
 
-function displayFinalResult(result) {
+function displayFinalResult(result, usage, rawResult) {
     document.getElementById('result-section').style.display = 'block';
     document.getElementById('final-result').textContent = result;
+
+    // Step results the final answer was written from
+    currentRawResult = rawResult || null;
+    document.getElementById('raw-result-section').style.display = rawResult ? 'block' : 'none';
+    document.getElementById('raw-result').textContent = rawResult || '';
+
+    const usageEl = document.getElementById('final-usage');
+    if (usageEl) {
+        usageEl.style.display = usage ? 'block' : 'none';
+        usageEl.textContent = usage ? `Łącznie (z planowaniem): ${formatUsage(usage)}` : '';
+    }
+}
+
+// Token usage and cost, e.g. "🪙 1234 → 567 tokenów · $0.0123"
+function formatUsage(usage) {
+    return `🪙 ${usage.inputTokens} → ${usage.outputTokens} tokenów · $${usage.cost.toFixed(4)}`;
+}
+
+// Download links of the artifacts written in a step
+function renderArtifactLinks(executionId, artifacts) {
+    if (!executionId || !artifacts || artifacts.length === 0) {
+        return '';
+    }
+    return `
+        <div style="padding: 10px; background: #e7f5ff; border-radius: 6px; margin: 8px 0; border-left: 3px solid #339af0;">
+            <strong style="font-size: 12px; color: #1864ab;">📎 Artefakty (${artifacts.length}):</strong>
+            ${artifacts.map(artifact => `
+                <div style="margin-top: 4px; font-size: 12px;">
+                    <a href="/api/executions/${encodeURIComponent(executionId)}/artifacts/${encodeURIComponent(artifact.name)}" download="${escapeAttribute(artifact.name)}">${escapeHtml(artifact.name)}</a>
+                    <span style="color: #666;">(${artifact.size} znaków${artifact.kind === 'tool_result' ? `, pełny wynik ${escapeHtml(artifact.toolName || '')}` : ''})${artifact.description ? ` - ${escapeHtml(artifact.description)}` : ''}</span>
+                </div>
+            `).join('')}
+        </div>
+    `;
+}
+
+// Artifacts written by agents (with their content) for exports
+async function fetchExportArtifacts() {
+    if (!currentExecutionId) {
+        return [];
+    }
+    try {
+        const response = await fetch(`/api/executions/${encodeURIComponent(currentExecutionId)}/artifacts`);
+        if (!response.ok) {
+            return [];
+        }
+        const { artifacts } = await response.json();
+        return await Promise.all(artifacts
+            .filter(artifact => artifact.kind === 'file')
+            .map(async (artifact) => {
+                const file = await fetch(`/api/executions/${encodeURIComponent(currentExecutionId)}/artifacts/${encodeURIComponent(artifact.name)}`);
+                return { ...artifact, content: file.ok ? await file.text() : null };
+            }));
+    } catch (error) {
+        addLog(`Nie udało się pobrać artefaktów do eksportu: ${error.message}`, 'warning');
+        return [];
+    }
 }
 
 function escapeHtml(text) {
@@ -1032,6 +1479,11 @@ function escapeHtml(text) {
     return div.innerHTML;
 }
 
+// Escape text placed inside a quoted HTML attribute
+function escapeAttribute(text) {
+    return escapeHtml(text).replace(/"/g, '&quot;');
+}
+
 // Load executions history
 async function loadExecutionsHistory() {
     try {
@@ -1085,7 +1537,7 @@ async function viewExecution(executionId) {
 // Export result in different formats
 let currentExecutionData = null; // Store current execution data for export
 
-function exportResult(format) {
+async function exportResult(format) {
     const finalResult = document.getElementById('final-result').textContent;
 
     if (!finalResult) {
@@ -1093,6 +1545,9 @@ function exportResult(format) {
         return;
     }
 
+    // Artifacts written by agents (CSV, markdown, JSON, code) are part of the JSON and Markdown exports
+    const artifacts = format === 'txt' ? [] : await fetchExportArtifacts();
+
     let content = '';
     let filename = '';
     let mimeType = '';
@@ -1109,7 +1564,10 @@ function exportResult(format) {
             const jsonData = {
                 timestamp: new Date().toISOString(),
                 result: finalResult,
+                rawResult: currentRawResult, // Step results the final answer was written from
                 plan: currentPlan || null,
+                outputs: stepOutputs, // Structured step results by step number
+                artifacts,
                 execution: currentExecutionData || null
             };
             content = JSON.stringify(jsonData, null, 2);
@@ -1129,10 +1587,27 @@ function exportResult(format) {
                         content += `- **Model:** ${step.model}\n`;
                     }
                     content += `- **Uzasadnienie:** ${step.reasoning}\n\n`;
+                    if (stepOutputs[step.step] !== undefined) {
+                        content += '```json\n' + JSON.stringify(stepOutputs[step.step], null, 2) + '\n```\n\n';
+                    }
                 });
             }
             content += `## Wynik Końcowy\n\n`;
             content += finalResult;
+            if (currentRawResult) {
+                content += `\n\n## Wyniki Kroków\n\n${currentRawResult}`;
+            }
+            if (artifacts.length > 0) {
+                content += `\n\n## Artefakty\n`;
+                artifacts.forEach(artifact => {
+                    content += `\n### ${artifact.name}${artifact.step !== undefined ? ` (krok ${artifact.step})` : ''}\n\n`;
+                    if (artifact.description) {
+                        content += `${artifact.description}\n\n`;
+                    }
+                    const fence = artifact.content && artifact.content.includes('```') ? '~~~~' : '```';
+                    content += `${fence}${artifact.name.split('.').pop()}\n${artifact.content ?? '(brak pliku)'}\n${fence}\n`;
+                });
+            }
             filename = `wynik-${timestamp}.md`;
             mimeType = 'text/markdown';
             break;
@@ -1310,9 +1785,17 @@ async function loadExecutionsHistory() {
                            date.toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' });
 
             // Show steps info: executed / planned
-            const stepsInfo = exec.plannedSteps > 0
-                ? `Kroków: ${exec.stepCount}/${exec.plannedSteps}`
-                : `Kroków: ${exec.stepCount}`;
+            let stepsInfo = exec.mode === 'ledger'
+                ? `Magentic-One · tur: ${exec.stepCount}`
+                : exec.plannedSteps > 0
+                    ? `Kroków: ${exec.stepCount}/${exec.plannedSteps}`
+                    : `Kroków: ${exec.stepCount}`;
+            if (exec.usage) {
+                stepsInfo += ` · $${exec.usage.cost.toFixed(4)}`;
+            }
+            if (exec.resumable) {
+                stepsInfo += ' · <span style="color: #dc3545;">⏸ do wznowienia</span>';
+            }
 
             item.innerHTML = `
                 <div style="font-size: 12px; color: #667eea; font-weight: 600; margin-bottom: 5px;">${dateStr}</div>
@@ -1341,6 +1824,9 @@ async function loadExecutionsHistory() {
     }
 }
 
+// Execution view replaced by the details view (restored on resume)
+let mainViewHtml = null;
+
 // View execution details
 async function viewExecutionDetails(executionId) {
     try {
@@ -1362,7 +1848,71 @@ async function viewExecutionDetails(executionId) {
                     <div style="margin-bottom: 20px; padding: 15px; background: #f8f9fa; border-radius: 8px;">
                         <strong style="color: #667eea;">Zadanie:</strong>
                         <p style="margin: 10px 0 0 0;">${execution.messages.find(m => m.role === 'user')?.content || 'N/A'}</p>
+                    </div>
+
+                    <div style="margin-bottom: 20px;">
+                        <button class="btn btn-secondary" onclick="loadTraceWaterfall('${executionId}')">⏱ Pokaż przebieg (trace)</button>
+                        <div id="trace-waterfall" style="display: none; margin-top: 10px;"></div>
+                    </div>`;
+
+        // Aborted, failed or interrupted execution - continue with the uncompleted steps
+        // (a different agent/model can be chosen for the step whose error stopped the execution)
+        if (execution.resumable) {
+            const hasFailedStep = execution.failedStep !== undefined && execution.failedStep !== null;
+            html += `
+                    <div style="margin-bottom: 20px; padding: 15px; background: #f8d7da; border-radius: 8px; border-left: 4px solid #dc3545;">
+                        <strong style="color: #721c24;">⏸ Wykonanie niedokończone${execution.status === 'interrupted' ? ' (przerwane restartem serwera)' : ''}</strong>
+                        <p style="margin: 10px 0; font-size: 13px;">Wznowienie wykona pozostałe kroki planu - wyniki ukończonych kroków zostaną użyte jako kontekst.</p>
+                        <div style="display: flex; gap: 10px; flex-wrap: wrap; align-items: center;">
+                            ${hasFailedStep ? `
+                            <span style="font-size: 13px;">Krok ${execution.failedStep} ponów z:</span>
+                            <select id="resume-agent">
+                                <option value="">Ten sam agent</option>
+                                ${PLAN_AGENTS.map(agent => `<option value="${agent}">${agent}</option>`).join('')}
+                            </select>
+                            <input type="text" id="resume-model" placeholder="Model (opcjonalnie)">` : ''}
+                            <button class="btn" onclick="resumeExecution('${executionId}')">▶ Wznów wykonanie</button>
+                        </div>
+                    </div>`;
+        }
+
+        // Show earlier resumes of this execution
+        if (execution.resumes && execution.resumes.length > 0) {
+            html += `
+                    <div style="margin-bottom: 20px; padding: 15px; background: #e8eaf6; border-radius: 8px; border-left: 4px solid #667eea;">
+                        <strong>🔄 Wznowienia:</strong>
+                        ${execution.resumes.map(resume => `
+                        <p style="margin: 5px 0; font-size: 13px;">
+                            ${new Date(resume.resumedAt).toLocaleString('pl-PL')} - kroki ${resume.steps.join(', ')}
+                            ${resume.retry ? ` · krok ${resume.retry.step} ponowiony z ${resume.retry.agent}${resume.retry.model ? ` (${resume.retry.model})` : ''}` : ''}
+                        </p>`).join('')}
+                    </div>`;
+        }
+
+        // Final answer written from the step results
+        if (execution.synthesis) {
+            html += `
+                    <div style="margin-bottom: 20px; padding: 15px; background: #d4edda; border-radius: 8px; border-left: 4px solid #28a745;">
+                        <strong style="color: #155724;">✅ Odpowiedź końcowa</strong>
+                        <span style="font-size: 12px; color: #666; margin-left: 8px;">${execution.synthesis.agent}${execution.synthesis.model ? ` (${execution.synthesis.model})` : ''}${execution.synthesis.usage ? ` · ${formatUsage(execution.synthesis.usage)}` : ''}</span>
+                        <div style="margin-top: 10px; font-size: 13px; white-space: pre-wrap;">${escapeHtml(execution.synthesis.answer)}</div>
+                    </div>`;
+        }
+
+        // Magentic-One execution - latest task ledger and why the loop ended
+        if (execution.ledger) {
+            const taskLedger = execution.ledger.taskLedgers[execution.ledger.taskLedgers.length - 1];
+            const stopReasons = { satisfied: 'zadanie wykonane', max_turns: 'limit tur', stalled: 'brak postępu' };
+            html += `
+                    <div style="margin-bottom: 20px; padding: 15px; background: #e8eaf6; border-radius: 8px; border-left: 4px solid #667eea;">
+                        <strong>📒 Tryb Magentic-One</strong>
+                        <p style="margin: 10px 0 5px 0;"><strong>Tur:</strong> ${execution.stepExecutions?.length || 0}${execution.ledger.stopReason ? ` · zakończono: ${stopReasons[execution.ledger.stopReason]}` : ''}</p>
+                        <p style="margin: 5px 0;"><strong>Ponowne planowania:</strong> ${execution.ledger.taskLedgers.length - 1}</p>
+                        ${taskLedger ? `<p style="margin: 5px 0;"><strong>Plan:</strong></p>
+                        <ul style="margin: 4px 0 0 18px; font-size: 13px;">${taskLedger.plan.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : ''}
+                        ${execution.usage ? `<p style="margin: 5px 0;"><strong>Zużycie:</strong> ${formatUsage(execution.usage)}</p>` : ''}
                     </div>`;
+        }
 
         // Show manager's plan with all steps
         if (execution.plan) {
@@ -1371,14 +1921,35 @@ async function viewExecutionDetails(executionId) {
                         <strong style="color: #856404;">📋 Plan Managera:</strong>
                         <p style="margin: 10px 0 5px 0;"><strong>Cel:</strong> ${execution.plan.goal}</p>
                         <p style="margin: 5px 0;"><strong>Kroków:</strong> ${execution.plan.steps.length}</p>
+                        ${execution.originalPlan ? `<p style="margin: 5px 0;">✏️ Plan edytowany przez użytkownika (plan managera miał kroków: ${execution.originalPlan.steps.length})</p>` : ''}
+                        ${execution.usage ? `<p style="margin: 5px 0;"><strong>Zużycie:</strong> ${formatUsage(execution.usage)}</p>
+                        <p style="margin: 5px 0; font-size: 12px; color: #666;">${Object.entries(execution.usage.byModel).map(([model, u]) => `${model}: ${u.inputTokens} → ${u.outputTokens} ($${u.cost.toFixed(4)})`).join(' · ')}</p>` : ''}
                     </div>`;
 
+            // Show plan revisions (failed steps replaced by the manager)
+            if (execution.planRevisions && execution.planRevisions.length > 0) {
+                html += '<div style="margin-bottom: 20px;"><h3 style="color: #333; margin-bottom: 15px;">🔁 Zmiany planu:</h3>';
+                execution.planRevisions.forEach(revision => {
+                    html += `
+                        <div style="margin-bottom: 10px; padding: 12px; background: #e8eaf6; border-radius: 8px; border-left: 4px solid #667eea;">
+                            <strong>Zmiana #${revision.revision}</strong> - błąd w kroku ${revision.failedStep}
+                            <div style="margin-top: 6px; font-size: 12px; color: #721c24; white-space: pre-wrap;">${escapeHtml(revision.error)}</div>
+                            <div style="margin-top: 6px; font-size: 13px; color: #666;">${escapeHtml(revision.reasoning || '')}</div>
+                            <div style="margin-top: 6px; font-size: 12px; color: #666;">
+                                Zastąpione kroki: ${revision.replacedSteps.map(s => s.step).join(', ')} → nowe kroki: ${revision.steps.map(s => s.step).join(', ')}
+                            </div>
+                        </div>`;
+                });
+                html += '</div>';
+            }
+
             // Show all planned steps
             html += '<div style="margin-bottom: 20px;"><h3 style="color: #333; margin-bottom: 15px;">🔧 Kroki (Plan i Wykonanie):</h3>';
 
             execution.plan.steps.forEach((plannedStep, idx) => {
                 // Find corresponding execution for this step
-                const stepExecution = execution.stepExecutions?.find(se => se.stepNumber === plannedStep.step);
+                // Find corresponding execution for this step (latest record - steps may be re-run after resume)
+                const stepExecution = execution.stepExecutions?.filter(se => se.stepNumber === plannedStep.step).pop();
 
                 let statusColor = '#e0e0e0'; // Default: not executed
                 let statusText = 'Nie wykonano';
@@ -1416,6 +1987,25 @@ async function viewExecutionDetails(executionId) {
                     html += `<div style="font-size: 12px; color: #666; margin-bottom: 8px;">Model: ${plannedStep.model}</div>`;
                 }
 
+                if (stepExecution && stepExecution.usage) {
+                    html += `<div style="font-size: 12px; color: #666; margin-bottom: 8px;">${formatUsage(stepExecution.usage)}</div>`;
+                }
+
+                // Fallback agent that actually produced the result
+                const executedBy = stepExecution && stepExecution.executedBy;
+                if (executedBy && (executedBy.agent !== plannedStep.agent || executedBy.model !== plannedStep.model)) {
+                    html += `<div style="font-size: 12px; color: #856404; margin-bottom: 8px;">🔀 Wykonane przez agenta zapasowego: ${executedBy.agent}${executedBy.model ? ` (${executedBy.model})` : ''}</div>`;
+                }
+
+                // Failed attempts (retries and fallbacks)
+                const failedAttempts = stepExecution && stepExecution.attempts ? stepExecution.attempts.filter(a => a.error) : [];
+                if (failedAttempts.length > 0) {
+                    html += `<div style="margin-bottom: 8px; font-size: 12px; color: #666;">
+                                <strong>🔁 Nieudane próby (${failedAttempts.length}):</strong>
+                                ${failedAttempts.map(a => `<div style="margin-top: 4px;">${a.agent}${a.model ? ` (${a.model})` : ''}, próba ${a.attempt}: ${escapeHtml(a.error)}</div>`).join('')}
+                            </div>`;
+                }
+
                 // If step was executed, show tool calls
                 if (stepExecution && stepExecution.toolCalls && stepExecution.toolCalls.length > 0) {
                     html += `<div style="margin-top: 10px; padding: 10px; background: #fff3cd; border-radius: 5px; border-left: 3px solid #ffc107;">
@@ -1444,6 +2034,10 @@ async function viewExecutionDetails(executionId) {
                     html += '</div>';
                 }
 
+                if (stepExecution) {
+                    html += renderArtifactLinks(executionId, stepExecution.artifacts);
+                }
+
                 // Show agent response
                 if (stepExecution && stepExecution.response) {
                     html += `<div style="margin-top: 10px; padding: 10px; background: #d4edda; border-radius: 5px; border-left: 3px solid #28a745;">
@@ -1475,7 +2069,7 @@ async function viewExecutionDetails(executionId) {
                 html += `
                     <div style="margin-bottom: 15px; padding: 15px; background: #f8f9fa; border-radius: 8px; border-left: 4px solid ${statusColor};">
                         <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 10px;">
-                            <strong style="color: #667eea;">Krok ${step.stepNumber}: ${step.agent}</strong>
+                            <strong style="color: #667eea;">${execution.ledger ? 'Tura' : 'Krok'} ${step.stepNumber}: ${step.agent}</strong>
                             <span style="padding: 4px 10px; background: ${statusColor}; color: white; border-radius: 12px; font-size: 11px; font-weight: 600;">${step.status}</span>
                         </div>
                         <div style="font-size: 13px; margin-bottom: 8px;">${step.description}</div>`;
@@ -1511,6 +2105,8 @@ async function viewExecutionDetails(executionId) {
                     html += '</div>';
                 }
 
+                html += renderArtifactLinks(executionId, step.artifacts);
+
                 // Show agent response
                 if (step.response) {
                     html += `<div style="margin-top: 10px; padding: 10px; background: #d4edda; border-radius: 5px; border-left: 3px solid #28a745;">
@@ -1539,6 +2135,7 @@ async function viewExecutionDetails(executionId) {
 
         // Show modal or replace content
         const mainContent = document.querySelector('#execute-tab > div > div:last-child');
+        mainViewHtml = mainViewHtml || mainContent.innerHTML;
         mainContent.innerHTML = html;
 
     } catch (error) {
@@ -1547,6 +2144,106 @@ async function viewExecutionDetails(executionId) {
     }
 }
 
+const TRACE_SPAN_COLORS = { execution: '#667eea', step: '#17a2b8', llm_call: '#ffc107', tool_call: '#28a745' };
+
+// Attributes of an OTLP/JSON span as a plain object
+function traceAttributes(attributes) {
+    const values = {};
+    (attributes || []).forEach(({ key, value }) => {
+        values[key] = value.stringValue ?? value.intValue ?? value.doubleValue ?? value.boolValue;
+    });
+    return values;
+}
+
+// Waterfall view of an execution trace (execution → step → LLM call → tool call)
+async function loadTraceWaterfall(executionId) {
+    const container = document.getElementById('trace-waterfall');
+    container.style.display = 'block';
+    container.innerHTML = '<span style="color: #666;">Ładowanie trace...</span>';
+
+    try {
+        const response = await fetch(`/api/executions/${executionId}/trace`);
+        if (!response.ok) {
+            container.innerHTML = '<span style="color: #666;">Brak trace dla tego wykonania</span>';
+            return;
+        }
+        const trace = await response.json();
+        const spans = trace.resourceSpans[0].scopeSpans[0].spans.map(span => ({
+            ...span,
+            start: Number(BigInt(span.startTimeUnixNano) / 1000000n),
+            end: Number(BigInt(span.endTimeUnixNano) / 1000000n),
+            attributes: traceAttributes(span.attributes),
+        }));
+
+        const traceStart = Math.min(...spans.map(span => span.start));
+        const traceDuration = Math.max(1, Math.max(...spans.map(span => span.end)) - traceStart);
+
+        // Children follow their parent, in start order
+        const rows = [];
+        const addSpans = (parentSpanId, depth) => {
+            spans
+                .filter(span => (span.parentSpanId || null) === parentSpanId)
+                .sort((a, b) => a.start - b.start)
+                .forEach(span => {
+                    rows.push({ span, depth });
+                    addSpans(span.spanId, depth + 1);
+                });
+        };
+        addSpans(null, 0);
+
+        container.innerHTML = `
+            <div style="padding: 10px; background: #f8f9fa; border-radius: 8px; font-size: 12px;">
+                <div style="color: #666; margin-bottom: 8px;">Czas całkowity: ${(traceDuration / 1000).toFixed(1)}s · ${spans.length} spanów · <a href="/api/executions/${executionId}/trace" target="_blank">JSON (OTLP)</a></div>
+                ${rows.map(({ span, depth }) => {
+                    const kind = span.attributes['span.kind'];
+                    const failed = span.status && span.status.code === 2;
+                    const left = ((span.start - traceStart) / traceDuration) * 100;
+                    const width = Math.max(0.3, ((span.end - span.start) / traceDuration) * 100);
+                    const details = Object.entries(span.attributes)
+                        .filter(([key]) => key !== 'span.kind')
+                        .map(([key, value]) => `<div><strong>${escapeHtml(key)}:</strong> <span style="white-space: pre-wrap;">${escapeHtml(String(value))}</span></div>`)
+                        .join('');
+                    return `
+                        <details style="margin: 2px 0;">
+                            <summary style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+                                <span style="width: 220px; flex-shrink: 0; padding-left: ${depth * 14}px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; ${failed ? 'color: #dc3545;' : ''}">${failed ? '❌ ' : ''}${escapeHtml(span.name)}</span>
+                                <span style="flex: 1; position: relative; height: 14px; background: #e9ecef; border-radius: 3px;">
+                                    <span style="position: absolute; left: ${left}%; width: ${width}%; height: 100%; border-radius: 3px; background: ${failed ? '#dc3545' : TRACE_SPAN_COLORS[kind] || '#999'};"></span>
+                                </span>
+                                <span style="width: 60px; flex-shrink: 0; text-align: right; color: #666;">${((span.end - span.start) / 1000).toFixed(2)}s</span>
+                            </summary>
+                            <div style="margin: 4px 0 8px ${depth * 14 + 10}px; padding: 8px; background: white; border-radius: 4px; max-height: 300px; overflow-y: auto;">
+                                ${details}
+                                ${span.status && span.status.message ? `<div style="color: #dc3545;"><strong>Błąd:</strong> ${escapeHtml(span.status.message)}</div>` : ''}
+                                ${(span.events || []).map(event => `<div style="color: #666;">• ${escapeHtml(event.name)} (+${((Number(BigInt(event.timeUnixNano) / 1000000n) - traceStart) / 1000).toFixed(2)}s)</div>`).join('')}
+                            </div>
+                        </details>
+                    `;
+                }).join('')}
+            </div>
+        `;
+    } catch (error) {
+        console.error('Failed to load trace:', error);
+        container.innerHTML = '<span style="color: #dc3545;">Błąd ładowania trace</span>';
+    }
+}
+
+// Resume a saved execution - the execution view is restored to show its progress
+async function resumeExecution(executionId) {
+    const agent = document.getElementById('resume-agent')?.value;
+    const model = document.getElementById('resume-model')?.value.trim();
+
+    document.querySelector('#execute-tab > div > div:last-child').innerHTML = mainViewHtml;
+    mainViewHtml = null;
+
+    addLog(`Wznawianie wykonania ${executionId}`, 'info');
+    await startExecution(`/api/executions/${executionId}/resume`, {
+        executionId,
+        agent: agent || undefined,
+        model: model || undefined,
+    });
+}
+
 // Close execution details
 function closeExecutionDetails() {
     location.reload(); // Simple way to restore the original view
@@ -8,7 +8,15 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { promises as fs } from 'fs';
 import { MagenticOrchestrator } from '../orchestrator.js';
-import { MCPServerConfig, Plan } from '../types/index.js';
+import { PlanExecutor, StepOutcome, validatePlan } from '../plan-executor.js';
+import { LedgerStopReason } from '../ledger-loop.js';
+import { validateOutputSchema } from '../structured-output.js';
+import { ExecutionContext } from '../execution-context.js';
+import { ChatTurn } from '../chat-history.js';
+import { Artifact } from '../artifacts.js';
+import { UsageRecord, UsageSummary, mergeUsageSummaries, summarizeUsage } from '../usage.js';
+import { ToolApprovalDecision, ToolApprovalRequest, ToolApprover } from '../tool-approval.js';
+import { MCPServerConfig, Message, Plan, PlanRevision, PlanStep, ProgressLedger, StepAttempt, TaskLedger } from '../types/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -161,6 +169,7 @@ interface StepExecution {
   description: string;
   query: string; // Zapytanie do modelu
   response: string; // Odpowiedź modelu
+  output?: unknown; // Wynik strukturalny (JSON zgodny z outputSchema kroku)
   toolCalls?: Array<{
     id: string;
     name: string;
@@ -169,10 +178,42 @@ interface StepExecution {
   }>; // Tool calls wykonane podczas tego kroku
   status: 'executing' | 'completed' | 'error' | 'aborted';
   error?: string;
+  executedBy?: { agent: string; model?: string }; // Agent, który faktycznie wykonał krok (może być zapasowy)
+  attempts?: StepAttempt[]; // Próby wykonania (ponowienia i agenci zapasowi)
+  usage?: UsageSummary; // Zużycie tokenów i koszt kroku (wszystkie próby)
+  artifacts?: Artifact[]; // Artefakty zapisane w tym kroku (pliki agentów i zbyt długie wyniki narzędzi)
   startedAt: string;
   completedAt?: string;
 }
 
+type ExecutionStatus = 'executing' | 'completed' | 'error' | 'aborted' | 'interrupted';
+
+// Odpowiedź końcowa napisana na podstawie wyników kroków
+interface FinalSynthesis {
+  agent: string;
+  model?: string;
+  answer: string;
+  usage?: UsageSummary;
+}
+
+// 'plan' - plan managera, potem wykonanie; 'ledger' - pętla Magentic-One (manager wybiera agenta po każdej turze)
+type ExecutionMode = 'plan' | 'ledger';
+
+// Stan wykonania w trybie 'ledger'
+interface LedgerState {
+  taskLedgers: TaskLedger[]; // Rejestr zadania - początkowy i po każdym ponownym planowaniu
+  progress: Array<ProgressLedger & { turn: number }>; // Ocena postępu przed każdą turą
+  stopReason?: LedgerStopReason; // Dlaczego pętla się zakończyła
+}
+
+// Wznowienie przerwanego lub nieudanego wykonania
+interface ExecutionResume {
+  resumedAt: string;
+  steps: number[]; // Kroki niewykonane w chwili wznowienia
+  retry?: { step: number; agent: string; model?: string }; // Krok ponowiony z innym agentem/modelem
+  usageBefore?: UsageSummary; // Zużycie wykonania przed wznowieniem
+}
+
 interface ChatSession {
   id: string;
   agent: string;
@@ -181,16 +222,51 @@ interface ChatSession {
     content: string;
     timestamp: string;
     files?: FileAttachment[];
+    agent?: string; // Agent, który udzielił odpowiedzi
+    transcript?: Message[]; // Odpowiedź z wywołaniami narzędzi i wynikami w formacie agenta (odtwarzana w kolejnych wiadomościach)
   }>;
-  plan?: Plan; // Plan utworzony przez managera
+  plan?: Plan; // Plan utworzony przez managera (aktualny - po ewentualnych zmianach)
+  originalPlan?: Plan; // Plan managera przed edycją przez użytkownika (gdy plan był edytowany w UI)
+  planRevisions?: PlanRevision[]; // Historia zmian planu po błędach kroków
   stepExecutions?: StepExecution[]; // Szczegóły wykonania każdego kroku
+  usage?: UsageSummary; // Zużycie tokenów i koszt całego wykonania (z planowaniem)
+  status?: ExecutionStatus; // Stan wykonania ('interrupted' - przerwane restartem serwera)
+  resumes?: ExecutionResume[]; // Historia wznowień wykonania
+  failedStep?: number; // Krok, którego błąd zatrzymał wykonanie (ponawiany przy wznowieniu z innym agentem/modelem)
+  mode?: ExecutionMode; // Brak pola = 'plan'
+  synthesis?: FinalSynthesis; // Brak pola - wynikiem są połączone wyniki kroków (synteza wyłączona lub nieudana)
+  ledger?: LedgerState; // Rejestry trybu 'ledger' (tury agentów są w stepExecutions)
   createdAt: string;
   updatedAt: string;
 }
 
-let currentChatId: string | null = null;
-let currentChatFiles: FileAttachment[] = []; // Files available for current execution context
-let currentExecutionSession: ChatSession | null = null; // Current execution session for abort handling
+const uploadedFiles = new Map<string, FileAttachment>(); // Uploaded files by filename
+const activeExecutions = new Map<string, ExecutionContext<ChatSession>>(); // Running executions by id
+
+interface PendingApproval {
+  executionId: string;
+  request: ToolApprovalRequest;
+  resolve: (decision: ToolApprovalDecision) => void;
+}
+const pendingApprovals = new Map<string, PendingApproval>(); // Tool calls waiting for a decision by approval id
+
+// Pause a tool call of a running execution or chat until the UI/API responds via /api/approvals/:approvalId
+function createApprover(executionId: string, emit: (message: any) => void): ToolApprover {
+  return (request) => new Promise((resolve) => {
+    pendingApprovals.set(request.id, { executionId, request, resolve });
+    emit({ type: 'approval_required', approval: request });
+  });
+}
+
+// Forget a finished execution or chat together with its unanswered approvals
+function releaseExecution(executionId: string): void {
+  activeExecutions.delete(executionId);
+  for (const [approvalId, pending] of pendingApprovals) {
+    if (pending.executionId === executionId) {
+      pendingApprovals.delete(approvalId);
+    }
+  }
+}
 
 // WebSocket connection
 wss.on('connection', (ws) => {
@@ -399,7 +475,7 @@ async function loadExecution(executionId: string): Promise<ChatSession | null> {
   }
 }
 
-async function listExecutions(): Promise<Array<{ id: string; task: string; createdAt: string; updatedAt: string; stepCount: number; plannedSteps: number; aborted?: boolean }>> {
+async function listExecutions(): Promise<Array<{ id: string; task: string; createdAt: string; updatedAt: string; stepCount: number; plannedSteps: number; aborted?: boolean; status?: ExecutionStatus; mode?: ExecutionMode; resumable: boolean; usage?: UsageSummary }>> {
   try {
     await ensureExecutionsDir();
     const files = await fs.readdir(EXECUTIONS_DIR);
@@ -434,6 +510,10 @@ async function listExecutions(): Promise<Array<{ id: string; task: string; creat
             stepCount,
             plannedSteps,
             aborted,
+            status: session.status,
+            mode: session.mode,
+            resumable: isResumable(session),
+            usage: session.usage,
           });
         } catch (error) {
           // Skip invalid files
@@ -453,6 +533,192 @@ function generateExecutionId(): string {
   return `exec-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Save an execution together with the token usage totals of its context
+// (a resumed execution keeps the usage of its earlier runs)
+async function saveExecutionContext(context: ExecutionContext<ChatSession>): Promise<void> {
+  const session = context.session!;
+  const usageBefore = session.resumes?.[session.resumes.length - 1]?.usageBefore;
+  session.usage = mergeUsageSummaries(usageBefore, summarizeUsage(context.usage));
+  await saveExecution(session);
+}
+
+// Outcomes of plan steps completed so far (the latest record of each step counts)
+function getCompletedOutcomes(session: ChatSession): StepOutcome[] {
+  const outcomes: StepOutcome[] = [];
+  for (const step of session.plan?.steps || []) {
+    const latest = session.stepExecutions?.filter((se) => se.stepNumber === step.step).pop();
+    if (latest?.status === 'completed') {
+      outcomes.push({ step, result: latest.response, output: latest.output });
+    }
+  }
+  return outcomes;
+}
+
+// An execution can be resumed when it is not running and has uncompleted plan steps
+function isResumable(session: ChatSession): boolean {
+  if (!session.plan || session.status === 'executing' || activeExecutions.has(session.id)) {
+    return false;
+  }
+  return getCompletedOutcomes(session).length < session.plan.steps.length;
+}
+
+// Executions still marked as running were cut off by a server crash or restart - mark them resumable
+async function markInterruptedExecutions(): Promise<void> {
+  await ensureExecutionsDir();
+  for (const file of await fs.readdir(EXECUTIONS_DIR)) {
+    if (!file.endsWith('.json')) continue;
+
+    const session = await loadExecution(file.slice(0, -'.json'.length));
+    const runningSteps = session?.stepExecutions?.filter((se) => se.status === 'executing') || [];
+    if (!session || (session.status !== 'executing' && runningSteps.length === 0)) continue;
+
+    for (const stepExecution of runningSteps) {
+      stepExecution.status = 'aborted';
+      stepExecution.error = 'Przerwane przez restart serwera';
+    }
+    session.status = 'interrupted';
+    session.messages.push({
+      role: 'assistant',
+      content: '[Wykonanie przerwane - restart serwera]',
+      timestamp: new Date().toISOString(),
+    });
+    await saveExecution(session);
+    console.log(`[Server] Execution ${session.id} was interrupted - it can be resumed`);
+  }
+}
+
+// Save and report an execution stopped by its budget
+async function finishOverBudget(context: ExecutionContext<ChatSession>, error: any, completedResults: string[]) {
+  const session = context.session!;
+  console.warn(`[Server] Execution ${context.id} stopped: ${error.message}`);
+
+  session.status = 'error';
+  session.messages.push({
+    role: 'assistant',
+    content: `[Przekroczono budżet] ${error.message}`,
+    timestamp: new Date().toISOString(),
+  });
+  session.updatedAt = new Date().toISOString();
+  await saveExecutionContext(context);
+
+  broadcast({
+    type: 'execution_error',
+    error: `Wykonanie przerwane - przekroczono budżet: ${error.message}`,
+    executionId: context.id,
+  });
+
+  return {
+    plan: session.plan,
+    planRevisions: session.planRevisions,
+    result: [...completedResults, `❌ Wykonanie przerwane - przekroczono budżet: ${error.message}`].join('\n\n'),
+    error: true,
+    budgetExceeded: error.violation,
+    sessionId: session.id,
+    usage: session.usage,
+  };
+}
+
+// Execution ids may be chosen by the client (to match events before the response arrives)
+function isValidExecutionId(id: unknown): id is string {
+  return typeof id === 'string' && /^exec-[A-Za-z0-9-]+$/.test(id);
+}
+
+// Get uploaded files by their filenames
+function getUploadedFiles(fileIds?: string[]): FileAttachment[] {
+  if (!fileIds) {
+    return [];
+  }
+  return fileIds
+    .map((id) => uploadedFiles.get(id))
+    .filter((f): f is FileAttachment => !!f);
+}
+
+// Append the list of attached files to the task, so the manager can plan with them
+function buildTaskWithFiles(task: string, files: FileAttachment[]): string {
+  if (files.length === 0) {
+    return task;
+  }
+  const fileContext = files.map((f) => `\n- ${f.originalName} (${f.mimeType})`).join('');
+  return task + '\n\nDostępne pliki:' + fileContext + '\n\n[Informacja: Pliki są dostępne lokalnie i mogą być przekazywane między agentami]';
+}
+
+// Append paths of attached files to a chat message
+function buildChatMessage(message: string, files: FileAttachment[]): string {
+  if (files.length === 0) {
+    return message;
+  }
+  const fileContext = files.map((f) => {
+    return `\n\nPlik załączony: ${f.originalName} (${f.mimeType}, ${(f.size / 1024).toFixed(2)}KB)\nŚcieżka: ${f.path}`;
+  }).join('');
+  return message + fileContext + '\n\n[Informacja: Pliki są dostępne w systemie plików pod podanymi ścieżkami]';
+}
+
+// Rebuild earlier chat messages as turns for the agent
+// Tool calls are replayed only to the agent that made them (other agents get the final answers);
+// files that were removed since are no longer mentioned
+async function buildChatTurns(session: ChatSession, agent: string): Promise<ChatTurn[]> {
+  const turns: ChatTurn[] = [];
+
+  for (const message of session.messages) {
+    if (message.role === 'user') {
+      const files: FileAttachment[] = [];
+      for (const file of message.files || []) {
+        try {
+          await fs.access(file.path);
+          files.push(file);
+        } catch {
+          // File was deleted
+        }
+      }
+      turns.push([{ role: 'user', content: buildChatMessage(message.content, files) }]);
+    } else if (turns.length > 0) {
+      const replay = message.agent === agent && message.transcript ? message.transcript : [{ role: 'assistant' as const, content: message.content }];
+      turns[turns.length - 1].push(...replay);
+    }
+  }
+
+  return turns;
+}
+
+// Get uploaded files listed in step's requiredFiles
+function getStepFiles(step: PlanStep, taskFiles: FileAttachment[]): FileAttachment[] {
+  if (!step.requiredFiles || step.requiredFiles.length === 0 || taskFiles.length === 0) {
+    return [];
+  }
+  return taskFiles.filter(f =>
+    step.requiredFiles!.some(rf => f.originalName === rf || f.filename === rf)
+  );
+}
+
+// Broadcast streamed step output as 'step_delta' events, batched to limit WebSocket traffic
+const STEP_DELTA_INTERVAL_MS = 100;
+
+function createStepDeltaStream(stepNumber: number, emit: (message: any) => void) {
+  let pending = '';
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pending) {
+      emit({ type: 'step_delta', step: stepNumber, delta: pending });
+      pending = '';
+    }
+  };
+
+  return {
+    push(delta: string) {
+      pending += delta;
+      if (!timer) {
+        timer = setTimeout(flush, STEP_DELTA_INTERVAL_MS);
+      }
+    },
+    flush,
+  };
+}
+
 // Initialize orchestrator
 async function initOrchestrator() {
   if (orchestrator) {
@@ -475,12 +741,53 @@ async function initOrchestrator() {
 
   // Load manager prompt from config
   let managerPrompt: string | undefined;
+  let retryPolicy: any;
+  let fallbackChains: any;
+  let pricing: any;
+  let budget: any;
+  let approvalToolPatterns: string[] | undefined;
+  let structuredOutputRetries: number | undefined;
+  let contextCompaction: any;
+  let ledger: any;
+  let synthesis: any;
+  let loopDetection: any;
+  let artifacts: any;
+  let tracing: any;
+  let recording: any;
+  let dryRun: any;
   try {
     const fullConfig = await loadMagenticConfig();
     if (fullConfig.managerPrompt) {
       managerPrompt = fullConfig.managerPrompt;
       console.log('[Server] Loaded manager prompt from config file');
     }
+    // Step retry policy and fallback agents (optional)
+    retryPolicy = fullConfig.retryPolicy;
+    fallbackChains = fullConfig.fallbackChains;
+    // Token prices used for cost accounting (optional, merged with built-in prices)
+    pricing = fullConfig.pricing;
+    // Default execution budget (tasks can override it)
+    budget = fullConfig.budget;
+    // Tool calls that wait for approval in the UI (e.g. write_neo4j_cypher)
+    approvalToolPatterns = fullConfig.approvalToolPatterns;
+    // Corrections of step results that do not match their outputSchema
+    structuredOutputRetries = fullConfig.structuredOutputRetries;
+    // Context windows and summarizers used to compact previous step results
+    contextCompaction = fullConfig.contextCompaction;
+    // Turn, stall and re-planning limits of the Magentic-One execution mode
+    ledger = fullConfig.ledger;
+    // Agent writing the final answer from the step results
+    synthesis = fullConfig.synthesis;
+    // Thresholds of tool loop detection in agent tool loops (local models repeating calls)
+    loopDetection = fullConfig.loopDetection;
+    // Oversized tool results stored as paged artifacts (artifacts/<executionId>/)
+    artifacts = fullConfig.artifacts;
+    // Trace files of executions (traces/<executionId>.json)
+    tracing = fullConfig.tracing;
+    // Record provider calls to a cassette or replay them offline (mode: off | record | replay)
+    recording = fullConfig.recording;
+    // Dry run - agents answer from a script of canned responses, no API keys needed (enabled, script)
+    dryRun = fullConfig.dryRun;
   } catch (error) {
     console.log('[Server] Could not load manager prompt, using built-in default');
   }
@@ -496,20 +803,39 @@ async function initOrchestrator() {
     mlxConfig: config.mlxConfig,
     mlxBaseUrl: config.mlxBaseUrl,
     managerPrompt,
+    retryPolicy,
+    fallbackChains,
+    pricing,
+    budget,
+    approvalToolPatterns,
+    structuredOutputRetries,
+    contextCompaction,
+    ledger,
+    synthesis,
+    loopDetection,
+    artifacts,
+    tracing,
+    recording,
+    dryRun,
   });
 
   await orchestrator.initialize();
 
-  // Setup rate limit callback
-  (global as any).rateLimitCallback = (retryAfter: number, attempt: number, maxRetries: number) => {
-    console.log(`[Server] Rate limit callback: retryAfter=${retryAfter}s, attempt=${attempt}/${maxRetries}`);
-    broadcast({
-      type: 'rate_limit_wait',
-      retryAfter,
-      attempt,
-      maxRetries,
-    });
-  };
+  // Count today's spend of earlier executions towards the daily budget
+  const today = new Date().toISOString().slice(0, 10);
+  for (const execution of await listExecutions()) {
+    if (execution.usage && execution.createdAt.startsWith(today)) {
+      orchestrator.addDailyUsage(execution.usage);
+    }
+  }
+
+  // Forward live orchestrator events to the UI (events carry their executionId)
+  orchestrator.events.on('rate_limit_wait', (event) => {
+    console.log(`[Server] Rate limit wait: retryAfter=${event.retryAfter}s, attempt=${event.attempt}/${event.maxRetries}`);
+    broadcast(event);
+  });
+  orchestrator.events.on('tool_call_started', (event) => broadcast(event));
+  orchestrator.events.on('tool_call_finished', (event) => broadcast(event));
 
   broadcast({ type: 'status', message: 'Orchestrator initialized' });
 }
@@ -890,7 +1216,7 @@ app.post('/api/upload', upload.array('files', 10), async (req, res) => {
       return res.status(400).json({ error: 'No files uploaded' });
     }
 
-    const uploadedFiles: FileAttachment[] = req.files.map((file) => ({
+    const files: FileAttachment[] = req.files.map((file) => ({
       filename: file.filename,
       originalName: file.originalname,
       path: path.join(UPLOADS_DIR, file.filename), // Absolute filesystem path for reading
@@ -899,17 +1225,20 @@ app.post('/api/upload', upload.array('files', 10), async (req, res) => {
       uploadedAt: new Date().toISOString(),
     }));
 
-    // Add to current chat files
-    currentChatFiles.push(...uploadedFiles);
+    // Register files so chats and executions can reference them by filename
+    files.forEach((file) => uploadedFiles.set(file.filename, file));
 
-    res.json({ files: uploadedFiles });
+    res.json({ files });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
 // Chat with an agent
+// A chat message runs like an execution (its id is sent with chat_start): it can be aborted
+// via /api/execute/abort and its gated tool calls wait for /api/approvals/:approvalId
 app.post('/api/chat', async (req, res) => {
+  let context: ExecutionContext<ChatSession> | undefined;
   try {
     if (!orchestrator) {
       return res.status(400).json({ error: 'Orchestrator not initialized' });
@@ -937,30 +1266,21 @@ app.post('/api/chat', async (req, res) => {
         };
       }
     } else {
-      const newId = generateChatId();
       session = {
-        id: newId,
+        id: generateChatId(),
         agent,
         messages: [],
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
-      currentChatId = newId;
     }
 
     // Get files for this message
-    const messageFiles = fileIds
-      ? currentChatFiles.filter((f) => fileIds.includes(f.filename))
-      : [];
+    const messageFiles = getUploadedFiles(fileIds);
 
-    // Build message with file context
-    let fullMessage = message;
-    if (messageFiles.length > 0) {
-      const fileContext = messageFiles.map((f) => {
-        return `\n\nPlik załączony: ${f.originalName} (${f.mimeType}, ${(f.size / 1024).toFixed(2)}KB)\nŚcieżka: ${f.path}`;
-      }).join('');
-      fullMessage = message + fileContext + '\n\n[Informacja: Pliki są dostępne w systemie plików pod podanymi ścieżkami]';
-    }
+    // Earlier messages are replayed to the agent (before the new one is added)
+    const history = await buildChatTurns(session, agent);
+    const fullMessage = buildChatMessage(message, messageFiles);
 
     // Add user message to session
     session.messages.push({
@@ -970,40 +1290,54 @@ app.post('/api/chat', async (req, res) => {
       files: messageFiles.length > 0 ? messageFiles : undefined,
     });
 
-    broadcast({
+    const executionId = generateExecutionId();
+    const emit = (event: any) => broadcast({ ...event, executionId, chatId: session.id });
+    context = new ExecutionContext<ChatSession>({
+      id: executionId,
+      files: messageFiles,
+      session,
+      approver: createApprover(executionId, emit),
+    });
+    activeExecutions.set(executionId, context);
+
+    emit({
       type: 'chat_start',
       agent,
       message,
-      chatId: session.id,
       files: messageFiles,
     });
 
-    const response = await orchestrator.chat(fullMessage, agent);
+    const { content: response, messages: transcript } = await orchestrator.chatWithHistory(context, agent, fullMessage, history);
 
     // Add assistant response to session
     session.messages.push({
       role: 'assistant',
       content: response,
       timestamp: new Date().toISOString(),
+      agent,
+      transcript: transcript.length > 1 ? transcript : undefined,
     });
 
     session.updatedAt = new Date().toISOString();
     await saveChatSession(session);
 
-    broadcast({
+    emit({
       type: 'chat_complete',
       agent,
       response,
-      chatId: session.id,
     });
 
-    res.json({ response, chatId: session.id });
+    res.json({ response, chatId: session.id, executionId: context.id, usage: summarizeUsage(context.usage) });
   } catch (error: any) {
     broadcast({
       type: 'error',
       error: error.message,
     });
     res.status(500).json({ error: error.message });
+  } finally {
+    if (context) {
+      releaseExecution(context.id);
+    }
   }
 });
 
@@ -1014,7 +1348,7 @@ app.post('/api/plan', async (req, res) => {
       return res.status(400).json({ error: 'Orchestrator not initialized' });
     }
 
-    const { task } = req.body;
+    const { task, fileIds } = req.body;
 
     if (!task) {
       return res.status(400).json({ error: 'Task is required' });
@@ -1025,7 +1359,7 @@ app.post('/api/plan', async (req, res) => {
       task,
     });
 
-    const plan = await orchestrator['manager'].createPlan(task);
+    const plan = await orchestrator.createPlan(buildTaskWithFiles(task, getUploadedFiles(fileIds)));
 
     broadcast({
       type: 'plan_created',
@@ -1042,39 +1376,356 @@ app.post('/api/plan', async (req, res) => {
   }
 });
 
-// Execute a task with planning
-app.post('/api/execute', async (req, res) => {
+const STEP_AGENTS = ['claude', 'gemini', 'ollama', 'mlx', 'manager'];
+
+// Plan reviewed (and possibly edited) by the user before execution
+interface ReviewedPlan {
+  plan: Plan;
+  originalPlan?: Plan; // Plan as created by the manager
+}
+
+// Saved execution continued from its first uncompleted step
+interface ResumeRequest {
+  session: ChatSession;
+  agent?: PlanStep['agent']; // Retry the first uncompleted step with another agent
+  model?: string;
+}
+
+// How an execution starts - a new task (planned by the manager or reviewed by the user) or a resumed one
+interface ExecutionStart {
+  reviewedPlan?: ReviewedPlan;
+  resume?: ResumeRequest;
+}
+
+// Check a plan edited in the UI - returns an error message or null
+function validateReviewedPlan(plan: any): string | null {
+  if (!plan || typeof plan !== 'object' || !Array.isArray(plan.steps) || plan.steps.length === 0) {
+    return 'Plan must have at least one step';
+  }
+  for (const step of plan.steps) {
+    if (!Number.isInteger(step?.step)) {
+      return 'Every step needs an integer step number';
+    }
+    if (typeof step.description !== 'string' || !step.description.trim()) {
+      return `Step ${step.step}: description is required`;
+    }
+    if (!STEP_AGENTS.includes(step.agent)) {
+      return `Step ${step.step}: unknown agent ${step.agent}`;
+    }
+    if (step.model !== undefined && typeof step.model !== 'string') {
+      return `Step ${step.step}: model must be a string`;
+    }
+    if (step.requiredFiles !== undefined && !(Array.isArray(step.requiredFiles) && step.requiredFiles.every((f: any) => typeof f === 'string'))) {
+      return `Step ${step.step}: requiredFiles must be a list of file names`;
+    }
+    if (step.dependsOn !== undefined && !(Array.isArray(step.dependsOn) && step.dependsOn.every(Number.isInteger))) {
+      return `Step ${step.step}: dependsOn must be a list of step numbers`;
+    }
+    const schemaError = step.outputSchema !== undefined ? validateOutputSchema(step.outputSchema) : null;
+    if (schemaError) {
+      return `Step ${step.step}: ${schemaError}`;
+    }
+  }
+  try {
+    validatePlan(plan);
+  } catch (error: any) {
+    return error.message;
+  }
+  return null;
+}
+
+// Artifacts written during a step (undefined when there are none)
+function getStepArtifacts(executionContext: ExecutionContext<ChatSession>, stepNumber: number): Artifact[] | undefined {
+  const artifacts = executionContext.artifacts?.list().filter((artifact) => artifact.step === stepNumber) || [];
+  return artifacts.length > 0 ? artifacts : undefined;
+}
+
+// Artifacts of an execution - live for a running one, from its step records otherwise
+async function getExecutionArtifacts(executionId: string): Promise<Artifact[] | null> {
+  const active = activeExecutions.get(executionId);
+  if (active) {
+    return active.artifacts?.list() || [];
+  }
+  const execution = await loadExecution(executionId);
+  return execution ? (execution.stepExecutions || []).flatMap((step) => step.artifacts || []) : null;
+}
+
+// Run a plan step (or a ledger turn) and record it in the execution - step execution record,
+// session messages and step_start/step_complete events
+async function runRecordedStep(
+  executionContext: ExecutionContext<ChatSession>,
+  step: PlanStep,
+  dependencies: StepOutcome[],
+  taskFiles: FileAttachment[],
+  emit: (message: any) => void,
+  label = 'Krok'
+): Promise<{ result: string; output?: unknown }> {
+  const session = executionContext.session!;
+  const requiredStepFiles = getStepFiles(step, taskFiles);
+
+  // Build query that will be sent to agent (before step execution)
+  let stepQuery = step.description;
+  if (requiredStepFiles.length > 0) {
+    const fileContext = requiredStepFiles.map((f) => {
+      return `\n- ${f.originalName} (${f.mimeType})`;
+    }).join('');
+    stepQuery += '\n\nPliki:' + fileContext;
+  }
+
+  // Create step execution record
+  const stepExecution: StepExecution = {
+    stepNumber: step.step,
+    agent: step.agent,
+    model: step.model, // Model używany do wykonania kroku
+    description: step.description,
+    query: stepQuery, // Zapytanie do agenta (z plikami jeśli są wymagane)
+    response: '',
+    status: 'executing',
+    startedAt: new Date().toISOString(),
+  };
+
+  session.stepExecutions!.push(stepExecution);
+
+  emit({
+    type: 'step_start',
+    step,
+    stepExecution,
+  });
+
+  const deltaStream = createStepDeltaStream(step.step, emit);
+  const stepUsage: UsageRecord[] = [];
+
+  try {
+    // Build task for this step, including context from the steps it depends on
+    // (compacted when it does not fit the context window of the step's model)
+    const stepTask = await orchestrator!.prepareStepTask(executionContext, step, dependencies);
+
+    let stepFiles = requiredStepFiles;
+    console.log(`[Server] Step ${step.step}: requiredFiles =`, step.requiredFiles);
+    if (stepFiles.length > 0) {
+      console.log(`[Server] Step ${step.step}: Will pass ${stepFiles.length} file(s) directly to agent:`, stepFiles.map(f => f.originalName).join(', '));
+
+      // WARNING: Only Claude can receive files directly
+      if (step.agent !== 'claude') {
+        console.warn(`[Server] ⚠️  WARNING: Step ${step.step} assigned to ${step.agent} but has files! Only Claude can read files. Files will be ignored.`);
+        console.warn(`[Server] ⚠️  Manager made an error - ${step.agent} cannot process files: ${stepFiles.map(f => f.originalName).join(', ')}`);
+        stepFiles = []; // Clear files - Ollama/Gemini cannot handle them
+      }
+    }
+
+    const { result, toolCalls, agent, model, attempts, output } = await orchestrator!.executeStep(
+      executionContext,
+      step,
+      stepTask,
+      stepFiles.length > 0 ? stepFiles : undefined,
+      {
+        onDelta: (delta) => deltaStream.push(delta),
+        onUsage: (record) => stepUsage.push(record),
+        onRetry: (event) => {
+          deltaStream.flush();
+          stepExecution.attempts = [...(stepExecution.attempts || []), event.attempt];
+          emit({ type: 'step_retry', ...event });
+        },
+      }
+    );
+    deltaStream.flush();
+
+    // Update step execution with result and tool calls
+    stepExecution.response = result;
+    stepExecution.output = output;
+    stepExecution.toolCalls = toolCalls.length > 0 ? toolCalls : undefined;
+    stepExecution.executedBy = { agent, model };
+    stepExecution.attempts = attempts.length > 1 ? attempts : undefined;
+    stepExecution.usage = summarizeUsage(stepUsage);
+    stepExecution.artifacts = getStepArtifacts(executionContext, step.step);
+    stepExecution.status = 'completed';
+    stepExecution.completedAt = new Date().toISOString();
+
+    // Add step result to session
+    session.messages.push({
+      role: 'assistant',
+      content: `${label} ${step.step} (${agent}${agent !== step.agent ? `, zamiast ${step.agent}` : ''}): ${step.description}\n\nWynik:\n${result}`,
+      timestamp: new Date().toISOString(),
+    });
+
+    // Save execution state after each successful step
+    session.updatedAt = new Date().toISOString();
+    await saveExecutionContext(executionContext);
+
+    emit({
+      type: 'step_complete',
+      step,
+      result,
+      stepExecution,
+      toolCalls: stepExecution.toolCalls, // Include tool calls in broadcast
+    });
+
+    return { result, output };
+  } catch (error: any) {
+    deltaStream.flush();
+    const aborted = error.message === 'Execution aborted by user' || !!error.isBudgetExceeded;
+
+    // Update step execution with error
+    stepExecution.status = aborted ? 'aborted' : 'error';
+    stepExecution.error = error.message;
+    stepExecution.usage = summarizeUsage(stepUsage);
+    stepExecution.artifacts = getStepArtifacts(executionContext, step.step);
+    stepExecution.completedAt = new Date().toISOString();
+
+    if (!aborted) {
+      console.error(`[Server] Step ${step.step} failed: ${error.message}`);
+
+      session.messages.push({
+        role: 'assistant',
+        content: `${label} ${step.step} (${step.agent}): ${step.description}\n\n❌ Błąd:\n${error.message}`,
+        timestamp: new Date().toISOString(),
+      });
+
+      emit({
+        type: 'step_complete',
+        step,
+        result: `[BŁĄD] ${error.message}`,
+        stepExecution,
+      });
+    }
+
+    // Save execution state even on error
+    session.updatedAt = new Date().toISOString();
+    await saveExecutionContext(executionContext);
+
+    throw error;
+  }
+}
+
+// Execute a task with the Magentic-One loop - the manager picks the agent of every turn
+// Turns are recorded like plan steps (numbered from 1); returns the response of /api/execute
+async function runLedgerExecution(
+  executionContext: ExecutionContext<ChatSession>,
+  task: string,
+  taskFiles: FileAttachment[],
+  emit: (message: any) => void
+) {
+  const session = executionContext.session!;
+  session.mode = 'ledger';
+  session.ledger = { taskLedgers: [], progress: [] };
+  const ledgerState = session.ledger;
+
+  let result;
+  try {
+    result = await orchestrator!.executeWithLedger(task, executionContext, {
+      onLedger: async (ledger, replan) => {
+        ledgerState.taskLedgers.push(ledger);
+        session.messages.push({
+          role: 'assistant',
+          content: `${replan === 0 ? 'Rejestr zadania' : `Rejestr zadania po ponownym planowaniu #${replan}`}:\n${JSON.stringify(ledger, null, 2)}`,
+          timestamp: new Date().toISOString(),
+        });
+        session.updatedAt = new Date().toISOString();
+        await saveExecutionContext(executionContext);
+        emit({ type: 'ledger_created', ledger, replan });
+      },
+      onProgress: (progress, turn) => {
+        ledgerState.progress.push({ ...progress, turn });
+        emit({ type: 'ledger_progress', progress, turn });
+      },
+      // Claude turns receive the task files
+      runTurn: async (step, previous) => {
+        const turnStep = step.agent === 'claude' && taskFiles.length > 0
+          ? { ...step, requiredFiles: taskFiles.map((f) => f.originalName) }
+          : step;
+        const { result } = await runRecordedStep(executionContext, turnStep, previous, taskFiles, emit, 'Tura');
+        return result;
+      },
+    });
+  } catch (error: any) {
+    if (error.isBudgetExceeded) {
+      const completedResults = session.stepExecutions!
+        .filter((se) => se.status === 'completed')
+        .map((se) => se.response);
+      return finishOverBudget(executionContext, error, completedResults);
+    }
+    throw error;
+  }
+
+  ledgerState.stopReason = result.stopReason;
+  session.status = 'completed';
+  session.messages.push({
+    role: 'assistant',
+    content: `Wykonanie zakończone (${result.stopReason}, tur: ${result.turns.length}):\n\n${result.answer}`,
+    timestamp: new Date().toISOString(),
+  });
+  session.updatedAt = new Date().toISOString();
+  await saveExecutionContext(executionContext);
+
+  emit({
+    type: 'execution_complete',
+    result: result.answer,
+    stopReason: result.stopReason,
+    usage: session.usage,
+  });
+
+  return {
+    mode: 'ledger',
+    ledger: session.ledger,
+    turns: result.turns,
+    stopReason: result.stopReason,
+    result: result.answer,
+    sessionId: session.id,
+    usage: session.usage,
+  };
+}
+
+// Execute a task - with a plan created by the manager, or with a plan reviewed by the user
+async function runExecution(req: express.Request, res: express.Response, start: ExecutionStart = {}) {
+  let context: ExecutionContext<ChatSession> | undefined;
   try {
     if (!orchestrator) {
       return res.status(400).json({ error: 'Orchestrator not initialized' });
     }
 
-    const { task, fileIds } = req.body;
+    const { reviewedPlan, resume } = start;
+    const { fileIds, executionId, budget } = req.body;
+    // A resumed execution continues the task and files of its first run
+    const taskMessage = resume?.session.messages.find((m) => m.role === 'user');
+    const task: string | undefined = resume ? taskMessage?.content : req.body.task;
 
     if (!task) {
       return res.status(400).json({ error: 'Task is required' });
     }
 
-    // Reset abort flag
-    if (orchestrator) {
-      orchestrator.aborted = false;
+    const sessionId = resume ? resume.session.id : isValidExecutionId(executionId) ? executionId : generateExecutionId();
+    if (activeExecutions.has(sessionId)) {
+      return res.status(409).json({ error: `Execution ${sessionId} is already running` });
     }
 
-    // Create new execution session
-    const sessionId = generateExecutionId();
-    currentExecutionSession = {
-      id: sessionId,
-      agent: 'manager',
-      messages: [],
-      stepExecutions: [], // Inicjalizuj tablicę szczegółów kroków
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-
     // Get files for this execution
-    const taskFiles = fileIds && fileIds.length > 0
-      ? currentChatFiles.filter((f) => fileIds.includes(f.filename))
-      : [];
+    const taskFiles = resume ? taskMessage?.files || [] : getUploadedFiles(fileIds);
+
+    // Every event of this run carries its execution id
+    const emit = (message: any) => broadcast({ ...message, executionId: sessionId });
+
+    // Create new execution session, carried in this run's own execution context
+    context = new ExecutionContext<ChatSession>({
+      id: sessionId,
+      files: taskFiles,
+      budget: budget && typeof budget === 'object' ? budget : undefined, // Overrides the config budget
+      usageBefore: resume?.session.usage, // A resumed execution stays within one budget across its runs
+      onBudgetExceeded: (event) => emit({ type: 'budget_exceeded', ...event }),
+      approver: createApprover(sessionId, emit),
+      session: resume?.session || {
+        id: sessionId,
+        agent: 'manager',
+        messages: [],
+        stepExecutions: [], // Inicjalizuj tablicę szczegółów kroków
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+    });
+    activeExecutions.set(sessionId, context);
+    const session = context.session!;
+    const executionContext = context;
+    session.status = 'executing';
+    session.stepExecutions = session.stepExecutions || [];
 
     console.log(`[Server] Task files: ${taskFiles.length} file(s)`);
     if (taskFiles.length > 0) {
@@ -1082,306 +1733,312 @@ app.post('/api/execute', async (req, res) => {
     }
 
     // Build task with file context
-    let fullTask = task;
+    const fullTask = buildTaskWithFiles(task, taskFiles);
     if (taskFiles.length > 0) {
-      const fileContext = taskFiles.map((f) => {
-        return `\n- ${f.originalName} (${f.mimeType})`;
-      }).join('');
-      fullTask = task + '\n\nDostępne pliki:' + fileContext + '\n\n[Informacja: Pliki są dostępne lokalnie i mogą być przekazywane między agentami]';
       console.log(`[Server] Full task with files:\n${fullTask}`);
     }
 
     // Add user task to session
-    currentExecutionSession.messages.push({
-      role: 'user',
-      content: task,
-      timestamp: new Date().toISOString(),
-      files: taskFiles.length > 0 ? taskFiles : undefined,
-    });
+    if (!resume) {
+      session.messages.push({
+        role: 'user',
+        content: task,
+        timestamp: new Date().toISOString(),
+        files: taskFiles.length > 0 ? taskFiles : undefined,
+      });
+    }
 
-    broadcast({
+    emit({
       type: 'execution_start',
       task: fullTask,
+      resumed: !!resume,
+    });
+    await orchestrator.tracing.start(sessionId, {
+      'execution.task': task,
+      'execution.mode': req.body.mode === 'ledger' && !resume && !reviewedPlan ? 'ledger' : 'plan',
+      'execution.resumed': !!resume,
     });
 
-    // Check if aborted before creating plan
-    if (orchestrator.aborted) {
-      console.log('[Server] Execution aborted before plan creation');
-      broadcast({ type: 'execution_aborted' });
-      return res.json({ success: true, aborted: true });
+    // Magentic-One loop instead of a plan (new tasks only - ledger executions are not resumable)
+    if (req.body.mode === 'ledger' && !resume && !reviewedPlan) {
+      return res.json(await runLedgerExecution(executionContext, fullTask, taskFiles, emit));
     }
 
-    // Create plan - pass fullTask which includes file context
-    const plan = await orchestrator['manager'].createPlan(fullTask);
+    let plan: Plan;
+    let completedOutcomes: StepOutcome[] = [];
+    if (resume) {
+      // Continue the current plan - completed steps keep their results (and artifacts)
+      completedOutcomes = getCompletedOutcomes(session);
+      orchestrator!.getArtifactStore(executionContext).restore(session.stepExecutions.flatMap((s) => s.artifacts || []));
+      const completedSteps = new Set(completedOutcomes.map((outcome) => outcome.step.step));
+      const remainingSteps = session.plan!.steps.filter((s) => !completedSteps.has(s.step));
+      // The agent/model override applies to the step whose error stopped the execution -
+      // with parallel steps it does not have to be the first uncompleted one
+      const failedStep = remainingSteps.find((s) => s.step === session.failedStep);
+      if ((resume.agent || resume.model) && !failedStep) {
+        console.log(`[Server] Execution ${sessionId} has no failed step - agent/model override ignored`);
+      }
+      const retryStep = resume.agent || resume.model ? failedStep : undefined;
+      const retry = retryStep && {
+        step: retryStep.step,
+        agent: resume.agent || retryStep.agent,
+        model: resume.model || (resume.agent ? undefined : retryStep.model), // Model of the previous agent does not apply
+      };
+
+      plan = {
+        ...session.plan!,
+        steps: session.plan!.steps.map((s) => (s === retryStep ? { ...s, agent: retry!.agent, model: retry!.model } : s)),
+      };
+      session.resumes = [...(session.resumes || []), {
+        resumedAt: new Date().toISOString(),
+        steps: remainingSteps.map((s) => s.step),
+        retry,
+        usageBefore: session.usage,
+      }];
+      session.failedStep = undefined;
+      session.messages.push({
+        role: 'assistant',
+        content: `[Wznowienie wykonania - pozostałe kroki: ${remainingSteps.map((s) => s.step).join(', ')}]` +
+          (retry ? `\nKrok ${retry.step} ponowiony z agentem ${retry.agent}${retry.model ? ` (${retry.model})` : ''}` : ''),
+        timestamp: new Date().toISOString(),
+      });
+      console.log(`[Server] Resuming execution ${sessionId}: ${completedOutcomes.length} step(s) completed, remaining: ${remainingSteps.map((s) => s.step).join(', ')}`);
+    } else if (reviewedPlan) {
+      plan = reviewedPlan.plan;
+      session.originalPlan = reviewedPlan.originalPlan;
+    } else {
+      // Create plan - pass fullTask which includes file context
+      plan = await orchestrator.createPlan(fullTask, context);
+    }
 
     // Check if aborted after plan creation
-    if (orchestrator.aborted) {
-      console.log('[Server] Execution aborted after plan creation');
-      broadcast({ type: 'execution_aborted' });
-      return res.json({ success: true, aborted: true });
+    if (context.aborted) {
+      throw new Error('Execution aborted by user');
     }
 
     // Debug: Log plan steps with model field
-    console.log('[Server] Plan created with steps:');
+    console.log(resume ? '[Server] Resumed plan:' : reviewedPlan ? '[Server] Executing plan reviewed by the user:' : '[Server] Plan created with steps:');
     plan.steps.forEach(step => {
       console.log(`  Step ${step.step}: agent=${step.agent}, model=${step.model || 'NOT SET'}`);
     });
 
-    broadcast({
+    emit({
       type: 'plan_created',
       plan,
     });
 
     // Save plan in session
-    currentExecutionSession.plan = plan;
+    session.plan = plan;
 
-    // Add plan to session as assistant message
-    currentExecutionSession.messages.push({
-      role: 'assistant',
-      content: `Plan wykonania:\n${JSON.stringify(plan, null, 2)}`,
-      timestamp: new Date().toISOString(),
-    });
-
-    // Execute plan step by step
-    const results: string[] = [];
-    for (const step of plan.steps) {
-      // Check if aborted before each step
-      if (orchestrator.aborted) {
-        console.log(`[Server] Execution aborted before step ${step.step}`);
-        broadcast({ type: 'execution_aborted' });
-        return res.json({ success: true, aborted: true, results });
-      }
-
-      // Build query that will be sent to agent (before step execution)
-      let stepQuery = step.description;
-      if (step.requiredFiles && step.requiredFiles.length > 0 && taskFiles.length > 0) {
-        const stepFiles = taskFiles.filter(f =>
-          step.requiredFiles!.some(rf => f.originalName === rf || f.filename === rf)
-        );
-        if (stepFiles.length > 0) {
-          const fileContext = stepFiles.map((f) => {
-            return `\n- ${f.originalName} (${f.mimeType})`;
-          }).join('');
-          stepQuery += '\n\nPliki:' + fileContext;
-        }
+    if (resume) {
+      // Show results of the steps completed before
+      for (const outcome of completedOutcomes) {
+        const stepExecution = session.stepExecutions.filter((se) => se.stepNumber === outcome.step.step).pop();
+        emit({
+          type: 'step_complete',
+          step: outcome.step,
+          result: outcome.result,
+          stepExecution,
+          toolCalls: stepExecution?.toolCalls,
+        });
       }
-
-      // Create step execution record
-      const stepExecution: StepExecution = {
-        stepNumber: step.step,
-        agent: step.agent,
-        model: step.model, // Model używany do wykonania kroku
-        description: step.description,
-        query: stepQuery, // Zapytanie do agenta (z plikami jeśli są wymagane)
-        response: '',
-        status: 'executing',
-        startedAt: new Date().toISOString(),
-      };
-
-      currentExecutionSession.stepExecutions!.push(stepExecution);
-
-      // Clear tool calls from previous step
-      orchestrator.clearStepToolCalls();
-
-      broadcast({
-        type: 'step_start',
-        step,
-        stepExecution,
+    } else {
+      // Add plan to session as assistant message
+      session.messages.push({
+        role: 'assistant',
+        content: `Plan wykonania${reviewedPlan ? ' (zatwierdzony przez użytkownika)' : ''}:\n${JSON.stringify(plan, null, 2)}`,
+        timestamp: new Date().toISOString(),
       });
+    }
+    session.updatedAt = new Date().toISOString();
+    await saveExecutionContext(executionContext);
 
-      let result: string;
-      try {
-        // Build task for this step, including context from previous steps
-        let stepTask = step.description;
-
-        // Add context from previous steps if this is not the first step
-        if (results.length > 0) {
-          stepTask += '\n\n--- KONTEKST Z POPRZEDNICH KROKÓW ---\n';
-          for (let i = 0; i < results.length; i++) {
-            const prevStep = plan.steps[i];
-            stepTask += `\nKrok ${prevStep.step} (${prevStep.agent}): ${prevStep.description}\nWynik: ${results[i]}\n`;
-          }
-          stepTask += '--- KONIEC KONTEKSTU ---\n';
-        }
-
-        let stepFiles: FileAttachment[] = [];
-
-        console.log(`[Server] Step ${step.step}: requiredFiles =`, step.requiredFiles);
-        if (step.requiredFiles && step.requiredFiles.length > 0 && taskFiles.length > 0) {
-          // Filter to only the files required for this step
-          stepFiles = taskFiles.filter(f =>
-            step.requiredFiles!.some(rf => f.originalName === rf || f.filename === rf)
-          );
-
-          console.log(`[Server] Step ${step.step}: Found ${stepFiles.length} matching files`);
-          if (stepFiles.length > 0) {
-            console.log(`[Server] Step ${step.step}: Will pass ${stepFiles.length} file(s) directly to agent:`, stepFiles.map(f => f.originalName).join(', '));
+    // Execute plan - independent steps run concurrently, each step receives only
+    // the results of the steps it depends on
+    let failedStep: PlanStep | null = null;
 
-            // WARNING: Only Claude can receive files directly
-            if (step.agent !== 'claude' && stepFiles.length > 0) {
-              console.warn(`[Server] ⚠️  WARNING: Step ${step.step} assigned to ${step.agent} but has files! Only Claude can read files. Files will be ignored.`);
-              console.warn(`[Server] ⚠️  Manager made an error - ${step.agent} cannot process files: ${stepFiles.map(f => f.originalName).join(', ')}`);
-              stepFiles = []; // Clear files - Ollama/Gemini cannot handle them
-            }
+    const executor = new PlanExecutor(plan, {
+      completed: completedOutcomes,
+      isAborted: () => executionContext.aborted,
+      runStep: async (step, dependencies) => {
+        try {
+          return await runRecordedStep(executionContext, step, dependencies, taskFiles, emit);
+        } catch (error: any) {
+          if (error.message !== 'Execution aborted by user' && !error.isBudgetExceeded) {
+            failedStep = step;
           }
+          throw error;
         }
-
-        switch (step.agent) {
-          case 'claude':
-            // Set Claude model if specified in plan step
-            if (step.model) {
-              console.log(`[Server] Step ${step.step}: Setting Claude model to ${step.model}`);
-              orchestrator.setClaudeModel(step.model);
-            }
-            result = await orchestrator['executeWithClaude'](stepTask, stepFiles.length > 0 ? stepFiles : undefined);
-            break;
-          case 'gemini':
-            result = await orchestrator['executeWithGemini'](stepTask, stepFiles.length > 0 ? stepFiles : undefined);
-            break;
-          case 'ollama':
-            result = await orchestrator['executeWithOllama'](stepTask, stepFiles.length > 0 ? stepFiles : undefined);
-            break;
-          case 'mlx':
-            // Set MLX model if specified in plan step
-            if (step.model && orchestrator['mlx']) {
-              console.log(`[Server] Step ${step.step}: Setting MLX model to ${step.model}`);
-              orchestrator['mlx'].setModel(step.model);
-            }
-            result = await orchestrator['executeWithMLX'](stepTask, stepFiles.length > 0 ? stepFiles : undefined);
-            break;
-          case 'manager':
-            result = await orchestrator['executeWithManager'](stepTask);
-            break;
-          default:
-            result = `Unknown agent: ${step.agent}`;
-        }
-
-        results.push(result);
-
-        // Get tool calls from orchestrator
-        const toolCalls = orchestrator.getAndClearStepToolCalls();
-
-        // Update step execution with result and tool calls
-        stepExecution.response = result;
-        stepExecution.toolCalls = toolCalls.length > 0 ? toolCalls : undefined;
-        stepExecution.status = 'completed';
-        stepExecution.completedAt = new Date().toISOString();
-
-        // Save execution state after each successful step
-        currentExecutionSession.updatedAt = new Date().toISOString();
-        await saveExecution(currentExecutionSession);
-
-      } catch (error: any) {
-        // Get tool calls even on error (they may have been executed before the error occurred)
-        const toolCalls = orchestrator.getAndClearStepToolCalls();
-
-        // Update step execution with error and tool calls
-        stepExecution.status = error.message === 'Execution aborted by user' ? 'aborted' : 'error';
-        stepExecution.error = error.message;
-        stepExecution.toolCalls = toolCalls.length > 0 ? toolCalls : undefined;
-        stepExecution.completedAt = new Date().toISOString();
-
-        // Save execution state even on error
-        currentExecutionSession.updatedAt = new Date().toISOString();
-        await saveExecution(currentExecutionSession);
-
-        // Check if it was an abort error
-        if (error.message === 'Execution aborted by user') {
-          currentExecutionSession.messages.push({
-            role: 'assistant',
-            content: '[Wykonanie przerwane przez użytkownika]',
-            timestamp: new Date().toISOString(),
-          });
-          currentExecutionSession.updatedAt = new Date().toISOString();
-          await saveExecution(currentExecutionSession);
-
-          broadcast({
-            type: 'execution_aborted',
-            message: 'Wykonanie zostało przerwane przez użytkownika',
-          });
-          return res.json({
-            plan,
-            result: results.join('\n\n') + '\n\n[Wykonanie przerwane]',
-            aborted: true,
-            sessionId: currentExecutionSession.id,
-          });
+      },
+      // On step failure ask the manager for a revised remainder of the plan
+      replan: async (failure) => {
+        const revision = await orchestrator!.revisePlan(
+          failure,
+          (session.planRevisions?.length || 0) + 1,
+          executionContext
+        );
+        if (revision.steps.length === 0) {
+          console.log(`[Server] Manager could not revise the plan after step ${failure.step.step} failure`);
+          return null;
         }
 
-        // For other errors: mark step as failed, broadcast error, and STOP execution
-        const errorResult = `[BŁĄD] ${error.message}`;
-        results.push(errorResult);
-
-        currentExecutionSession.messages.push({
+        session.planRevisions = [...(session.planRevisions || []), revision];
+        session.plan = {
+          ...failure.plan,
+          steps: [...failure.completed.map((c) => c.step), ...revision.steps],
+        };
+        session.messages.push({
           role: 'assistant',
-          content: `Krok ${step.step} (${step.agent}): ${step.description}\n\n❌ Błąd:\n${error.message}`,
+          content: `Plan zmieniony po błędzie w kroku ${revision.failedStep}:\n${revision.reasoning}\n\n${JSON.stringify(revision.steps, null, 2)}`,
           timestamp: new Date().toISOString(),
         });
+        session.updatedAt = new Date().toISOString();
+        await saveExecutionContext(executionContext);
 
-        broadcast({
-          type: 'step_complete',
-          step,
-          result: errorResult,
-          stepExecution,
-          toolCalls: stepExecution.toolCalls, // Include tool calls even on error
+        emit({
+          type: 'plan_revised',
+          plan: session.plan,
+          revision,
         });
 
-        // STOP execution - do not continue with next steps
-        console.error(`[Server] Step ${step.step} failed: ${error.message}`);
-        console.error(`[Server] Stopping execution due to error in step ${step.step}`);
+        return revision.steps;
+      },
+    });
+
+    let outcomes: StepOutcome[];
+    try {
+      outcomes = await executor.run();
+    } catch (error: any) {
+      const completedResults = session.stepExecutions!
+        .filter((se) => se.status === 'completed')
+        .sort((a, b) => a.stepNumber - b.stepNumber)
+        .map((se) => se.response);
+
+      if (error.isBudgetExceeded) {
+        return res.json(await finishOverBudget(executionContext, error, completedResults));
+      }
 
-        // Broadcast execution error and return
-        broadcast({
-          type: 'execution_error',
-          error: `Wykonanie przerwane: Błąd w kroku ${step.step}: ${error.message}`,
+      // Check if it was an abort error
+      if (error.message === 'Execution aborted by user') {
+        session.status = 'aborted';
+        session.messages.push({
+          role: 'assistant',
+          content: '[Wykonanie przerwane przez użytkownika]',
+          timestamp: new Date().toISOString(),
         });
+        session.updatedAt = new Date().toISOString();
+        await saveExecutionContext(context);
 
+        emit({
+          type: 'execution_aborted',
+          message: 'Wykonanie zostało przerwane przez użytkownika',
+        });
         return res.json({
-          plan,
-          result: results.join('\n\n') + `\n\n❌ Wykonanie przerwane z powodu błędu w kroku ${step.step}`,
-          error: true,
-          sessionId: currentExecutionSession.id,
+          plan: session.plan,
+          planRevisions: session.planRevisions,
+          result: completedResults.join('\n\n') + '\n\n[Wykonanie przerwane]',
+          aborted: true,
+          sessionId: session.id,
+          usage: session.usage,
         });
       }
 
-      // Add step result to session (only for successful steps)
-      currentExecutionSession.messages.push({
-        role: 'assistant',
-        content: `Krok ${step.step} (${step.agent}): ${step.description}\n\nWynik:\n${result}`,
-        timestamp: new Date().toISOString(),
+      // For other errors: STOP execution - running steps were awaited, no new steps started
+      const failedStepNumber = (failedStep as PlanStep | null)?.step;
+      const errorMessage = failedStepNumber !== undefined
+        ? `Błąd w kroku ${failedStepNumber}: ${error.message}`
+        : error.message;
+      console.error(`[Server] Stopping execution: ${errorMessage}`);
+
+      session.status = 'error';
+      session.failedStep = failedStepNumber;
+      session.updatedAt = new Date().toISOString();
+      await saveExecutionContext(executionContext);
+
+      emit({
+        type: 'execution_error',
+        error: `Wykonanie przerwane: ${errorMessage}`,
       });
 
-      broadcast({
-        type: 'step_complete',
-        step,
-        result,
-        stepExecution,
-        toolCalls: stepExecution.toolCalls, // Include tool calls in broadcast
+      return res.json({
+        plan: session.plan,
+        planRevisions: session.planRevisions,
+        result: completedResults.join('\n\n') + `\n\n❌ Wykonanie przerwane: ${errorMessage}`,
+        error: true,
+        sessionId: session.id,
+        usage: session.usage,
       });
     }
 
-    const finalResult = results.join('\n\n');
+    // Raw step results stay available next to the final answer
+    const rawResult = outcomes.map((outcome) => outcome.result).join('\n\n');
+
+    // Closing phase - the final answer to the task written from the step results
+    emit({ type: 'synthesis_start' });
+    let synthesis;
+    try {
+      synthesis = await orchestrator.synthesizeAnswer(executionContext, fullTask, outcomes);
+    } catch (error: any) {
+      if (error.isBudgetExceeded) {
+        return res.json(await finishOverBudget(executionContext, error, outcomes.map((outcome) => outcome.result)));
+      }
+      throw error;
+    }
+    if (synthesis) {
+      session.synthesis = { agent: synthesis.agent, model: synthesis.model, answer: synthesis.result, usage: synthesis.usage };
+    }
+    const finalResult = synthesis ? synthesis.result : rawResult;
 
     // Add final result to session
-    currentExecutionSession.messages.push({
+    session.status = 'completed';
+    session.messages.push({
       role: 'assistant',
       content: `Wykonanie zakończone:\n\n${finalResult}`,
       timestamp: new Date().toISOString(),
     });
 
     // Save the complete execution
-    currentExecutionSession.updatedAt = new Date().toISOString();
-    await saveExecution(currentExecutionSession);
+    session.updatedAt = new Date().toISOString();
+    await saveExecutionContext(context);
 
-    broadcast({
+    emit({
       type: 'execution_complete',
       result: finalResult,
+      rawResult,
+      usage: session.usage,
     });
 
-    res.json({ plan, result: finalResult, sessionId: currentExecutionSession.id });
+    res.json({
+      plan: session.plan,
+      planRevisions: session.planRevisions,
+      result: finalResult,
+      rawResult,
+      synthesis: session.synthesis,
+      sessionId: session.id,
+      usage: session.usage,
+    });
   } catch (error: any) {
-    // Reset abort flag
-    if (orchestrator) {
-      orchestrator.aborted = false;
+    const session = context?.session;
+
+    // Budget used up before or while planning
+    if (error.isBudgetExceeded && context) {
+      return res.json(await finishOverBudget(context, error, []));
+    }
+
+    // Aborted while planning - nothing was executed yet
+    if (context?.aborted && session) {
+      console.log(`[Server] Execution ${context.id} aborted before plan execution`);
+      session.status = 'aborted';
+      session.messages.push({
+        role: 'assistant',
+        content: '[Wykonanie przerwane przez użytkownika]',
+        timestamp: new Date().toISOString(),
+      });
+      session.updatedAt = new Date().toISOString();
+      await saveExecutionContext(context);
+
+      broadcast({ type: 'execution_aborted', executionId: context.id });
+      return res.json({ success: true, aborted: true, sessionId: session.id, usage: session.usage });
     }
 
     // Extract error message - handle both simple errors and API error objects
@@ -1401,24 +2058,26 @@ app.post('/api/execute', async (req, res) => {
     }
 
     // Save execution state even on error
-    if (currentExecutionSession) {
-      currentExecutionSession.messages.push({
+    if (context && session) {
+      session.status = 'error';
+      session.messages.push({
         role: 'assistant',
         content: `[Błąd wykonania]: ${errorMessage}\n\nSzczegóły:\n${fullErrorDetails}`,
         timestamp: new Date().toISOString(),
       });
-      currentExecutionSession.updatedAt = new Date().toISOString();
+      session.updatedAt = new Date().toISOString();
 
       // Log that we're saving the error
-      console.log(`[Server] Saving execution ${currentExecutionSession.id} with error: ${errorMessage}`);
-      await saveExecution(currentExecutionSession);
-      console.log(`[Server] Execution ${currentExecutionSession.id} saved to executions/${currentExecutionSession.id}.json`);
+      console.log(`[Server] Saving execution ${session.id} with error: ${errorMessage}`);
+      await saveExecutionContext(context);
+      console.log(`[Server] Execution ${session.id} saved to executions/${session.id}.json`);
     }
 
     // Broadcast error and stop execution
     broadcast({
       type: 'execution_error',
       error: errorMessage,
+      executionId: context?.id,
     });
 
     broadcast({
@@ -1427,7 +2086,38 @@ app.post('/api/execute', async (req, res) => {
     });
 
     res.status(500).json({ error: errorMessage, details: fullErrorDetails });
+  } finally {
+    if (context) {
+      const status = context.session?.status;
+      await orchestrator?.tracing.finish(context.id, status === 'completed' ? 'ok' : 'error', status === 'completed' ? undefined : `Execution ${status}`);
+      releaseExecution(context.id);
+    }
   }
+}
+
+// Execute a task with planning
+app.post('/api/execute', (req, res) => runExecution(req, res));
+
+// Execute a plan created with /api/plan and edited in the UI
+app.post('/api/plan/execute', (req, res) => {
+  const { plan, originalPlan } = req.body;
+
+  const validationError = validateReviewedPlan(plan);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  const steps: PlanStep[] = plan.steps.map((step: PlanStep) => ({ ...step, reasoning: step.reasoning || '' }));
+  return runExecution(req, res, {
+    reviewedPlan: {
+      plan: {
+        goal: plan.goal || req.body.task,
+        steps,
+        estimatedComplexity: plan.estimatedComplexity || 'medium',
+      },
+      originalPlan,
+    },
+  });
 });
 
 // Get conversation history
@@ -1478,7 +2168,6 @@ app.post('/api/chats/new', (req, res) => {
   try {
     const { agent } = req.body;
     const newId = generateChatId();
-    currentChatId = newId;
 
     broadcast({ type: 'new_chat', chatId: newId, agent });
     res.json({ chatId: newId });
@@ -1488,31 +2177,65 @@ app.post('/api/chats/new', (req, res) => {
 });
 
 // Abort task execution
-app.post('/api/execute/abort', async (req, res) => {
+// The running execution saves itself to history once its in-flight requests are cancelled
+app.post('/api/execute/abort', (req, res) => {
   try {
-    if (orchestrator) {
-      orchestrator.aborted = true;
+    const { executionId } = req.body || {};
+
+    let context: ExecutionContext<ChatSession> | undefined;
+    if (executionId) {
+      context = activeExecutions.get(executionId);
+    } else if (activeExecutions.size > 1) {
+      return res.status(400).json({ error: 'Several executions are running - executionId is required' });
+    } else {
+      context = activeExecutions.values().next().value;
     }
 
-    // Save aborted execution to history
-    if (currentExecutionSession) {
-      currentExecutionSession.messages.push({
-        role: 'assistant',
-        content: '[Wykonanie przerwane przez użytkownika]',
-        timestamp: new Date().toISOString(),
-      });
-      currentExecutionSession.updatedAt = new Date().toISOString();
-      await saveExecution(currentExecutionSession);
-      console.log(`[Server] Aborted execution ${currentExecutionSession.id} saved to history`);
+    if (!context) {
+      return res.status(404).json({ error: 'Execution not found or already finished' });
     }
 
-    broadcast({ type: 'execution_aborted' });
-    res.json({ success: true });
+    console.log(`[Server] Aborting execution ${context.id}`);
+    context.abort();
+    res.json({ success: true, executionId: context.id });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// List tool calls waiting for approval
+app.get('/api/approvals', (req, res) => {
+  const approvals = [...pendingApprovals.values()].map(({ executionId, request }) => ({ ...request, executionId }));
+  res.json({ approvals });
+});
+
+// Approve, reject or edit the arguments of a tool call waiting for approval
+app.post('/api/approvals/:approvalId', (req, res) => {
+  const pending = pendingApprovals.get(req.params.approvalId);
+  if (!pending) {
+    return res.status(404).json({ error: 'Approval request not found or already resolved' });
+  }
+
+  const { action, input, reason } = req.body || {};
+  let decision: ToolApprovalDecision;
+  if (action === 'approve') {
+    decision = { action };
+  } else if (action === 'reject') {
+    decision = { action, reason: typeof reason === 'string' ? reason : undefined };
+  } else if (action === 'edit' && input && typeof input === 'object' && !Array.isArray(input)) {
+    decision = { action, input };
+  } else {
+    return res.status(400).json({ error: 'Action must be approve, reject or edit (with an input object)' });
+  }
+
+  pendingApprovals.delete(req.params.approvalId);
+  pending.resolve(decision);
+  console.log(`[Server] Tool ${pending.request.tool} (${pending.executionId}): ${action}`);
+
+  broadcast({ type: 'approval_resolved', approvalId: pending.request.id, action, executionId: pending.executionId });
+  res.json({ success: true });
+});
+
 // Get list of all executions
 app.get('/api/executions', async (req, res) => {
   try {
@@ -1531,12 +2254,84 @@ app.get('/api/executions/:executionId', async (req, res) => {
     if (!execution) {
       return res.status(404).json({ error: 'Execution not found' });
     }
-    res.json(execution);
+    res.json({ ...execution, resumable: isResumable(execution) });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// List artifacts of an execution
+app.get('/api/executions/:executionId/artifacts', async (req, res) => {
+  const { executionId } = req.params;
+  if (!isValidExecutionId(executionId)) {
+    return res.status(400).json({ error: 'Invalid execution id' });
+  }
+  const artifacts = await getExecutionArtifacts(executionId);
+  if (!artifacts) {
+    return res.status(404).json({ error: 'Execution not found' });
+  }
+  res.json({ artifacts });
+});
+
+// Download an artifact (only artifacts recorded for the execution are served)
+app.get('/api/executions/:executionId/artifacts/:name', async (req, res) => {
+  const { executionId, name } = req.params;
+  if (!isValidExecutionId(executionId)) {
+    return res.status(400).json({ error: 'Invalid execution id' });
+  }
+  const artifact = (await getExecutionArtifacts(executionId))?.find((a) => a.name === name || a.id === name);
+  if (!artifact) {
+    return res.status(404).json({ error: 'Artifact not found' });
+  }
+  res.download(path.resolve(artifact.path), artifact.name, (error) => {
+    if (error && !res.headersSent) {
+      res.status(404).json({ error: 'Artifact file not found' });
+    }
+  });
+});
+
+// Trace of an execution (OTLP/JSON spans: execution → step → LLM call → tool call)
+app.get('/api/executions/:executionId/trace', async (req, res) => {
+  const { executionId } = req.params;
+  if (!isValidExecutionId(executionId)) {
+    return res.status(400).json({ error: 'Invalid execution id' });
+  }
+  const trace = await orchestrator?.tracing.load(executionId);
+  if (!trace) {
+    return res.status(404).json({ error: 'Trace not found' });
+  }
+  res.json(trace);
+});
+
+// Resume an aborted, failed or interrupted execution with its uncompleted steps
+app.post('/api/executions/:executionId/resume', async (req, res) => {
+  const { executionId } = req.params;
+  const { agent, model } = req.body;
+
+  if (!isValidExecutionId(executionId)) {
+    return res.status(400).json({ error: 'Invalid execution id' });
+  }
+  if (activeExecutions.has(executionId)) {
+    return res.status(409).json({ error: `Execution ${executionId} is already running` });
+  }
+  if (agent !== undefined && !STEP_AGENTS.includes(agent)) {
+    return res.status(400).json({ error: `Unknown agent: ${agent}` });
+  }
+  if (model !== undefined && typeof model !== 'string') {
+    return res.status(400).json({ error: 'model must be a string' });
+  }
+
+  const execution = await loadExecution(executionId);
+  if (!execution) {
+    return res.status(404).json({ error: 'Execution not found' });
+  }
+  if (!isResumable(execution)) {
+    return res.status(400).json({ error: 'Execution has no uncompleted plan steps to resume' });
+  }
+
+  return runExecution(req, res, { resume: { session: execution, agent, model: model || undefined } });
+});
+
 // Serve index.html for all other routes
 app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, 'public', 'index.html'));
@@ -1554,8 +2349,11 @@ server.listen(PORT, async () => {
   // Load saved configuration from file
   await loadConfigFromFile();
 
-  // Initialize orchestrator if API keys are available
-  if (config.anthropicApiKey && config.googleApiKey) {
+  // Executions cut off by the previous shutdown can be resumed from the history
+  await markInterruptedExecutions();
+
+  // Initialize orchestrator if API keys are available (a dry run needs none)
+  if ((config.anthropicApiKey && config.googleApiKey) || (await loadMagenticConfig()).dryRun?.enabled) {
     try {
       await initOrchestrator();
       console.log('✓ Orchestrator initialized\n');
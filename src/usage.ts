@@ -0,0 +1,135 @@
+import { TokenUsage } from './types/index.js';
+
+/**
+ * Price in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices keyed by model name, model name prefix or provider (e.g. "ollama")
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Token usage of a single LLM request with its cost
+ */
+export interface UsageRecord extends TokenUsage {
+  cost: number; // USD, 0 for local and unpriced models
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+/**
+ * Aggregated usage of a step or an execution
+ */
+export interface UsageSummary extends UsageTotals {
+  byProvider: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+export const DEFAULT_PRICES: PriceTable = {
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  // Local models
+  ollama: { input: 0, output: 0 },
+  mlx: { input: 0, output: 0 },
+};
+
+/**
+ * Merge prices from magentic-config.json with defaults
+ */
+export function resolvePriceTable(prices?: PriceTable): PriceTable {
+  return { ...DEFAULT_PRICES, ...prices };
+}
+
+/**
+ * Find the price of a model: exact name, then the longest matching prefix, then the provider
+ */
+export function findModelPrice(prices: PriceTable, usage: TokenUsage): ModelPrice | undefined {
+  if (prices[usage.model]) {
+    return prices[usage.model];
+  }
+  const prefix = Object.keys(prices)
+    .filter((key) => usage.model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : prices[usage.provider];
+}
+
+/**
+ * Cost of a single request in USD (unpriced models cost 0)
+ */
+export function calculateCost(usage: TokenUsage, prices: PriceTable): number {
+  const price = findModelPrice(prices, usage);
+  if (!price) {
+    return 0;
+  }
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cost += record.cost;
+}
+
+/**
+ * Aggregate usage records - totals, per provider and per model
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = { ...emptyTotals(), byProvider: {}, byModel: {} };
+
+  for (const record of records) {
+    addToTotals(summary, record);
+    addToTotals((summary.byProvider[record.provider] ??= emptyTotals()), record);
+    addToTotals((summary.byModel[record.model] ??= emptyTotals()), record);
+  }
+
+  return summary;
+}
+
+function mergeTotals(target: UsageTotals, totals: UsageTotals): void {
+  target.calls += totals.calls;
+  target.inputTokens += totals.inputTokens;
+  target.outputTokens += totals.outputTokens;
+  target.cost += totals.cost;
+}
+
+/**
+ * Combine usage summaries (e.g. of an execution and its resumed run)
+ */
+export function mergeUsageSummaries(...summaries: Array<UsageSummary | undefined>): UsageSummary {
+  const merged: UsageSummary = { ...emptyTotals(), byProvider: {}, byModel: {} };
+
+  for (const summary of summaries) {
+    if (!summary) continue;
+    mergeTotals(merged, summary);
+    for (const [provider, totals] of Object.entries(summary.byProvider)) {
+      mergeTotals((merged.byProvider[provider] ??= emptyTotals()), totals);
+    }
+    for (const [model, totals] of Object.entries(summary.byModel)) {
+      mergeTotals((merged.byModel[model] ??= emptyTotals()), totals);
+    }
+  }
+
+  return merged;
+}
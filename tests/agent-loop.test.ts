@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { AgentLoop } from '../src/agent-loop.js';
+import { FakeAgent, FakeResponse } from '../src/agents/fake-agent.js';
+import { ToolCall } from '../src/types/index.js';
+
+function createAgent(responses: FakeResponse[]): FakeAgent {
+  return new FakeAgent({ name: 'fake', responses, fallback: 'koniec skryptu' });
+}
+
+describe('AgentLoop', () => {
+  it('feeds tool results back until the agent answers', async () => {
+    const agent = createAgent([
+      { toolCalls: [{ name: 'lookup', input: { q: 'Alice' } }] },
+      { content: 'Alice zna Boba.' },
+    ]);
+    const dispatched: ToolCall[] = [];
+    const loop = new AgentLoop(agent, {
+      dispatchTool: async (toolCall) => {
+        dispatched.push(toolCall);
+        return { knows: 'Bob' };
+      },
+    });
+
+    const { content, messages } = await loop.runTurn([{ role: 'user', content: 'Kogo zna Alice?' }]);
+
+    expect(content).toBe('Alice zna Boba.');
+    expect(dispatched).toEqual([{ id: 'fake_call_1', name: 'lookup', input: { q: 'Alice' } }]);
+    expect(JSON.stringify(agent.requests[1])).toContain('Bob');
+    // Tool call, tool results and the final answer - without the initial message
+    expect(messages.map((m) => m.role)).toEqual(['assistant', 'user', 'assistant']);
+    expect(messages.at(-1)?.content).toBe('Alice zna Boba.');
+  });
+
+  it('stops an agent that keeps calling tools after maxIterations', async () => {
+    const agent = createAgent([
+      { toolCalls: [{ name: 'lookup', input: { q: 1 } }] },
+      { toolCalls: [{ name: 'lookup', input: { q: 2 } }] },
+      { toolCalls: [{ name: 'lookup', input: { q: 3 } }] },
+    ]);
+    const loop = new AgentLoop(agent, {
+      dispatchTool: async (toolCall) => `wynik ${toolCall.input.q}`,
+      maxIterations: 2,
+      loopDetection: { enabled: false },
+    });
+
+    await expect(loop.run([{ role: 'user', content: 'szukaj' }])).rejects.toThrow('Maximum tool call iterations (2) exceeded');
+    expect(agent.requests).toHaveLength(2);
+  });
+
+  it('truncates tool results longer than maxToolResultLength', async () => {
+    const agent = createAgent([{ toolCalls: [{ name: 'dump' }] }, { content: 'gotowe' }]);
+    const loop = new AgentLoop(agent, {
+      dispatchTool: async () => 'x'.repeat(100),
+      maxToolResultLength: 30,
+    });
+
+    await loop.run([{ role: 'user', content: 'zrzuć dane' }]);
+
+    const resultMessage = agent.requests[1].at(-1)?.content as string;
+    expect(resultMessage).toContain(`${'x'.repeat(30)}\n\n[... skrócono 70 znaków`);
+    expect(resultMessage).not.toContain('x'.repeat(31));
+  });
+
+  it('stores oversized tool results instead of truncating them when the loop has a store', async () => {
+    const agent = createAgent([{ toolCalls: [{ name: 'dump' }] }, { content: 'gotowe' }]);
+    const recorded: any[] = [];
+    const loop = new AgentLoop(agent, {
+      dispatchTool: async () => 'y'.repeat(100),
+      maxToolResultLength: 30,
+      storeToolResult: async () => ({ artifactId: 'result-1', output: 'Wynik zapisany jako result-1' }),
+      onToolCall: (record) => recorded.push(record),
+    });
+
+    await loop.run([{ role: 'user', content: 'zrzuć dane' }]);
+
+    expect(agent.requests[1].at(-1)?.content).toContain('Wynik zapisany jako result-1');
+    expect(recorded[0]).toMatchObject({ name: 'dump', artifactId: 'result-1', result: 'Wynik zapisany jako result-1' });
+  });
+
+  it('stops before the next agent call once aborted', async () => {
+    const agent = createAgent([{ toolCalls: [{ name: 'lookup' }] }, { content: 'gotowe' }]);
+    let aborted = false;
+    const loop = new AgentLoop(agent, {
+      dispatchTool: async () => {
+        aborted = true;
+        return 'wynik';
+      },
+      isAborted: () => aborted,
+    });
+
+    await expect(loop.run([{ role: 'user', content: 'szukaj' }])).rejects.toThrow('Execution aborted by user');
+    expect(agent.requests).toHaveLength(1);
+  });
+});
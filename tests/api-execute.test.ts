@@ -0,0 +1,136 @@
+import { ChildProcess, spawn } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DryRunScript } from '../src/dry-run.js';
+import { fakeMCPServer, tsxArgs } from './helpers.js';
+
+const plan = {
+  goal: 'Wypisz osoby z bazy',
+  steps: [{ step: 1, agent: 'claude', description: 'Pobierz osoby z bazy Neo4j' }],
+};
+
+const script: DryRunScript = {
+  manager: [
+    { match: 'plan wykonania', content: JSON.stringify(plan) },
+    { content: 'W bazie są dwie osoby: Alice i Bob.' },
+  ],
+  claude: [
+    { toolCalls: [{ name: 'mcp_neo4j_read_neo4j_cypher', input: { query: 'MATCH (p:Person) RETURN p.name AS name' } }] },
+    { content: 'Osoby: Alice, Bob' },
+    // Chat - a tool call that needs approval
+    { match: 'Dodaj osobę', toolCalls: [{ name: 'mcp_neo4j_write_neo4j_cypher', input: { query: 'CREATE (:Person {name: "Ewa"})' } }] },
+    { match: 'odrzucone', content: 'Nie dodano osoby - zapis odrzucony.' },
+  ],
+};
+
+let dir: string;
+let server: ChildProcess;
+let baseUrl: string;
+
+/**
+ * Start the UI server in dry run mode (its own working directory, config and port)
+ */
+async function startServer(): Promise<void> {
+  const port = 20000 + Math.floor(Math.random() * 20000);
+  baseUrl = `http://localhost:${port}`;
+  server = spawn(process.execPath, tsxArgs('src/ui/server.ts'), {
+    cwd: dir,
+    env: {
+      ...process.env,
+      PORT: String(port),
+      ANTHROPIC_API_KEY: '',
+      GOOGLE_API_KEY: '',
+      MCP_SERVERS: JSON.stringify([fakeMCPServer()]),
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    let output = '';
+    server.stdout!.on('data', (data) => {
+      output += data;
+      if (output.includes('Orchestrator initialized')) resolve();
+    });
+    server.stderr!.on('data', (data) => (output += data));
+    server.on('exit', (code) => reject(new Error(`Server exited (${code}):\n${output}`)));
+  });
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), 'magentic-test-'));
+  await writeFile(path.join(dir, 'magentic-config.json'), JSON.stringify({ dryRun: { enabled: true, script }, approvalToolPatterns: ['write_neo4j_cypher'] }));
+  await startServer();
+});
+
+afterAll(async () => {
+  if (server && server.exitCode === null) {
+    const exited = new Promise((resolve) => server.once('exit', resolve));
+    server.kill('SIGTERM');
+    await exited;
+  }
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('POST /api/execute (dry run)', () => {
+  it('plans, executes the steps with MCP tools and saves the execution', async () => {
+    const response = await fetch(`${baseUrl}/api/execute`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ task: 'Jakie osoby są w bazie?' }),
+    });
+    expect(response.status).toBe(200);
+    const body = await response.json();
+
+    expect(body.plan.steps).toHaveLength(1);
+    expect(body.result).toContain('Alice i Bob');
+    expect(body.rawResult).toContain('Osoby: Alice, Bob');
+
+    const execution = await (await fetch(`${baseUrl}/api/executions/${body.sessionId}`)).json();
+    expect(execution.status).toBe('completed');
+    const stepExecution = execution.stepExecutions.find((s: any) => s.stepNumber === 1);
+    expect(stepExecution.toolCalls[0].name).toBe('mcp_neo4j_read_neo4j_cypher');
+    expect(JSON.stringify(stepExecution.toolCalls[0].result)).toContain('Alice');
+  });
+
+  it('rejects a request without a task', async () => {
+    const response = await fetch(`${baseUrl}/api/execute`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('POST /api/chat (dry run)', () => {
+  it('waits for the approval of a gated tool call', async () => {
+    const chat = fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message: 'Dodaj osobę Ewa', agent: 'claude' }),
+    });
+
+    let approvals: any[] = [];
+    for (let i = 0; i < 100 && approvals.length === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      approvals = (await (await fetch(`${baseUrl}/api/approvals`)).json()).approvals;
+    }
+    expect(approvals).toHaveLength(1);
+    expect(approvals[0]).toMatchObject({ tool: 'mcp_neo4j_write_neo4j_cypher', agent: 'Claude' });
+
+    const decision = await fetch(`${baseUrl}/api/approvals/${approvals[0].id}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'reject', reason: 'tylko odczyt' }),
+    });
+    expect(decision.status).toBe(200);
+
+    const response = await chat;
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.response).toBe('Nie dodano osoby - zapis odrzucony.');
+    expect(body.executionId).toBe(approvals[0].executionId);
+  });
+});
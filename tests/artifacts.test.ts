@@ -0,0 +1,40 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ArtifactStore, resolveArtifacts } from '../src/artifacts.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), 'magentic-artifacts-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('ArtifactStore', () => {
+  it('does not let a named artifact overwrite a stored tool result', async () => {
+    const store = new ArtifactStore(dir, resolveArtifacts());
+    const result = await store.saveToolResult('read_neo4j_cypher', 'wiersze z bazy');
+
+    await expect(store.write(result.name, 'nadpisane')).rejects.toThrow('reserved for stored tool results');
+    await expect(store.write('Result-2-search.txt', 'x')).rejects.toThrow('reserved for stored tool results');
+    expect(await readFile(result.path, 'utf-8')).toBe('wiersze z bazy');
+  });
+
+  it('gives every tool result a new id, also after restoring an earlier run', async () => {
+    const first = new ArtifactStore(dir, resolveArtifacts());
+    await first.write('raport.md', '# Raport');
+    const earlier = await first.saveToolResult('search', 'wynik 1');
+
+    const resumed = new ArtifactStore(dir, resolveArtifacts());
+    resumed.restore(first.list());
+    const next = await resumed.saveToolResult('search', 'wynik 2');
+
+    expect([earlier.id, next.id]).toEqual(['result-1', 'result-2']);
+    expect(await resumed.read(earlier.id)).toBe('wynik 1');
+    expect(await resumed.read(next.id)).toBe('wynik 2');
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ExecutionContext } from '../src/execution-context.js';
+import { BudgetExceededEvent, ExecutionBudget, checkBudget } from '../src/budget.js';
+import { UsageRecord, summarizeUsage } from '../src/usage.js';
+import { PlanStep } from '../src/types/index.js';
+import { cleanupOrchestrators, createOrchestrator } from './helpers.js';
+
+function createContext(budget: ExecutionBudget): { context: ExecutionContext; events: BudgetExceededEvent[] } {
+  const events: BudgetExceededEvent[] = [];
+  return { context: new ExecutionContext({ budget, onBudgetExceeded: (event) => events.push(event) }), events };
+}
+
+function step(number: number, agent: PlanStep['agent']): PlanStep {
+  return { step: number, agent, description: `Krok ${number}` };
+}
+
+// 120 tokens per request - over a 100 token limit after the first one
+const usage = { inputTokens: 100, outputTokens: 20 };
+
+// A refused or failed step is not retried
+const config = { retryPolicy: { maxAttempts: 1 } };
+
+afterEach(cleanupOrchestrators);
+
+describe('checkBudget', () => {
+  it('checks only the limits of the given provider before a step', () => {
+    const records: UsageRecord[] = [{ provider: 'google', model: 'gemini', inputTokens: 60, outputTokens: 0, cost: 0 }];
+    const budget: ExecutionBudget = { perProvider: { google: { maxTokens: 50 } } };
+
+    expect(checkBudget(budget, records, { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 }, 'anthropic')).toBeNull();
+    expect(checkBudget(budget, records, { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 }, 'google')).toMatchObject({
+      scope: 'provider',
+      provider: 'google',
+      limit: 'tokens',
+      max: 50,
+      used: 60,
+    });
+  });
+});
+
+describe('MagenticOrchestrator budgets', () => {
+  it('aborts the execution and refuses further steps in abort mode', async () => {
+    const orch = await createOrchestrator({ claude: [{ content: 'pierwszy', usage }, { content: 'drugi', usage }] }, config);
+    const { context, events } = createContext({ maxTokens: 100 });
+
+    await orch.executeStep(context, step(1, 'claude'), 'Krok 1');
+
+    expect(context.aborted).toBe(true);
+    await expect(orch.executeStep(context, step(2, 'claude'), 'Krok 2')).rejects.toMatchObject({ isBudgetExceeded: true });
+    expect(events.map((e) => e.action)).toEqual(['abort', 'refused']);
+    expect(events[0].violation).toMatchObject({ scope: 'execution', limit: 'tokens', max: 100, used: 120 });
+    expect(orch.getDryRunAgent('claude')!.requests).toHaveLength(1);
+  });
+
+  it('switches Claude steps to the downgrade model and refuses other agents in downgrade mode', async () => {
+    const orch = await createOrchestrator(
+      {
+        claude: [{ content: 'pierwszy', usage }, { content: 'drugi', usage }],
+        gemini: [{ content: 'trzeci', usage }],
+      },
+      config
+    );
+    const { context, events } = createContext({ maxTokens: 100, onExceeded: 'downgrade', downgradeModel: 'tani-model' });
+
+    await orch.executeStep(context, step(1, 'claude'), 'Krok 1');
+    const second = await orch.executeStep(context, step(2, 'claude'), 'Krok 2');
+
+    expect(context.aborted).toBe(false);
+    expect(second.result).toBe('drugi');
+    expect(second.model).toBe('tani-model');
+    await expect(orch.executeStep(context, step(3, 'gemini'), 'Krok 3')).rejects.toMatchObject({ isBudgetExceeded: true });
+    expect(events.map((e) => e.action)).toEqual(['downgrade', 'refused']);
+    expect(orch.getDryRunAgent('gemini')!.requests).toHaveLength(0);
+  });
+
+  it('counts the usage of earlier runs of a resumed execution', async () => {
+    const orch = await createOrchestrator({ claude: [{ content: 'wznowiony', usage: { inputTokens: 20, outputTokens: 10 } }] }, config);
+    const events: BudgetExceededEvent[] = [];
+    const context = new ExecutionContext({
+      budget: { maxTokens: 100 },
+      usageBefore: summarizeUsage([{ provider: 'anthropic', model: 'claude', inputTokens: 70, outputTokens: 10, cost: 0 }]),
+      onBudgetExceeded: (event) => events.push(event),
+    });
+
+    await orch.executeStep(context, step(3, 'claude'), 'Krok 3');
+
+    expect(context.aborted).toBe(true);
+    expect(events[0].violation).toMatchObject({ scope: 'execution', limit: 'tokens', max: 100, used: 110 });
+  });
+
+  it('stops on the daily limit even in downgrade mode', async () => {
+    const orch = await createOrchestrator({ claude: [{ content: 'pierwszy', usage }, { content: 'drugi', usage }] }, config);
+    const { context, events } = createContext({ daily: { maxTokens: 100 }, onExceeded: 'downgrade' });
+
+    await orch.executeStep(context, step(1, 'claude'), 'Krok 1');
+
+    expect(context.aborted).toBe(true);
+    await expect(orch.executeStep(context, step(2, 'claude'), 'Krok 2')).rejects.toMatchObject({ isBudgetExceeded: true });
+    expect(events.map((e) => [e.action, e.violation.scope])).toEqual([['abort', 'daily'], ['refused', 'daily']]);
+  });
+});
@@ -0,0 +1,107 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  ContextCompactionConfig,
+  ContextCompactor,
+  ResultSummarizer,
+  estimateTokens,
+  findContextWindow,
+  resolveContextCompaction,
+  splitByTokens,
+  stripToolHistory,
+} from '../src/context-compaction.js';
+import { FINAL_ANSWER_MARKER } from '../src/agent-loop.js';
+import { StepOutcome } from '../src/plan-executor.js';
+import { PlanStep } from '../src/types/index.js';
+
+let rawDir: string;
+
+beforeEach(async () => {
+  rawDir = await mkdtemp(path.join(os.tmpdir(), 'magentic-compaction-'));
+});
+
+afterEach(async () => {
+  await rm(rawDir, { recursive: true, force: true });
+});
+
+function outcome(number: number, result: string): StepOutcome {
+  return { step: { step: number, agent: 'claude', description: `Krok ${number}` }, result };
+}
+
+function createCompactor(summarize: ResultSummarizer, config: Partial<ContextCompactionConfig> = {}): ContextCompactor {
+  return new ContextCompactor(
+    resolveContextCompaction({ contextWindows: { ollama: 400 }, maxContextShare: 0.5, summaryTokens: 20, rawDir, ...config }),
+    summarize
+  );
+}
+
+const step: PlanStep = { step: 3, agent: 'ollama', description: 'Podsumuj poprzednie kroki' };
+
+describe('context compaction helpers', () => {
+  it('finds the context window by model name, longest prefix, then agent', () => {
+    const windows = { ollama: 4096, 'qwen2.5': 32768, 'qwen2.5-coder': 16384 };
+    expect(findContextWindow(windows, { agent: 'ollama', model: 'qwen2.5' })).toBe(32768);
+    expect(findContextWindow(windows, { agent: 'ollama', model: 'qwen2.5-coder:7b' })).toBe(16384);
+    expect(findContextWindow(windows, { agent: 'ollama', model: 'llama3' })).toBe(4096);
+  });
+
+  it('strips the tool call history before the final answer', () => {
+    expect(stripToolHistory(`=== Iteracja 1 ===\n🛠️ search\n${FINAL_ANSWER_MARKER}\nOdpowiedź`)).toBe('Odpowiedź');
+    expect(stripToolHistory('Bez historii')).toBe('Bez historii');
+  });
+
+  it('splits a text into parts of about the given token count', () => {
+    const parts = splitByTokens('a'.repeat(100), 10);
+    expect(parts.join('')).toBe('a'.repeat(100));
+    expect(parts.every((part) => estimateTokens(part) <= 10)).toBe(true);
+  });
+});
+
+describe('ContextCompactor', () => {
+  it('leaves a task that fits the context window unchanged', async () => {
+    const compactor = createCompactor(async () => {
+      throw new Error('should not summarize');
+    });
+
+    const task = await compactor.buildTask('exec_1', step, [outcome(1, 'krótki wynik')], { agent: 'ollama' }, new Map());
+
+    expect(task).toContain('Wynik: krótki wynik');
+  });
+
+  it('summarizes results that do not fit, oldest first, and keeps the full result on disk', async () => {
+    const summarized: number[] = [];
+    const compactor = createCompactor(async (_text, dep) => {
+      summarized.push(dep.step);
+      return `streszczenie kroku ${dep.step}`;
+    });
+    const summaries = new Map<number, string>();
+    const dependencies = [outcome(1, 'x'.repeat(1000)), outcome(2, 'krótki wynik')];
+
+    const task = await compactor.buildTask('exec_1', step, dependencies, { agent: 'ollama' }, summaries);
+
+    expect(summarized).toEqual([1]);
+    expect(task).toContain('[Streszczenie] streszczenie kroku 1');
+    expect(task).toContain('Wynik: krótki wynik');
+    expect(estimateTokens(task)).toBeLessThanOrEqual(200);
+    const rawFile = path.join(rawDir, 'exec_1', 'step-1.txt');
+    expect(task).toContain(`[Pełny wynik: ${rawFile}]`);
+    expect(await readFile(rawFile, 'utf-8')).toBe('x'.repeat(1000));
+
+    // A result used by another step is summarized once per execution
+    await compactor.buildTask('exec_1', { ...step, step: 4 }, dependencies, { agent: 'ollama' }, summaries);
+    expect(summarized).toEqual([1]);
+  });
+
+  it('truncates results when summarizing fails', async () => {
+    const compactor = createCompactor(async () => {
+      throw new Error('ollama niedostępna');
+    });
+
+    const task = await compactor.buildTask('exec_1', step, [outcome(1, 'y'.repeat(1000))], { agent: 'ollama' }, new Map());
+
+    expect(task).toContain('... [skrócono]');
+    expect(estimateTokens(task)).toBeLessThanOrEqual(200);
+  });
+});
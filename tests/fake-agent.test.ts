@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { FakeAgent } from '../src/agents/fake-agent.js';
+import { TokenUsage } from '../src/types/index.js';
+
+describe('FakeAgent', () => {
+  it('answers with the scripted responses in order, then the fallback', async () => {
+    const agent = new FakeAgent({
+      name: 'fake',
+      responses: [{ content: 'pierwsza' }, { content: 'druga' }],
+      fallback: 'koniec skryptu',
+    });
+
+    const messages = [{ role: 'user' as const, content: 'pytanie' }];
+    expect((await agent.execute(messages)).content).toBe('pierwsza');
+    expect((await agent.execute(messages)).content).toBe('druga');
+    expect((await agent.execute(messages)).content).toBe('koniec skryptu');
+    expect(agent.requests).toHaveLength(3);
+    expect(agent.getRemainingResponses()).toEqual([]);
+  });
+
+  it('uses a matching response only for a request that matches it', async () => {
+    const agent = new FakeAgent({
+      name: 'fake',
+      responses: [{ match: 'schemat', content: 'odpowiedź o schemacie' }, { content: 'ogólna odpowiedź' }],
+    });
+
+    expect((await agent.execute([{ role: 'user', content: 'cześć' }])).content).toBe('ogólna odpowiedź');
+    expect((await agent.execute([{ role: 'user', content: 'Pokaż SCHEMAT bazy' }])).content).toBe('odpowiedź o schemacie');
+  });
+
+  it('returns scripted tool calls and sees their results', async () => {
+    const agent = new FakeAgent({
+      name: 'fake',
+      responses: [{ toolCalls: [{ name: 'search', input: { q: 'x' } }] }, { content: 'gotowe' }],
+    });
+
+    const first = await agent.execute([{ role: 'user', content: 'szukaj' }]);
+    expect(first.stopReason).toBe('tool_use');
+    expect(first.toolCalls).toEqual([{ id: 'fake_call_1', name: 'search', input: { q: 'x' } }]);
+
+    const second = await agent.executeWithTools([{ role: 'user', content: 'szukaj' }], [
+      { toolCallId: 'fake_call_1', output: { hits: 3 } },
+    ]);
+    expect(second.content).toBe('gotowe');
+    expect(second.toolCalls).toBeUndefined();
+    expect(agent.requests[1].at(-1)?.content).toContain('"hits":3');
+  });
+
+  it('fails with a scripted error', async () => {
+    const agent = new FakeAgent({ name: 'fake', responses: [{ error: 'rate_limit_error' }] });
+    await expect(agent.execute([{ role: 'user', content: 'x' }])).rejects.toThrow('rate_limit_error');
+  });
+
+  it('streams the response and reports usage', async () => {
+    const agent = new FakeAgent({
+      name: 'fake',
+      provider: 'google',
+      model: 'fake-model',
+      responses: [{ content: 'Ala ma kota', usage: { inputTokens: 10, outputTokens: 3 } }],
+    });
+
+    const deltas: string[] = [];
+    const usage: TokenUsage[] = [];
+    const response = await agent.executeStream([{ role: 'user', content: 'x' }], (delta) => deltas.push(delta), {
+      onUsage: (u) => usage.push(u),
+    });
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe(response.content);
+    expect(usage).toEqual([{ provider: 'google', model: 'fake-model', inputTokens: 10, outputTokens: 3 }]);
+  });
+
+  it('rejects aborted requests', async () => {
+    const agent = new FakeAgent({ name: 'fake', responses: [{ content: 'x' }] });
+    const controller = new AbortController();
+    controller.abort();
+    await expect(agent.execute([{ role: 'user', content: 'x' }], { signal: controller.signal })).rejects.toThrow(
+      'Execution aborted by user'
+    );
+    expect(agent.getRemainingResponses()).toHaveLength(1);
+  });
+});
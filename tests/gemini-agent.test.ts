@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { GenerativeModel } from '@google/generative-ai';
+import { GeminiAgent, GeminiClient } from '../src/agents/gemini-agent.js';
+import { AgentLoop } from '../src/agent-loop.js';
+import { AgentResponse, MCPServerConfig, Message, ToolCallRecord } from '../src/types/index.js';
+import type { FakeMCPTool } from '../src/testing/fake-mcp-server.js';
+import { fakeMCPServer } from './helpers.js';
+
+type FakeResponse = { text?: string; functionCalls?: Array<{ name: string; args: any }> };
+
+/**
+ * Gemini SDK client whose chats answer with the given responses (function calls or text)
+ */
+function createClient(responses: FakeResponse[]) {
+  const chats: Array<{ model: string; params: any; parts: any[] }> = [];
+  const client: GeminiClient = {
+    getGenerativeModel: ({ model }) =>
+      ({
+        startChat: (params: any) => ({
+          sendMessage: async (parts: any[]) => {
+            chats.push({ model, params, parts });
+            const response = responses[chats.length - 1];
+            return {
+              response: {
+                text: () => response.text || '',
+                functionCalls: () => response.functionCalls,
+                usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 2 },
+              },
+            };
+          },
+        }),
+      }) as unknown as GenerativeModel,
+  };
+  return { client, chats };
+}
+
+function createAgent(responses: FakeResponse[], mcpServers: MCPServerConfig[] = []) {
+  const { client, chats } = createClient(responses);
+  const agent = new GeminiAgent(
+    '',
+    {
+      name: 'Gemini',
+      model: 'gemini-2.0-flash',
+      tools: [
+        {
+          name: 'lookup',
+          description: 'Look up a record',
+          inputSchema: z.object({ id: z.string(), verbose: z.boolean().optional() }),
+        },
+        { name: 'ping', description: 'No arguments', inputSchema: z.object({}) },
+      ],
+    },
+    mcpServers,
+    client
+  );
+  return { agent, chats };
+}
+
+describe('GeminiAgent function calling', () => {
+  it('declares its tools as Gemini functions', async () => {
+    const { agent, chats } = createAgent([{ text: 'ok' }]);
+
+    await agent.execute([{ role: 'user', content: 'x' }]);
+
+    const declarations = chats[0].params.tools[0].functionDeclarations;
+    expect(declarations[0]).toEqual({
+      name: 'lookup',
+      description: 'Look up a record',
+      parameters: { type: 'object', properties: { id: { type: 'string' }, verbose: { type: 'boolean' } }, required: ['id'] },
+    });
+    expect(declarations[1]).toEqual({ name: 'ping', description: 'No arguments' });
+  });
+
+  it('returns function calls as tool calls and sends the results back as function responses', async () => {
+    const { agent, chats } = createAgent([
+      { functionCalls: [{ name: 'lookup', args: { id: '42' } }] },
+      { text: 'Rekord 42 to Alice' },
+    ]);
+    const messages: Message[] = [{ role: 'user', content: 'Kim jest 42?' }];
+
+    const first: AgentResponse = await agent.execute(messages);
+    expect(first.stopReason).toBe('tool_use');
+    expect(first.toolCalls).toEqual([{ id: expect.any(String), name: 'lookup', input: { id: '42' } }]);
+
+    messages.push(...agent.buildToolResultMessages(first, [{ toolCallId: first.toolCalls![0].id, output: 'Alice' }]));
+    const second = await agent.execute(messages);
+
+    expect(second.content).toBe('Rekord 42 to Alice');
+    expect(chats[1].params.history).toEqual([
+      { role: 'user', parts: [{ text: 'Kim jest 42?' }] },
+      { role: 'model', parts: [{ functionCall: { name: 'lookup', args: { id: '42' } } }] },
+    ]);
+    expect(chats[1].parts).toEqual([{ functionResponse: { name: 'lookup', response: { result: 'Alice' } } }]);
+  });
+
+  it('uses the model of the call and reports usage for it', async () => {
+    const { agent, chats } = createAgent([{ text: 'a' }, { text: 'b' }]);
+    const models: string[] = [];
+
+    await agent.execute([{ role: 'user', content: 'x' }], { onUsage: (usage) => models.push(usage.model) });
+    await agent.execute([{ role: 'user', content: 'x' }], { model: 'gemini-2.5-pro', onUsage: (usage) => models.push(usage.model) });
+
+    expect(chats.map((chat) => chat.model)).toEqual(['gemini-2.0-flash', 'gemini-2.5-pro']);
+    expect(models).toEqual(['gemini-2.0-flash', 'gemini-2.5-pro']);
+  });
+
+  it('dispatches free-form object arguments to MCP tools as objects', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'magentic-gemini-'));
+    const tools: FakeMCPTool[] = [
+      {
+        name: 'run_query',
+        description: 'Run a query with parameters',
+        inputSchema: {
+          type: 'object',
+          properties: { query: { type: 'string' }, params: { type: 'object', description: 'Query parameters' } },
+          required: ['query'],
+        },
+      },
+    ];
+    const toolsFile = path.join(dir, 'tools.json');
+    await writeFile(toolsFile, JSON.stringify(tools));
+
+    const { agent, chats } = createAgent(
+      [
+        { functionCalls: [{ name: 'mcp_db_run_query', args: { query: 'MATCH (p {name: $name})', params: '{"name":"Alice"}' } }] },
+        { text: 'gotowe' },
+      ],
+      [fakeMCPServer('db', toolsFile)]
+    );
+    await agent.initializeMCP();
+
+    try {
+      const records: ToolCallRecord[] = [];
+      const loop = new AgentLoop(agent, {
+        dispatchTool: (toolCall) => agent.executeMCPTool(toolCall.name, toolCall.input),
+        onToolCall: (record) => records.push(record),
+      });
+
+      expect(await loop.run([{ role: 'user', content: 'Znajdź Alice' }])).toBe('gotowe');
+
+      // Declared as a JSON string, received by the MCP server as an object
+      const declaration = chats[0].params.tools[0].functionDeclarations.find((d: any) => d.name === 'mcp_db_run_query');
+      expect(declaration.parameters.properties.params.type).toBe('string');
+      expect(records[0].input).toEqual({ query: 'MATCH (p {name: $name})', params: { name: 'Alice' } });
+      expect(JSON.parse(records[0].result.content[0].text)).toEqual(records[0].input);
+    } finally {
+      await agent.closeMCP();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
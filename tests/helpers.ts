@@ -0,0 +1,54 @@
+import path from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { MagenticOrchestrator, OrchestratorConfig } from '../src/orchestrator.js';
+import { DryRunScript } from '../src/dry-run.js';
+import { MCPServerConfig } from '../src/types/index.js';
+
+export const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+/**
+ * Node arguments running a TypeScript file of the repository (any working directory)
+ */
+export function tsxArgs(file: string, ...args: string[]): string[] {
+  const tsx = pathToFileURL(createRequire(import.meta.url).resolve('tsx')).href;
+  return ['--import', tsx, path.join(ROOT, file), ...args];
+}
+
+/**
+ * MCP server config of the fake MCP server (Neo4j-like tools unless a tools file is given)
+ */
+export function fakeMCPServer(name = 'neo4j', toolsFile?: string): MCPServerConfig {
+  return {
+    name,
+    command: process.execPath,
+    args: tsxArgs('src/testing/fake-mcp-server.ts', ...(toolsFile ? [toolsFile] : [])),
+  };
+}
+
+const orchestrators: MagenticOrchestrator[] = [];
+
+/**
+ * Initialized dry-run orchestrator answering with the given script (closed by cleanupOrchestrators)
+ */
+export async function createOrchestrator(script: DryRunScript, config: Partial<OrchestratorConfig> = {}): Promise<MagenticOrchestrator> {
+  const orchestrator = new MagenticOrchestrator({
+    anthropicApiKey: '',
+    googleApiKey: '',
+    dryRun: { enabled: true, script },
+    tracing: { enabled: false },
+    ...config,
+  });
+  orchestrators.push(orchestrator);
+  await orchestrator.initialize();
+  return orchestrator;
+}
+
+/**
+ * Close the orchestrators created by a test (use in afterEach)
+ */
+export async function cleanupOrchestrators(): Promise<void> {
+  for (const orchestrator of orchestrators.splice(0)) {
+    await orchestrator.cleanup();
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LOOP_DETECTION, ToolLoopDetector } from '../src/loop-detection.js';
+import { AgentLoop } from '../src/agent-loop.js';
+import { FakeAgent } from '../src/agents/fake-agent.js';
+import { ToolCallRecord } from '../src/types/index.js';
+
+function call(name: string, input: Record<string, any>, result: any): ToolCallRecord {
+  return { id: `${name}_${JSON.stringify(input)}`, name, input, result };
+}
+
+describe('ToolLoopDetector', () => {
+  it('detects the same call returning the same result', () => {
+    const detector = new ToolLoopDetector(DEFAULT_LOOP_DETECTION);
+
+    expect(detector.observe([call('search', { q: 'a', limit: 5 }, 'wynik')])).toBeNull();
+    expect(detector.observe([call('search', { limit: 5, q: 'a' }, 'wynik')])).toBeNull();
+    // Argument order does not matter
+    expect(detector.observe([call('search', { q: 'a', limit: 5 }, 'wynik')])).toMatchObject({
+      kind: 'repeated_call',
+      toolName: 'search',
+      count: 3,
+    });
+  });
+
+  it('does not treat a repeated call with a changing result as a loop', () => {
+    const detector = new ToolLoopDetector(DEFAULT_LOOP_DETECTION);
+
+    for (let i = 0; i < 5; i++) {
+      expect(detector.observe([call('status', {}, `postęp ${i}`)])).toBeNull();
+    }
+  });
+
+  it('detects the same error in a row', () => {
+    const detector = new ToolLoopDetector({ ...DEFAULT_LOOP_DETECTION, maxRepeatedErrors: 2 });
+    const error = { error: 'Syntax error in query' };
+
+    expect(detector.observe([call('query', { q: 'MATCH (' }, error)])).toBeNull();
+    expect(detector.observe([call('query', { q: 'MATCH ((' }, error)])).toMatchObject({ kind: 'repeated_error', count: 2 });
+  });
+
+  it('detects iterations that bring no new results', () => {
+    const detector = new ToolLoopDetector({ ...DEFAULT_LOOP_DETECTION, maxRepeatedCalls: 10, maxNoProgressIterations: 2 });
+
+    expect(detector.observe([call('a', {}, 1), call('b', {}, 2)])).toBeNull();
+    expect(detector.observe([call('b', {}, 2)])).toBeNull();
+    expect(detector.observe([call('a', {}, 1)])).toMatchObject({ kind: 'no_progress', count: 2 });
+  });
+});
+
+describe('AgentLoop loop detection', () => {
+  const repeatedCall = { toolCalls: [{ name: 'search', input: { q: 'Alice' } }] };
+
+  it('sends a corrective message and lets the agent finish', async () => {
+    const agent = new FakeAgent({ name: 'fake', responses: [repeatedCall, repeatedCall, repeatedCall, { content: 'gotowe' }] });
+    const loop = new AgentLoop(agent, { dispatchTool: async () => 'brak wyników' });
+
+    expect(await loop.run([{ role: 'user', content: 'szukaj' }])).toBe('gotowe');
+    expect(agent.requests[3].at(-1)?.content).toContain('[UWAGA] Narzędzie search zostało wywołane już 3 razy');
+  });
+
+  it('stops the run when the agent keeps looping after the correction', async () => {
+    const agent = new FakeAgent({ name: 'fake', responses: Array(6).fill(repeatedCall) });
+    const loop = new AgentLoop(agent, { dispatchTool: async () => 'brak wyników' });
+
+    await expect(loop.run([{ role: 'user', content: 'szukaj' }])).rejects.toMatchObject({
+      isToolLoop: true,
+      toolLoop: { kind: 'repeated_call', toolName: 'search', count: 4 },
+    });
+    expect(agent.requests).toHaveLength(4);
+  });
+});
@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ExecutionContext } from '../src/execution-context.js';
+import { cleanupOrchestrators, createOrchestrator, fakeMCPServer } from './helpers.js';
+
+afterEach(cleanupOrchestrators);
+
+describe('MagenticOrchestrator (dry run)', () => {
+  it('parses the plan written by the manager and runs its steps in dependency order', async () => {
+    const plan = {
+      goal: 'Policz osoby',
+      steps: [
+        { step: 1, agent: 'gemini', description: 'Podsumuj wynik', dependsOn: [2] },
+        { step: 2, agent: 'claude', description: 'Pobierz osoby', dependsOn: [] },
+      ],
+    };
+    const orch = await createOrchestrator(
+      {
+        manager: [{ content: `Oto plan:\n\`\`\`json\n${JSON.stringify(plan)}\n\`\`\`` }],
+        claude: [{ content: 'Alice, Bob' }],
+        gemini: [{ content: 'W bazie są 2 osoby.' }],
+      },
+      { synthesis: { enabled: false } }
+    );
+
+    const created = await orch.createPlan('Ile jest osób w bazie?');
+
+    expect(created.goal).toBe('Policz osoby');
+    expect(created.steps.map((s) => s.agent)).toEqual(['gemini', 'claude']);
+    expect(created.steps[0].dependsOn).toEqual([2]);
+    expect(orch.getDryRunAgent('manager')!.requests[0].at(-1)?.content).toContain('Ile jest osób w bazie?');
+
+    const order: number[] = [];
+    orch.events.on('step_started', (event) => order.push(event.step.step));
+
+    const result = await orch.executePlan(created);
+
+    expect(order).toEqual([2, 1]);
+    expect(result).toContain('W bazie są 2 osoby.');
+    // Step 1 receives the result of the step it depends on
+    expect(JSON.stringify(orch.getDryRunAgent('gemini')!.requests[0])).toContain('Alice, Bob');
+  });
+
+  it('falls back to the default plan once the manager script is used up', async () => {
+    const orch = await createOrchestrator({});
+
+    const plan = await orch.createPlan('Dowolne zadanie');
+
+    expect(plan.steps).toHaveLength(1);
+    expect(plan.steps[0].agent).toBe('claude');
+  });
+
+  it('adds the Neo4j schema from the MCP server to Ollama steps', async () => {
+    const plan = { goal: 'x', steps: [{ step: 1, agent: 'ollama', description: 'Zapytaj bazę' }] };
+    const orch = await createOrchestrator(
+      { manager: [{ content: JSON.stringify(plan) }] },
+      { mcpServers: [fakeMCPServer()], ollamaBaseUrl: 'http://localhost:1' }
+    );
+
+    const created = await orch.createPlan('Kto kogo zna w bazie?');
+
+    expect(created.steps[0].description).toContain('SCHEMAT NEO4J');
+    expect(created.steps[0].description).toContain('Person');
+  });
+
+  it('executes a step with MCP tool calls and reports its events', async () => {
+    const orch = await createOrchestrator(
+      {
+        claude: [
+          { toolCalls: [{ name: 'mcp_neo4j_read_neo4j_cypher', input: { query: 'MATCH (p:Person) RETURN p.name AS name' } }] },
+          { content: 'W bazie są Alice i Bob.' },
+        ],
+      },
+      { mcpServers: [fakeMCPServer()] }
+    );
+
+    const events: string[] = [];
+    orch.events.on('step_started', () => events.push('step_started'));
+    orch.events.on('tool_call_finished', (event) => events.push(`tool_call_finished:${event.record.name}`));
+    orch.events.on('step_completed', () => events.push('step_completed'));
+
+    const context = new ExecutionContext();
+    const result = await orch.executeStep(context, { step: 1, agent: 'claude', description: 'Wypisz osoby' }, 'Wypisz osoby');
+
+    expect(result.result).toBe('W bazie są Alice i Bob.');
+    expect(result.toolCalls).toHaveLength(1);
+    expect(JSON.stringify(result.toolCalls[0].result)).toContain('Alice');
+    expect(result.usage.inputTokens).toBeGreaterThan(0);
+    expect(events).toEqual(['step_started', 'tool_call_finished:mcp_neo4j_read_neo4j_cypher', 'step_completed']);
+
+    // The second request carries the tool result back to the agent
+    const claude = orch.getDryRunAgent('claude')!;
+    expect(JSON.stringify(claude.requests[1])).toContain('Bob');
+    expect(claude.getRemainingResponses()).toEqual([]);
+  });
+
+  it('validates only the final answer of an Ollama step that called tools', async () => {
+    const orch = await createOrchestrator(
+      { ollama: [{ toolCalls: [{ name: 'list_artifacts', input: { filter: '{}' } }] }, { content: '{"count": 2}' }] },
+      { ollamaBaseUrl: 'http://localhost:1' }
+    );
+
+    const result = await orch.executeStep(
+      new ExecutionContext(),
+      {
+        step: 1,
+        agent: 'ollama',
+        description: 'Policz osoby',
+        outputSchema: { type: 'object', properties: { count: { type: 'integer' } } },
+      },
+      'Policz osoby'
+    );
+
+    // The result keeps the tool call history, the output is parsed from the final answer
+    expect(result.result).toContain('list_artifacts');
+    expect(result.output).toEqual({ count: 2 });
+    expect(orch.getDryRunAgent('ollama')!.requests).toHaveLength(2);
+  });
+
+  it('runs a manager step on the model chosen for the step', async () => {
+    const orch = await createOrchestrator({ manager: [{ content: 'Plan wygląda dobrze.' }] });
+    const context = new ExecutionContext();
+
+    const result = await orch.executeStep(
+      context,
+      { step: 1, agent: 'manager', model: 'claude-haiku-4-5', description: 'Oceń plan' },
+      'Oceń plan'
+    );
+
+    expect(result.result).toBe('Plan wygląda dobrze.');
+    expect(context.usage.map((record) => record.model)).toEqual(['claude-haiku-4-5']);
+  });
+
+  it('cleans up revised steps like new plans', async () => {
+    const revision = {
+      reasoning: 'Inny agent',
+      steps: [{ step: 1, agent: 'gpt', model: 'gpt-4o', description: 'Spróbuj ponownie', outputSchema: { type: 'table' }, fallback: [{ agent: 'nieznany' }] }],
+    };
+    const orch = await createOrchestrator({ manager: [{ content: JSON.stringify(revision) }] });
+    const failed = { step: 2, agent: 'gemini' as const, description: 'Podsumuj' };
+
+    const { steps } = await orch.revisePlan(
+      {
+        plan: { goal: 'x', steps: [{ step: 1, agent: 'claude', description: 'Pobierz' }, failed] },
+        step: failed,
+        error: new Error('503 Service Unavailable'),
+        completed: [{ step: { step: 1, agent: 'claude', description: 'Pobierz' }, result: 'Alice, Bob' }],
+        remaining: [],
+      },
+      1
+    );
+
+    expect(steps).toEqual([{ step: 3, agent: 'claude', description: 'Spróbuj ponownie', dependsOn: [1] }]);
+  });
+
+  it('runs a whole task from plan to final answer', async () => {
+    const orch = await createOrchestrator({
+      manager: [
+        { match: 'plan wykonania', content: JSON.stringify({ goal: 'x', steps: [{ step: 1, agent: 'claude', description: 'Odpowiedz' }] }) },
+      ],
+      claude: [{ content: 'Odpowiedź Claude' }],
+    }, { synthesis: { enabled: false } });
+
+    const result = await orch.executeTask('Proste zadanie', true);
+
+    expect(result).toContain('Odpowiedź Claude');
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { PlanExecutor, StepFailure, validatePlan } from '../src/plan-executor.js';
+import { Plan, PlanStep } from '../src/types/index.js';
+
+function step(number: number, dependsOn?: number[], agent: PlanStep['agent'] = 'claude'): PlanStep {
+  return { step: number, agent, description: `Krok ${number}`, dependsOn };
+}
+
+describe('PlanExecutor', () => {
+  it('runs independent steps concurrently and a step only after its dependencies', async () => {
+    // 1 and 2 are independent, 3 joins them
+    const plan: Plan = { goal: 'x', steps: [step(1, []), step(2, []), step(3, [1, 2])] };
+    const events: string[] = [];
+    const dependenciesOf3: number[] = [];
+
+    const executor = new PlanExecutor(plan, {
+      runStep: async (s, dependencies) => {
+        events.push(`start ${s.step}`);
+        if (s.step === 3) {
+          dependenciesOf3.push(...dependencies.map((d) => d.step.step));
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        events.push(`end ${s.step}`);
+        return `wynik ${s.step}`;
+      },
+    });
+
+    const outcomes = await executor.run();
+
+    expect(events.slice(0, 2)).toEqual(['start 1', 'start 2']);
+    expect(events.indexOf('start 3')).toBeGreaterThan(Math.max(events.indexOf('end 1'), events.indexOf('end 2')));
+    expect(dependenciesOf3).toEqual([1, 2]);
+    expect(outcomes.map((o) => o.result)).toEqual(['wynik 1', 'wynik 2', 'wynik 3']);
+  });
+
+  it('runs steps without dependsOn after all previous steps', async () => {
+    const plan: Plan = { goal: 'x', steps: [step(1), step(2), step(3)] };
+    const order: number[] = [];
+
+    await new PlanExecutor(plan, {
+      runStep: async (s) => {
+        order.push(s.step);
+        return 'ok';
+      },
+    }).run();
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('does not run steps sharing a concurrency key at the same time', async () => {
+    const plan: Plan = { goal: 'x', steps: [step(1, [], 'ollama'), step(2, [], 'ollama')] };
+    let running = 0;
+    let maxRunning = 0;
+
+    await new PlanExecutor(plan, {
+      concurrencyKey: (s) => s.agent,
+      runStep: async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return 'ok';
+      },
+    }).run();
+
+    expect(maxRunning).toBe(1);
+  });
+
+  it('replaces the unfinished part of the plan after a step failure', async () => {
+    const plan: Plan = { goal: 'x', steps: [step(1, []), step(2, [1]), step(3, [2])] };
+    const failures: StepFailure[] = [];
+
+    const executor = new PlanExecutor(plan, {
+      runStep: async (s) => {
+        if (s.step === 2) {
+          throw new Error('Krok 2 nie powiódł się');
+        }
+        return `wynik ${s.step}`;
+      },
+      replan: async (failure) => {
+        failures.push(failure);
+        return [{ step: 4, agent: 'gemini', description: 'Inne podejście', dependsOn: [1] }];
+      },
+    });
+
+    const outcomes = await executor.run();
+
+    expect(failures).toHaveLength(1);
+    expect(failures[0].step.step).toBe(2);
+    expect(failures[0].error.message).toBe('Krok 2 nie powiódł się');
+    expect(failures[0].completed.map((o) => o.step.step)).toEqual([1]);
+    expect(failures[0].remaining.map((s) => s.step)).toEqual([3]);
+    expect(outcomes.map((o) => o.step.step)).toEqual([1, 4]);
+    expect(executor.getPlan().steps.map((s) => s.step)).toEqual([1, 4]);
+  });
+
+  it('rethrows the step error when the revised plan is invalid, without applying it', async () => {
+    const plan: Plan = { goal: 'x', steps: [step(1, [])] };
+
+    const executor = new PlanExecutor(plan, {
+      runStep: async () => {
+        throw new Error('Błąd kroku');
+      },
+      // Depends on a step that does not exist
+      replan: async () => [step(2, [7])],
+    });
+
+    await expect(executor.run()).rejects.toThrow('Błąd kroku');
+    expect(executor.getPlan().steps.map((s) => s.step)).toEqual([1]);
+  });
+
+  it('rethrows a budget error of the re-planning call instead of the step error', async () => {
+    const plan: Plan = { goal: 'x', steps: [step(1, [])] };
+    const budgetError = Object.assign(new Error('Budget exceeded: execution budget limit reached'), { isBudgetExceeded: true });
+
+    const executor = new PlanExecutor(plan, {
+      runStep: async () => {
+        throw new Error('Błąd kroku');
+      },
+      replan: async () => {
+        throw budgetError;
+      },
+    });
+
+    await expect(executor.run()).rejects.toBe(budgetError);
+  });
+
+  it('falls back to the step error when re-planning fails', async () => {
+    const plan: Plan = { goal: 'x', steps: [step(1, [])] };
+
+    const executor = new PlanExecutor(plan, {
+      runStep: async () => {
+        throw new Error('Błąd kroku');
+      },
+      replan: async () => {
+        throw new Error('Menedżer zwrócił niepoprawny JSON');
+      },
+    });
+
+    await expect(executor.run()).rejects.toThrow('Błąd kroku');
+  });
+
+  it('stops re-planning after maxRevisions', async () => {
+    const plan: Plan = { goal: 'x', steps: [step(1, [])] };
+    let revisions = 0;
+
+    const executor = new PlanExecutor(plan, {
+      maxRevisions: 2,
+      runStep: async (s) => {
+        throw new Error(`Błąd kroku ${s.step}`);
+      },
+      replan: async () => {
+        revisions++;
+        return [step(revisions + 1, [])];
+      },
+    });
+
+    await expect(executor.run()).rejects.toThrow('Błąd kroku 3');
+    expect(revisions).toBe(2);
+  });
+
+  it('does not run steps completed in an earlier run', async () => {
+    const plan: Plan = { goal: 'x', steps: [step(1, []), step(2, [1])] };
+    const run: number[] = [];
+
+    const outcomes = await new PlanExecutor(plan, {
+      completed: [{ step: plan.steps[0], result: 'zapisany wynik' }],
+      runStep: async (s, dependencies) => {
+        run.push(s.step);
+        return `${dependencies[0].result} + krok ${s.step}`;
+      },
+    }).run();
+
+    expect(run).toEqual([2]);
+    expect(outcomes.map((o) => o.result)).toEqual(['zapisany wynik', 'zapisany wynik + krok 2']);
+  });
+});
+
+describe('validatePlan', () => {
+  it('rejects unknown, self-referencing and cyclic dependencies', () => {
+    expect(() => validatePlan({ goal: 'x', steps: [step(1, [2])] })).toThrow('Invalid dependency in step 1: step 2');
+    expect(() => validatePlan({ goal: 'x', steps: [step(1, [1])] })).toThrow('Invalid dependency in step 1: step 1');
+    expect(() => validatePlan({ goal: 'x', steps: [step(1, [2]), step(2, [1])] })).toThrow('Cyclic dependency');
+    expect(() => validatePlan({ goal: 'x', steps: [step(1), step(1)] })).toThrow('duplicate step numbers');
+  });
+});
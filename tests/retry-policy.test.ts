@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { RetryInfo, RetryPolicy, classifyError, getRetryDelay, resolveRetryPolicy, withRetry } from '../src/retry-policy.js';
+
+const policy: RetryPolicy = resolveRetryPolicy({ initialDelayMs: 1, maxDelayMs: 4 });
+
+function errorWith(message: string, fields: Record<string, any> = {}): Error {
+  return Object.assign(new Error(message), fields);
+}
+
+describe('classifyError', () => {
+  it('recognizes the retryable error classes', () => {
+    expect(classifyError(errorWith('Too many requests', { isRateLimit: true, retryAfter: 5 }))).toBe('rate_limit');
+    expect(classifyError(errorWith('Request failed', { status: 429 }))).toBe('rate_limit');
+    expect(classifyError(errorWith('Ollama request timed out after 120000ms'))).toBe('timeout');
+    expect(classifyError(errorWith('fetch failed', { cause: { code: 'ECONNREFUSED' } }))).toBe('connection');
+    expect(classifyError(errorWith('[503 Service Unavailable] The model is overloaded'))).toBe('server_error');
+    expect(classifyError(errorWith('Maximum tool call iterations (20) exceeded.'))).toBe('max_iterations');
+  });
+
+  it('does not retry aborts, budget, output validation, tool loop and other errors', () => {
+    expect(classifyError(new Error('Execution aborted by user'))).toBeNull();
+    expect(classifyError(errorWith('Budget exceeded: 429 calls', { isBudgetExceeded: true }))).toBeNull();
+    expect(classifyError(errorWith('Step 1: result does not match', { isOutputValidation: true }))).toBeNull();
+    expect(classifyError(errorWith('Tool loop timeout', { isToolLoop: true }))).toBeNull();
+    expect(classifyError(errorWith('Invalid request', { status: 400 }))).toBeNull();
+  });
+
+  it('takes server errors from the status, not from numbers quoted in the message', () => {
+    expect(classifyError(errorWith('Ollama API error (502): bad gateway', { status: 502 }))).toBe('server_error');
+    expect(classifyError(errorWith('Ollama API error (404): model "bielik" not found', { status: 404 }))).toBeNull();
+    expect(classifyError(errorWith('Neo.ClientError.Statement.SyntaxError: Invalid input near "MATCH (n) RETURN n LIMIT 500"'))).toBeNull();
+    expect(classifyError(errorWith('Query returned 503 rows, expected at most 100'))).toBeNull();
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially up to maxDelayMs', () => {
+    const backoff = resolveRetryPolicy({ initialDelayMs: 1000, backoffMultiplier: 2, maxDelayMs: 5000 });
+    expect([1, 2, 3, 4].map((attempt) => getRetryDelay(backoff, attempt))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('waits for the retry-after of a rate limit', () => {
+    expect(getRetryDelay(policy, 1, errorWith('Rate limit', { isRateLimit: true, retryAfter: 7 }))).toBe(7000);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable errors until the operation succeeds', async () => {
+    const retries: RetryInfo[] = [];
+    const result = await withRetry(
+      async (attempt) => {
+        if (attempt < 3) {
+          throw errorWith('socket hang up');
+        }
+        return `próba ${attempt}`;
+      },
+      policy,
+      { onRetry: (info) => retries.push(info) }
+    );
+
+    expect(result).toBe('próba 3');
+    expect(retries.map(({ attempt, delayMs, errorClass }) => ({ attempt, delayMs, errorClass }))).toEqual([
+      { attempt: 1, delayMs: 1, errorClass: 'connection' },
+      { attempt: 2, delayMs: 2, errorClass: 'connection' },
+    ]);
+  });
+
+  it('throws the last error after maxAttempts without waiting again', async () => {
+    const retries: RetryInfo[] = [];
+    let attempts = 0;
+
+    await expect(
+      withRetry(
+        async () => {
+          attempts++;
+          throw errorWith(`503 Service Unavailable (${attempts})`);
+        },
+        policy,
+        { onRetry: (info) => retries.push(info) }
+      )
+    ).rejects.toThrow('503 Service Unavailable (3)');
+    expect(attempts).toBe(3);
+    expect(retries).toHaveLength(2);
+  });
+
+  it('does not retry errors outside retryOn', async () => {
+    let attempts = 0;
+
+    await expect(
+      withRetry(
+        async () => {
+          attempts++;
+          throw errorWith('Maximum tool call iterations (20) exceeded.');
+        },
+        policy
+      )
+    ).rejects.toThrow('Maximum tool call iterations');
+    expect(attempts).toBe(1);
+  });
+
+  it('stops retrying once aborted', async () => {
+    let attempts = 0;
+
+    await expect(
+      withRetry(
+        async () => {
+          attempts++;
+          throw errorWith('timeout');
+        },
+        policy,
+        { isAborted: () => attempts > 0 }
+      )
+    ).rejects.toThrow('Execution aborted by user');
+    expect(attempts).toBe(1);
+  });
+});
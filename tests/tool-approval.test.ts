@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { matchesToolPattern, requiresApproval } from '../src/tool-approval.js';
+import { AgentLoop } from '../src/agent-loop.js';
+import { FakeAgent } from '../src/agents/fake-agent.js';
+import { ToolCall } from '../src/types/index.js';
+
+describe('matchesToolPattern', () => {
+  it('matches exact names and "*" wildcards', () => {
+    expect(matchesToolPattern('write_artifact', 'write_artifact')).toBe(true);
+    expect(matchesToolPattern('write_artifact', 'write_*')).toBe(true);
+    expect(matchesToolPattern('read_artifact', 'write_*')).toBe(false);
+    expect(matchesToolPattern('mcp_neo4j_write_neo4j_cypher', 'mcp_*_write_*')).toBe(true);
+  });
+
+  it('matches MCP tools by their bare tool name', () => {
+    expect(matchesToolPattern('mcp_neo4j_write_neo4j_cypher', 'write_neo4j_cypher')).toBe(true);
+    expect(matchesToolPattern('mcp_neo4j_write_neo4j_cypher', '*_cypher')).toBe(true);
+    expect(matchesToolPattern('mcp_neo4j_read_neo4j_cypher', 'write_neo4j_cypher')).toBe(false);
+  });
+
+  it('treats regular expression characters in patterns literally', () => {
+    expect(matchesToolPattern('delete.all', 'delete.all')).toBe(true);
+    expect(matchesToolPattern('deleteXall', 'delete.all')).toBe(false);
+  });
+});
+
+describe('requiresApproval', () => {
+  it('requires approval when any pattern matches', () => {
+    expect(requiresApproval('mcp_neo4j_write_neo4j_cypher', ['delete_*', 'write_*'])).toBe(true);
+    expect(requiresApproval('mcp_neo4j_read_neo4j_cypher', ['delete_*', 'write_*'])).toBe(false);
+    expect(requiresApproval('write_artifact', [])).toBe(false);
+  });
+});
+
+describe('AgentLoop tool approval', () => {
+  it('runs edited calls with the new arguments and returns rejections to the model', async () => {
+    const agent = new FakeAgent({
+      name: 'fake',
+      responses: [
+        {
+          toolCalls: [
+            { name: 'write_neo4j_cypher', input: { query: 'MATCH (n) DETACH DELETE n' } },
+            { name: 'write_neo4j_cypher', input: { query: 'CREATE (:Person {name: "Eve"})' } },
+          ],
+        },
+        { content: 'gotowe' },
+      ],
+    });
+    const dispatched: ToolCall[] = [];
+    const loop = new AgentLoop(agent, {
+      dispatchTool: async (toolCall) => {
+        dispatched.push(toolCall);
+        return 'ok';
+      },
+      approveToolCall: async (toolCall) =>
+        toolCall.input.query.includes('DELETE')
+          ? { action: 'reject', reason: 'usuwanie danych jest zabronione' }
+          : { action: 'edit', input: { query: 'CREATE (:Person {name: "Ewa"})' } },
+    });
+
+    await loop.run([{ role: 'user', content: 'zmień dane' }]);
+
+    expect(dispatched.map((call) => call.input.query)).toEqual(['CREATE (:Person {name: "Ewa"})']);
+    const results = agent.requests[1].at(-1)?.content as string;
+    expect(results).toContain('zostało odrzucone przez użytkownika: usuwanie danych jest zabronione');
+  });
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // Tests start MCP servers and the UI server as child processes
+    testTimeout: 60000,
+    hookTimeout: 60000,
+  },
+});